@@ -8,6 +8,7 @@ import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { type Model, type RalphConfig } from "./config";
 import { getCliForModel, isGeminiModel, isKiroModel } from "./models";
+import { parseStreamJson, summarizeStream } from "../../ralph-ui/src/runner/stream-json";
 
 // CLI spawn options
 export interface ClaudeSpawnOptions {
@@ -230,6 +231,7 @@ Timestamp: ${timestamp}
 
 /**
  * Parse Claude's JSON output to extract meaningful information
+ * Built on the runner's stream-json parser (ralph-ui/src/runner/stream-json.ts)
  */
 export function parseClaudeOutput(stdout: string): {
   messages: Array<{ role: string; content: string }>;
@@ -242,38 +244,23 @@ export function parseClaudeOutput(stdout: string): {
   error?: string;
 } {
   try {
-    // Claude outputs JSONL, parse line by line
-    const lines = stdout.split("\n").filter(line => line.trim());
-    const messages: Array<{ role: string; content: string }> = [];
-    let usage: { inputTokens: number; outputTokens: number; cacheCreateTokens?: number; cacheReadTokens?: number } | undefined;
-
-    for (const line of lines) {
-      try {
-        const data = JSON.parse(line);
-
-        // Extract messages
-        if (data.type === "assistant" && data.content) {
-          const textContent = Array.isArray(data.content)
-            ? data.content.filter((c: { type: string }) => c.type === "text").map((c: { text: string }) => c.text).join("")
-            : data.content;
-          messages.push({ role: "assistant", content: textContent });
-        }
-
-        // Extract usage
-        if (data.usage) {
-          usage = {
-            inputTokens: data.usage.input_tokens ?? 0,
-            outputTokens: data.usage.output_tokens ?? 0,
-            cacheCreateTokens: data.usage.cache_creation_input_tokens,
-            cacheReadTokens: data.usage.cache_read_input_tokens,
-          };
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
+    const events = parseStreamJson(stdout);
+    const messages = events.flatMap((event) =>
+      event.type === "assistant_text" ? [{ role: "assistant", content: event.text }] : []
+    );
+    const tokens = summarizeStream(events).tokens;
 
-    return { messages, usage };
+    return {
+      messages,
+      usage: tokens
+        ? {
+            inputTokens: tokens.input,
+            outputTokens: tokens.output,
+            cacheCreateTokens: tokens.cacheCreate,
+            cacheReadTokens: tokens.cacheRead,
+          }
+        : undefined,
+    };
   } catch (error) {
     return {
       messages: [],
@@ -6,13 +6,20 @@
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
+import { formatSchemaError, validateAgainst } from "../../ralph-ui/src/runner/schema";
+import type {
+  NotificationEvent,
+  NotificationRoutingConfig,
+  NotifierConfig,
+  RemoteControlConfig,
+} from "../../ralph-ui/src/runner/types";
 
 // Model types
 export type Model = "haiku" | "sonnet" | "opus" | "gemini-flash" | "gemini-pro" | "kiro" | string;
 export type TaskType = "US" | "V" | "TEST" | "BUG" | "AUDIT" | "MP" | string;
 export type ModelStrategy = "single" | "smart";
 export type Runtime = "bash" | "bun";
-export type NotificationEvent = "iteration_complete" | "story_complete" | "all_complete" | "blocked" | "all_blocked" | "error";
+export type { NotificationEvent, NotifierConfig };
 export type UiMode = "live" | "iteration" | "startup";
 
 // Pricing per million tokens
@@ -34,10 +41,11 @@ export interface RalphConfig {
   models?: Partial<Record<TaskType, Model>>;
   parallelVerification?: boolean;
   parallelAgents?: number;
-  notifications?: {
+  notifications?: NotificationRoutingConfig & {
     enabled: boolean;
     ntfyTopic?: string;
-    events?: NotificationEvent[];
+    providers?: NotifierConfig[]; // Extra channels: self-hosted ntfy, webhook, slack, discord, desktop
+    control?: RemoteControlConfig; // ntfy topic the runner takes commands from
   };
   defaults?: {
     maxIterations?: number;
@@ -56,6 +64,18 @@ export interface RalphConfig {
     };
     warnThreshold?: number;
   };
+  budget?: {
+    perRun?: number;
+    perStory?: number;
+    perDay?: number;
+    action?: "warn" | "downgrade" | "stop";
+    downgrade?: Record<string, Model>;
+  };
+  escalation?: {
+    ladder?: Record<string, Model>;
+    escalateAfter?: number;
+    maxFailedAttempts?: number;
+  };
   errorHandling?: {
     maxRetries?: number;
     noMessagesMaxRetries?: number;
@@ -142,7 +162,14 @@ export function loadConfig(configPath?: string): RalphConfig {
     const userConfig: Partial<RalphConfig> = JSON.parse(content);
 
     // Deep merge with defaults
-    return mergeConfig(DEFAULT_CONFIG, userConfig) as RalphConfig;
+    const config = mergeConfig(DEFAULT_CONFIG, userConfig) as RalphConfig;
+
+    // Still usable, but say exactly what doesn't match config.schema.json
+    const issues = validateAgainst("config", config);
+    if (issues.length > 0) {
+      console.error(`Invalid config: ${formatSchemaError(filePath, issues)}`);
+    }
+    return config;
   } catch (error) {
     console.error(`Failed to load config from ${filePath}:`, error);
     return { ...DEFAULT_CONFIG } as RalphConfig;
@@ -48,23 +48,36 @@ export {
   estimateStoryCost,
 } from "./costs";
 
-// Stories module
+// Stories module (shared with the ralph-ui runner)
 export {
   type StoryStatus,
   type StoryType,
   type Priority,
   type AcceptanceCriterion,
+  type BlockedReason,
   type Story,
   type PRDIndex,
+  type PRDIndexStats,
+  type UpdateQueue,
+  INDEX_LOCK_FILE,
+  withIndexLock,
   readIndex,
   writeIndex,
+  computeIndexStats,
   readStory,
+  findInvalidPRDFiles,
   writeStory,
   listStoryIds,
   getNextStory,
+  refreshNextStory,
   checkCriterion,
   completeStory,
   blockStory,
+  unblockStory,
+  updateFailedAttempts,
+  applyUpdateQueue,
+  isComplete,
+  isAllBlocked,
   getCriteriaProgress,
   hasPartialProgress,
   getUncheckedCriteria,
@@ -73,6 +86,38 @@ export {
   getUnsatisfiedDependencies,
 } from "./stories";
 
+// File lock module
+export {
+  type LockOptions,
+  LockTimeoutError,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  writeFileAtomic,
+  acquireLock,
+  releaseLock,
+  withFileLock,
+} from "../../ralph-ui/src/runner/file-lock";
+
+// Stream-json output parsing
+export type { StreamEvent, StreamEventType } from "../../ralph-ui/src/runner/types";
+export {
+  type StreamSummary,
+  StreamJsonParser,
+  parseStreamJson,
+  summarizeStream,
+  formatToolCalls,
+} from "../../ralph-ui/src/runner/stream-json";
+
+// Notification providers (shared with the ralph-ui runner)
+export type { Notification, Notifier, NotifierConfig } from "../../ralph-ui/src/runner/types";
+export {
+  WebhookNotifier,
+  ChatWebhookNotifier,
+  DesktopNotifier,
+  NotifierGroup,
+  createNotifier,
+} from "../../ralph-ui/src/runner/notifiers";
+export { NtfyNotifier } from "../../ralph-ui/src/runner/ntfy";
+
 // Claude module
 export {
   type ClaudeSpawnOptions,
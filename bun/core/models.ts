@@ -6,22 +6,18 @@
 import { type RalphConfig, type Model, type TaskType } from "./config";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
+import {
+  DEFAULT_TASK_MODELS,
+  extractTaskType,
+  getModelForStory as routeStory,
+} from "../../ralph-ui/src/runner/models";
 
-// Default model assignments per task type
-const DEFAULT_TASK_MODELS: Record<TaskType, Model> = {
-  US: "sonnet",
-  V: "haiku",
-  TEST: "haiku",
-  BUG: "sonnet",
-  AUDIT: "opus",
-  MP: "opus",
-};
+// AIDEV-NOTE: Task-type routing (defaults, prefixes, priority order) lives in
+// ralph-ui/src/runner/models.ts, which the runner uses - fix routing bugs there.
+// This module adds what only the zsh-facing CLI has: the verify model for V-* stories,
+// the routing table and the per-CLI helpers.
 
-// Extract task type prefix from story ID (e.g., "US-001" -> "US")
-export function extractTaskType(storyId: string): TaskType {
-  const match = storyId.match(/^([A-Z]+)-/);
-  return match ? match[1] : "US";
-}
+export { extractTaskType };
 
 /**
  * Get the model to use for a specific story
@@ -67,23 +63,8 @@ export function getModelForStory(
     return options.cliPrimaryModel ?? "opus";
   }
 
-  // 3. Config-based routing
-  if (config.modelStrategy === "smart") {
-    // Check config models first
-    const configModel = config.models?.[taskType];
-    if (configModel) {
-      return configModel;
-    }
-    // Fall back to defaults for known task types
-    if (taskType in DEFAULT_TASK_MODELS) {
-      return DEFAULT_TASK_MODELS[taskType as keyof typeof DEFAULT_TASK_MODELS];
-    }
-    // Unknown task type - use config fallback or default
-    return config.unknownTaskType ?? "sonnet";
-  }
-
-  // 4. Single model strategy - use default for everything
-  return config.defaultModel ?? "opus";
+  // 3./4. Config-based routing, or the single default model
+  return routeStory({ id: storyId }, config).model;
 }
 
 /**
@@ -3,12 +3,16 @@
  * TypeScript implementation matching the zsh _ralph_ntfy function
  */
 
+export const DEFAULT_NTFY_URL = "https://ntfy.sh";
+
 export interface NotificationOptions {
   topic: string;
   title: string;
   body: string;
   priority?: "min" | "low" | "default" | "high" | "urgent";
   tags?: string[];
+  baseUrl?: string; // Self-hosted ntfy server (default: DEFAULT_NTFY_URL)
+  token?: string; // Access token, sent as a Bearer Authorization header
 }
 
 /**
@@ -27,9 +31,12 @@ export function buildCurlArgs(options: NotificationOptions): string[] {
   if (options.tags && options.tags.length > 0) {
     args.push("-H", `Tags: ${options.tags.join(",")}`);
   }
+  if (options.token) {
+    args.push("-H", `Authorization: Bearer ${options.token}`);
+  }
 
   args.push("-d", options.body);
-  args.push(`https://ntfy.sh/${options.topic}`);
+  args.push(`${(options.baseUrl ?? DEFAULT_NTFY_URL).replace(/\/+$/, "")}/${options.topic}`);
 
   return args;
 }
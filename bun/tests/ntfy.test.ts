@@ -82,6 +82,21 @@ describe("sendNotification", () => {
       expect(args).toContain("https://ntfy.sh/my-custom-topic");
     });
 
+    it("should post to a self-hosted server with a token", () => {
+      const options: NotificationOptions = {
+        topic: "ralph",
+        title: "Test",
+        body: "Test",
+        baseUrl: "https://ntfy.example.com/",
+        token: "tk_secret"
+      };
+
+      const args = buildCurlArgs(options);
+
+      expect(args).toContain("Authorization: Bearer tk_secret");
+      expect(args[args.length - 1]).toBe("https://ntfy.example.com/ralph");
+    });
+
     it("should handle multiline body", () => {
       const options: NotificationOptions = {
         topic: "test-topic",
@@ -3,7 +3,7 @@
  */
 
 import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
-import { mkdirSync, writeFileSync, rmSync, existsSync } from "fs";
+import { mkdirSync, writeFileSync, rmSync, existsSync, readdirSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 import {
@@ -22,6 +22,7 @@ import {
   getCheckedCriteria,
   areDependenciesSatisfied,
   getUnsatisfiedDependencies,
+  INDEX_LOCK_FILE,
   type Story,
   type PRDIndex,
 } from "../core/stories";
@@ -90,6 +91,25 @@ describe("writeIndex", () => {
     const read = readIndex(TEST_DIR);
     expect(read!.nextStory).toBe("TEST-001");
   });
+
+  test("leaves no temp or lock files behind", () => {
+    createTestIndex({});
+    createTestStory({ id: "US-001" });
+    completeStory(TEST_DIR, "US-001");
+
+    const leftovers = readdirSync(TEST_DIR).filter((f) => f.endsWith(".tmp") || f === INDEX_LOCK_FILE);
+    expect(leftovers).toEqual([]);
+  });
+
+  test("waits out a stale lock from a dead process", () => {
+    createTestIndex({});
+    createTestStory({ id: "US-001" });
+    writeFileSync(join(TEST_DIR, INDEX_LOCK_FILE), JSON.stringify({ pid: 999999, createdAt: Date.now() }));
+
+    completeStory(TEST_DIR, "US-001");
+    expect(readStory(TEST_DIR, "US-001")!.passes).toBe(true);
+    expect(existsSync(join(TEST_DIR, INDEX_LOCK_FILE))).toBe(false);
+  });
 });
 
 describe("readStory / writeStory", () => {
@@ -129,13 +149,21 @@ describe("listStoryIds", () => {
 });
 
 describe("getNextStory", () => {
-  test("returns the next story from index", () => {
-    createTestIndex({ nextStory: "US-NEXT" });
+  test("returns the first ready pending story", () => {
+    createTestIndex({ storyOrder: ["US-NEXT"], pending: ["US-NEXT"], nextStory: "US-NEXT" });
     createTestStory({ id: "US-NEXT", title: "Next Story" });
 
     const story = getNextStory(TEST_DIR);
     expect(story!.id).toBe("US-NEXT");
   });
+
+  test("ignores a stale nextStory in index.json", () => {
+    createTestIndex({ storyOrder: ["US-NEXT", "US-LATER"], pending: ["US-LATER", "US-NEXT"], nextStory: "US-LATER" });
+    createTestStory({ id: "US-NEXT" });
+    createTestStory({ id: "US-LATER", dependencies: ["US-NEXT"] });
+
+    expect(getNextStory(TEST_DIR)!.id).toBe("US-NEXT");
+  });
 });
 
 describe("checkCriterion", () => {
@@ -148,42 +176,75 @@ describe("checkCriterion", () => {
       ],
     });
 
-    const result = checkCriterion(TEST_DIR, "US-CHECK", 0);
-    expect(result).toBe(true);
+    checkCriterion(TEST_DIR, "US-CHECK", 0);
 
     const story = readStory(TEST_DIR, "US-CHECK");
     expect(story!.acceptanceCriteria[0].checked).toBe(true);
     expect(story!.acceptanceCriteria[1].checked).toBe(false);
+    expect(story!.passes).toBeFalsy();
   });
 
-  test("returns false for invalid index", () => {
+  test("sets passes once every criterion is checked", () => {
+    createTestStory({ id: "US-LAST", acceptanceCriteria: [{ text: "Only", checked: false }] });
+
+    checkCriterion(TEST_DIR, "US-LAST", 0);
+    expect(readStory(TEST_DIR, "US-LAST")!.passes).toBe(true);
+  });
+
+  test("throws for an invalid index or missing story", () => {
     createTestStory({ id: "US-INVALID" });
-    const result = checkCriterion(TEST_DIR, "US-INVALID", 99);
-    expect(result).toBe(false);
+    expect(() => checkCriterion(TEST_DIR, "US-INVALID", 99)).toThrow("Invalid criterion index: 99");
+    expect(() => checkCriterion(TEST_DIR, "NOPE-001", 0)).toThrow("Story not found: NOPE-001");
   });
 });
 
 describe("completeStory", () => {
   test("marks story as complete and updates index", () => {
-    createTestIndex({ pending: ["US-COMPLETE", "US-002"], nextStory: "US-COMPLETE" });
+    createTestIndex({
+      storyOrder: ["US-COMPLETE", "US-002"],
+      pending: ["US-COMPLETE", "US-002"],
+      nextStory: "US-COMPLETE",
+      stats: { total: 2, completed: 0, pending: 2, blocked: 0 },
+    });
     createTestStory({ id: "US-COMPLETE" });
+    createTestStory({ id: "US-002" });
 
-    const result = completeStory(TEST_DIR, "US-COMPLETE");
-    expect(result).toBe(true);
+    completeStory(TEST_DIR, "US-COMPLETE", "sonnet");
 
     const story = readStory(TEST_DIR, "US-COMPLETE");
     expect(story!.passes).toBe(true);
     expect(story!.completedAt).toBeDefined();
+    expect(story!.completedBy).toBe("sonnet");
+    expect(getCheckedCriteria(story!)).toHaveLength(2);
 
     const index = readIndex(TEST_DIR);
     expect(index!.pending).not.toContain("US-COMPLETE");
+    expect(index!.completed).toEqual(["US-COMPLETE"]);
     expect(index!.nextStory).toBe("US-002");
+    expect(index!.stats).toEqual({ total: 2, completed: 1, pending: 1, blocked: 0 });
+  });
+
+  test("counts earlier completions of an index without completed[]", () => {
+    createTestIndex({ pending: ["US-002", "US-003"], stats: { total: 3, completed: 1, pending: 2, blocked: 0 } });
+    createTestStory({ id: "US-002" });
+
+    completeStory(TEST_DIR, "US-002");
+
+    const index = readIndex(TEST_DIR);
+    expect(index!.completed).toEqual(["US-001", "US-002"]);
+    expect(index!.stats!.completed).toBe(2);
+  });
+
+  test("throws when the story does not exist", () => {
+    createTestIndex({});
+    expect(() => completeStory(TEST_DIR, "NOPE-001")).toThrow("Story not found: NOPE-001");
   });
 
   test("auto-unblocks stories when their blocker completes", () => {
     // Setup: US-BLOCKER is pending, US-BLOCKED is blocked by US-BLOCKER
-    createTestIndex({ 
-      pending: ["US-BLOCKER"], 
+    createTestIndex({
+      storyOrder: ["US-BLOCKER", "US-BLOCKED"],
+      pending: ["US-BLOCKER"],
       blocked: ["US-BLOCKED"],
       nextStory: "US-BLOCKER",
       stats: { total: 2, completed: 0, pending: 1, blocked: 1 }
@@ -192,8 +253,7 @@ describe("completeStory", () => {
     createTestStory({ id: "US-BLOCKED", title: "Blocked Story", blockedBy: "US-BLOCKER" });
 
     // Complete the blocker story
-    const result = completeStory(TEST_DIR, "US-BLOCKER");
-    expect(result).toBe(true);
+    completeStory(TEST_DIR, "US-BLOCKER");
 
     // Verify blocker is complete
     const blockerStory = readStory(TEST_DIR, "US-BLOCKER");
@@ -208,15 +268,16 @@ describe("completeStory", () => {
     expect(index!.pending).toContain("US-BLOCKED");
     expect(index!.blocked).not.toContain("US-BLOCKED");
     expect(index!.nextStory).toBe("US-BLOCKED");
-    expect(index!.stats.pending).toBe(1);
-    expect(index!.stats.blocked).toBe(0);
-    expect(index!.stats.completed).toBe(1);
+    expect(index!.stats!.pending).toBe(1);
+    expect(index!.stats!.blocked).toBe(0);
+    expect(index!.stats!.completed).toBe(1);
   });
 
   test("handles chain reaction unblocking (A blocks B blocks C)", () => {
     // Setup: A is pending, B is blocked by A, C is blocked by B
-    createTestIndex({ 
-      pending: ["US-A"], 
+    createTestIndex({
+      storyOrder: ["US-A", "US-B", "US-C"],
+      pending: ["US-A"],
       blocked: ["US-B", "US-C"],
       nextStory: "US-A",
       stats: { total: 3, completed: 0, pending: 1, blocked: 2 }
@@ -240,15 +301,16 @@ describe("completeStory", () => {
     expect(index!.pending).toContain("US-C");
     expect(index!.blocked).not.toContain("US-C");
     expect(index!.nextStory).toBe("US-C");
-    expect(index!.stats.pending).toBe(1);
-    expect(index!.stats.blocked).toBe(0);
-    expect(index!.stats.completed).toBe(2);
+    expect(index!.stats!.pending).toBe(1);
+    expect(index!.stats!.blocked).toBe(0);
+    expect(index!.stats!.completed).toBe(2);
   });
 
   test("updates nextStory when pending was empty before unblock", () => {
     // Setup: no pending stories, one blocked story
-    createTestIndex({ 
-      pending: [], 
+    createTestIndex({
+      storyOrder: ["US-BLOCKER", "US-BLOCKED"],
+      pending: [],
       blocked: ["US-BLOCKED"],
       nextStory: undefined,
       stats: { total: 2, completed: 1, pending: 0, blocked: 1 }
@@ -271,8 +333,7 @@ describe("blockStory", () => {
     createTestIndex({ pending: ["US-BLOCK", "US-002"], nextStory: "US-BLOCK" });
     createTestStory({ id: "US-BLOCK" });
 
-    const result = blockStory(TEST_DIR, "US-BLOCK", "External dependency");
-    expect(result).toBe(true);
+    blockStory(TEST_DIR, "US-BLOCK", "External dependency");
 
     const story = readStory(TEST_DIR, "US-BLOCK");
     expect(story!.blockedBy).toBe("External dependency");
@@ -385,6 +446,17 @@ describe("areDependenciesSatisfied", () => {
     expect(areDependenciesSatisfied(TEST_DIR, story)).toBe(true);
   });
 
+  test("treats stories in index.completed as satisfied", () => {
+    createTestIndex({ completed: ["ARCHIVED-001"] });
+    const story: Story = {
+      id: "US-ARCHIVED",
+      title: "Archived dep",
+      acceptanceCriteria: [],
+      dependencies: ["ARCHIVED-001"],
+    };
+    expect(areDependenciesSatisfied(TEST_DIR, story)).toBe(true);
+  });
+
   test("returns false when dependency is not satisfied", () => {
     createTestStory({ id: "DEP-002", passes: false });
     const story: Story = {
@@ -10,9 +10,34 @@ import { ErrorBanner } from './ErrorBanner.js';
 import { RetryCountdown } from './RetryCountdown.js';
 import { HangingWarning } from './HangingWarning.js';
 import { ConfigMenu } from './ConfigMenu.js';
+import { KeyboardHelp } from './KeyboardHelp.js';
+import { StoryBrowser } from './StoryBrowser.js';
 import { useFileWatch } from '../hooks/useFileWatch.js';
 import { useStatusFile } from '../hooks/useStatusFile.js';
+import { loadConfigChecked } from '../utils/config.js';
 import type { DashboardProps, PRDStats } from '../types.js';
+import type { ControlCommand, Model } from '../runner/types.js';
+
+// 'm' steps through these (null: back to per-story routing)
+const MODEL_CYCLE: (Model | null)[] = [null, 'haiku', 'sonnet', 'opus'];
+
+// Run-control keys (--run mode only)
+function controlCommandForKey(input: string, model: Model | null, paused: boolean): ControlCommand | null {
+  switch (input) {
+    case 'p':
+      return { type: paused ? 'resume' : 'pause' };
+    case 's':
+      return { type: 'skip' };
+    case 'r':
+      return { type: 'retry' };
+    case 'm':
+      return { type: 'model', model: MODEL_CYCLE[(MODEL_CYCLE.indexOf(model) + 1) % MODEL_CYCLE.length] };
+    case 'v':
+      return { type: 'verbose' };
+    default:
+      return null;
+  }
+}
 
 // Live clock hook - only used in live mode
 // MP-131: Synchronized with other 1000ms timers to reduce render conflicts
@@ -49,8 +74,15 @@ function useLiveClock(enabled: boolean): string {
 // (even with isActive: false). We must conditionally render the component that uses it.
 // This is split into two components: one that uses useInput (for TTY), one that doesn't.
 
+interface KeyboardHandlerProps {
+  onExit: () => void;
+  onConfig: () => void;
+  onKey: (input: string) => void;
+  configActive: boolean;
+}
+
 // Component that uses Ink's useInput - only rendered when raw mode IS supported
-function RawModeKeyboardHandler({ onExit, onConfig, configActive }: { onExit: () => void; onConfig: () => void; configActive: boolean }) {
+function RawModeKeyboardHandler({ onExit, onConfig, onKey, configActive }: KeyboardHandlerProps) {
   // AIDEV-NOTE: Ctrl+C is handled by SIGINT handler in index.tsx, not here.
   // Disabled when config menu is active (ConfigMenu handles its own input)
   useInput((input, key) => {
@@ -58,6 +90,8 @@ function RawModeKeyboardHandler({ onExit, onConfig, configActive }: { onExit: ()
       onExit();
     } else if (input === 'c') {
       onConfig();
+    } else {
+      onKey(input);
     }
   }, { isActive: !configActive });
 
@@ -66,7 +100,7 @@ function RawModeKeyboardHandler({ onExit, onConfig, configActive }: { onExit: ()
 
 // Component that uses manual stdin handling - only rendered when raw mode is NOT supported
 // AIDEV-NOTE: Ctrl+C is handled by SIGINT handler in index.tsx, not here.
-function FallbackKeyboardHandler({ onExit, onConfig, configActive }: { onExit: () => void; onConfig: () => void; configActive: boolean }) {
+function FallbackKeyboardHandler({ onExit, onConfig, onKey, configActive }: KeyboardHandlerProps) {
   useEffect(() => {
     if (configActive) return; // Config menu handles its own input
 
@@ -76,6 +110,8 @@ function FallbackKeyboardHandler({ onExit, onConfig, configActive }: { onExit: (
         onExit();
       } else if (char === 'c') {
         onConfig();
+      } else {
+        onKey(char);
       }
     };
 
@@ -89,7 +125,7 @@ function FallbackKeyboardHandler({ onExit, onConfig, configActive }: { onExit: (
         process.stdin.setRawMode?.(false);
       };
     }
-  }, [onExit, onConfig, configActive]);
+  }, [onExit, onConfig, onKey, configActive]);
 
   return null;
 }
@@ -98,16 +134,16 @@ function FallbackKeyboardHandler({ onExit, onConfig, configActive }: { onExit: (
 // AIDEV-NOTE: This component handles keyboard input for the dashboard.
 // It calls onExit() which signals the parent to exit gracefully.
 // The actual process.exit() is handled by the global signal handlers in index.tsx.
-// Also handles 'c' key to open config menu.
-function KeyboardHandler({ onExit, onConfig, configActive }: { onExit: () => void; onConfig: () => void; configActive: boolean }) {
+// Also handles 'c' key to open config menu; every other key goes to onKey.
+function KeyboardHandler(props: KeyboardHandlerProps) {
   const { isRawModeSupported } = useStdin();
 
   // Conditionally render based on raw mode support to avoid Ink errors
   if (isRawModeSupported) {
-    return <RawModeKeyboardHandler onExit={onExit} onConfig={onConfig} configActive={configActive} />;
+    return <RawModeKeyboardHandler {...props} />;
   }
 
-  return <FallbackKeyboardHandler onExit={onExit} onConfig={onConfig} configActive={configActive} />;
+  return <FallbackKeyboardHandler {...props} />;
 }
 
 export const Dashboard = React.memo(({
@@ -118,23 +154,61 @@ export const Dashboard = React.memo(({
   startTime = Date.now(),
   ntfyTopic,
   onExitRequest,
+  pid,
+  onBack,
+  control,
 }: DashboardProps) => {
   const { stdout } = useStdout();
   const { isRawModeSupported } = useStdin();
   const { exit } = useApp();
   const [terminalWidth, setTerminalWidth] = useState(stdout?.columns || 80);
   const [showConfig, setShowConfig] = useState(false);
+  const [configError, setConfigError] = useState(() => loadConfigChecked().error);
+  const [showHelp, setShowHelp] = useState(false);
+  const [showStories, setShowStories] = useState(false);
+  const [controlReply, setControlReply] = useState<string | null>(null);
   const isLiveMode = mode === 'live';
   const isIterationMode = mode === 'iteration';
   const currentTime = useLiveClock(isLiveMode || isIterationMode);
 
   // Stable exit callback - calls onExitRequest first (for runner mode), then exits UI
+  // In a fleet drill-down, q/Esc goes back to the instance list instead
+  // With the help overlay open, q/Esc only closes it
   const handleExit = useCallback(() => {
+    if (showHelp) {
+      setShowHelp(false);
+      return;
+    }
+    if (onBack) {
+      onBack();
+      return;
+    }
     if (onExitRequest) {
       onExitRequest();
     }
     exit();
-  }, [exit, onExitRequest]);
+  }, [exit, onExitRequest, onBack, showHelp]);
+
+  // '?' help, 'b' story browser, plus the run-control keys when this dashboard drives a loop
+  const handleKey = useCallback((input: string) => {
+    if (input === '?') {
+      setShowHelp((shown) => !shown);
+      return;
+    }
+    if (input === 'b' && isRawModeSupported) {
+      setShowHelp(false);
+      setShowStories(true);
+      return;
+    }
+    const command = control ? controlCommandForKey(input, control.model, control.paused) : null;
+    if (control && command) {
+      setControlReply(control.apply(command).message);
+    }
+  }, [control, isRawModeSupported]);
+
+  const handleCloseStories = useCallback(() => {
+    setShowStories(false);
+  }, []);
 
   // Toggle config menu
   const handleOpenConfig = useCallback(() => {
@@ -143,6 +217,7 @@ export const Dashboard = React.memo(({
 
   const handleCloseConfig = useCallback(() => {
     setShowConfig(false);
+    setConfigError(loadConfigChecked().error);
   }, []);
 
   // Auto-exit for startup mode only: render once, then exit immediately
@@ -168,6 +243,7 @@ export const Dashboard = React.memo(({
   const ralphStatus = useStatusFile({
     enabled: isLiveMode || mode === 'iteration',
     pollIntervalMs: 1000,
+    pid,
   });
 
   // Use live stats if available, otherwise use defaults
@@ -196,13 +272,21 @@ export const Dashboard = React.memo(({
     };
   }, [stdout]);
 
+  // The story browser replaces the dashboard until q/Esc (the loop keeps running)
+  if (showStories) {
+    return <StoryBrowser prdPath={prdPath} onBack={handleCloseStories} />;
+  }
+
   return (
     <Box key={`dashboard-${ralphStatus?.iteration ?? iteration}-${ralphStatus?.state ?? 'unknown'}`} flexDirection="column" width={terminalWidth}>
       {/* Keyboard handler - in live or iteration mode (SIGINT works even without raw mode) */}
       {(isLiveMode || isIterationMode) && (
-        <KeyboardHandler onExit={handleExit} onConfig={handleOpenConfig} configActive={showConfig} />
+        <KeyboardHandler onExit={handleExit} onConfig={handleOpenConfig} onKey={handleKey} configActive={showConfig} />
       )}
 
+      {/* Key bindings overlay */}
+      {showHelp && !showConfig && <KeyboardHelp runControls={!!control} />}
+
       {/* Config Menu overlay */}
       {showConfig && (
         <ConfigMenu onClose={handleCloseConfig} />
@@ -231,6 +315,13 @@ export const Dashboard = React.memo(({
         </Box>
       )}
 
+      {/* Invalid prd-json or config.json files - shown in every mode */}
+      {(stats.error || configError) && (
+        <Box marginBottom={1}>
+          <ErrorBanner error={[stats.error, configError].filter(Boolean).join('\n')} />
+        </Box>
+      )}
+
       {/* Ralph Status Indicators (shown in iteration/live modes) */}
       {(mode === 'iteration' || mode === 'live') && ralphStatus && (
         <Box flexDirection="column" marginBottom={1} gap={1}>
@@ -250,6 +341,7 @@ export const Dashboard = React.memo(({
           <RetryCountdown
             retryIn={ralphStatus.retryIn}
             isRetrying={ralphStatus.state === 'retry'}
+            canRetryNow={!!control && isRawModeSupported}
           />
 
           {/* Hanging Warning - show if no activity for >60s */}
@@ -278,11 +370,29 @@ export const Dashboard = React.memo(({
         <NotificationStatus topic={ntfyTopic} enabled={!!ntfyTopic} />
       </Box>
 
+      {/* Run controls - pending pause/model/skips and the last key's reply */}
+      {control && (
+        <Box flexDirection="column">
+          {(control.paused || control.model || control.skippedStories.length > 0) && (
+            <Text color="yellow">
+              {[
+                control.paused ? (ralphStatus?.state === 'paused' ? '⏸  Paused' : '⏸  Pausing after this iteration') : null,
+                control.model ? `next model: ${control.model}` : null,
+                control.skippedStories.length > 0 ? `skipping ${control.skippedStories.join(', ')}` : null,
+              ].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          {controlReply && <Text dimColor>→ {controlReply}</Text>}
+        </Box>
+      )}
+
       {/* Footer - show quit hint in live and iteration modes */}
       <Box marginTop={1}>
         <Text dimColor>
           {(isLiveMode || isIterationMode)
-            ? (isRawModeSupported ? "'q' quit • 'c' config" : 'Ctrl+C to quit (no raw mode)')
+            ? (isRawModeSupported
+              ? `'q' ${onBack ? 'back' : 'quit'} • 'c' config • 'b' stories${control ? ` • 'p' ${control.paused ? 'resume' : 'pause'} • 's' skip • 'm' model` : ''} • '?' help`
+              : 'Ctrl+C to quit (no raw mode)')
             : `Mode: ${mode}`} • Terminal width: {terminalWidth}
         </Text>
       </Box>
@@ -0,0 +1,153 @@
+/**
+ * FleetView - Every live Ralph instance on this machine, one row each
+ * Used by `ralph-fleet`; Enter opens the selected instance's dashboard
+ *
+ * Keys (raw mode only): ↑/↓ select, Enter drill in, q quit (q/Esc in a dashboard goes back)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Box, Text, useApp, useInput, useStdin } from 'ink';
+import { Dashboard } from './Dashboard.js';
+import { useFleet } from '../hooks/useFleet.js';
+import type { RalphStatus } from '../types.js';
+
+// AIDEV-NOTE: Rows come from /tmp/ralph-status-<pid>.json (see useFleet/listInstances).
+// A drilled-into instance is kept by value, so its dashboard stays up (showing no
+// status) if the process exits while you're looking at it.
+
+export interface FleetViewProps {
+  defaultPrdPath: string; // For instances whose status file predates prdJsonDir
+}
+
+const STATE_COLORS: Record<RalphStatus['state'], string> = {
+  running: 'green',
+  cr_review: 'cyan',
+  retry: 'yellow',
+  error: 'red',
+  complete: 'blue',
+  interrupted: 'gray',
+  terminated: 'gray',
+  budget_exceeded: 'red',
+  paused: 'yellow',
+};
+
+export function formatActivityAgo(lastActivity: number, now: number): string {
+  const seconds = Math.max(0, now - lastActivity);
+  if (seconds < 5) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+}
+
+function FleetKeys({
+  onMove,
+  onSelect,
+  onExit,
+}: {
+  onMove: (delta: number) => void;
+  onSelect: () => void;
+  onExit: () => void;
+}) {
+  useInput((input, key) => {
+    if (input === 'q' || key.escape) {
+      onExit();
+    } else if (key.upArrow || input === 'k') {
+      onMove(-1);
+    } else if (key.downArrow || input === 'j') {
+      onMove(1);
+    } else if (key.return) {
+      onSelect();
+    }
+  });
+
+  return null;
+}
+
+function Cell({ width, children, color }: { width: number; children: React.ReactNode; color?: string }) {
+  return (
+    <Box width={width} marginRight={1}>
+      <Text color={color} wrap="truncate">{children}</Text>
+    </Box>
+  );
+}
+
+export function FleetView({ defaultPrdPath }: FleetViewProps) {
+  const { exit } = useApp();
+  const { isRawModeSupported } = useStdin();
+  const instances = useFleet();
+  const [selected, setSelected] = useState(0);
+  const [drilled, setDrilled] = useState<RalphStatus | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keep the selection on the list as instances come and go
+  const index = Math.min(selected, Math.max(0, instances.length - 1));
+
+  if (drilled) {
+    return (
+      <Dashboard
+        mode="live"
+        prdPath={drilled.prdJsonDir ?? defaultPrdPath}
+        model={drilled.model}
+        pid={drilled.pid}
+        onBack={() => setDrilled(null)}
+      />
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {isRawModeSupported && (
+        <FleetKeys
+          onMove={(delta) => setSelected(Math.min(instances.length - 1, Math.max(0, index + delta)))}
+          onSelect={() => instances[index] && setDrilled(instances[index])}
+          onExit={exit}
+        />
+      )}
+      <Box marginBottom={1}>
+        <Text bold color="blue">🐺 RALPH fleet - {instances.length} live instance{instances.length === 1 ? '' : 's'}</Text>
+      </Box>
+
+      {instances.length === 0 ? (
+        <Text dimColor>No Ralph instances running</Text>
+      ) : (
+        <Box flexDirection="column">
+          <Box>
+            <Text> </Text>
+            <Cell width={8}><Text bold>PID</Text></Cell>
+            <Cell width={20}><Text bold>PROJECT</Text></Cell>
+            <Cell width={12}><Text bold>STORY</Text></Cell>
+            <Cell width={10}><Text bold>MODEL</Text></Cell>
+            <Cell width={16}><Text bold>STATE</Text></Cell>
+            <Cell width={10}><Text bold>ACTIVITY</Text></Cell>
+            <Cell width={8}><Text bold>COST</Text></Cell>
+          </Box>
+          {instances.map((instance, i) => (
+            <Box key={instance.pid}>
+              <Text color="cyan">{i === index && isRawModeSupported ? '›' : ' '}</Text>
+              <Cell width={8}>{instance.pid}</Cell>
+              <Cell width={20}>{instance.project ?? '-'}</Cell>
+              <Cell width={12}>{instance.storyId || '-'}</Cell>
+              <Cell width={10}>{instance.model ?? '-'}</Cell>
+              <Cell width={16} color={STATE_COLORS[instance.state]}>
+                {instance.state}{instance.state === 'running' ? ` #${instance.iteration}` : ''}
+              </Cell>
+              <Cell width={10}>{formatActivityAgo(instance.lastActivity, now)}</Cell>
+              <Cell width={8}>{instance.cost !== undefined ? `$${instance.cost.toFixed(2)}` : '-'}</Cell>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          {isRawModeSupported ? '↑/↓ select • enter open • q quit' : 'Ctrl+C to quit (no raw mode)'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+
+interface KeyboardHelpProps {
+  runControls: boolean; // --run mode: the loop takes pause/skip/retry/model/verbose keys
+}
+
+const GENERAL_KEYS: [string, string][] = [
+  ['q / Esc', 'Quit (back, in the fleet view)'],
+  ['c', 'Config menu'],
+  ['b', 'Story browser (filters, attempt history, queued edits)'],
+  ['?', 'Toggle this help'],
+];
+
+const RUN_KEYS: [string, string][] = [
+  ['p', 'Pause after the current iteration / resume'],
+  ['s', 'Skip the current story for the rest of the run'],
+  ['r', 'Retry now (during a retry countdown)'],
+  ['m', 'Model for the next iteration: auto → haiku → sonnet → opus'],
+  ['v', 'Toggle verbose logging'],
+];
+
+/**
+ * Overlay listing the dashboard's key bindings ('?' to open, '?' or Esc to close).
+ */
+export function KeyboardHelp({ runControls }: KeyboardHelpProps) {
+  const keys = runControls ? [...RUN_KEYS, ...GENERAL_KEYS] : GENERAL_KEYS;
+
+  return (
+    <Box borderStyle="round" borderColor="cyan" paddingX={1} flexDirection="column" marginBottom={1}>
+      <Text bold color="cyan">⌨  Keys</Text>
+      {keys.map(([key, description]) => (
+        <Box key={key}>
+          <Box width={10}>
+            <Text bold>{key}</Text>
+          </Box>
+          <Text>{description}</Text>
+        </Box>
+      ))}
+      {runControls && (
+        <Text dimColor>Keys act between iterations - a running iteration is never interrupted.</Text>
+      )}
+    </Box>
+  );
+}
@@ -1,5 +1,5 @@
 /**
- * OutputDisplay - Live output display using Ink's Static component
+ * OutputDisplay - Scrolling output window (last N lines)
  * Part of MP-007: Implement node-pty runner for ralph-ui
  *
  * Displays scrolling output from PTY with:
@@ -9,11 +9,12 @@
  */
 
 import React, { memo, useMemo } from "react";
-import { Box, Text, Static } from "ink";
+import { Box, Text } from "ink";
 
-// AIDEV-NOTE: This component uses Ink's <Static> for scrolling output.
-// Static renders items once and doesn't re-render them, perfect for logs.
-// New lines are appended at the bottom.
+// AIDEV-NOTE: This used to render through Ink's <Static>, but Static only works at
+// the root: nested in this bordered box it dropped lines (found replaying runs with
+// `ralph runs replay`). The window is at most maxDisplayLines, so a plain re-render
+// is cheap. New lines are appended at the bottom.
 
 export interface OutputLine {
   id: string;
@@ -88,16 +89,14 @@ export const OutputDisplay = memo(function OutputDisplay({
           </Text>
         </Box>
       )}
-      <Static items={displayLines.map((line, i) => ({ key: `${lineOffset + i}`, line }))}>
-        {({ key, line }) => (
-          <OutputLineItem
-            key={key}
-            line={line}
-            index={lineOffset + displayLines.indexOf(line)}
-            showLineNumbers={showLineNumbers}
-          />
-        )}
-      </Static>
+      {displayLines.map((line, i) => (
+        <OutputLineItem
+          key={lineOffset + i}
+          line={line}
+          index={lineOffset + i}
+          showLineNumbers={showLineNumbers}
+        />
+      ))}
       {lines.length > maxDisplayLines && (
         <Box marginTop={1}>
           <Text dimColor>
@@ -4,13 +4,14 @@ import { Box, Text } from 'ink';
 interface RetryCountdownProps {
   retryIn: number; // Initial seconds until retry
   isRetrying: boolean;
+  canRetryNow?: boolean; // Runner dashboard: 'r' ends the countdown
 }
 
 /**
  * Shows countdown timer when Ralph is waiting to retry after an error.
  * MP-131: Optimized with memoization to reduce re-render overhead.
  */
-export const RetryCountdown = React.memo(({ retryIn, isRetrying }: RetryCountdownProps) => {
+export const RetryCountdown = React.memo(({ retryIn, isRetrying, canRetryNow = false }: RetryCountdownProps) => {
   const [secondsLeft, setSecondsLeft] = useState(retryIn);
 
   // Reset countdown when retryIn changes
@@ -61,6 +62,7 @@ export const RetryCountdown = React.memo(({ retryIn, isRetrying }: RetryCountdow
         <Text color="yellowBright">
           in {secondsLeft}s
         </Text>
+        {canRetryNow && <Text dimColor>('r' to retry now)</Text>}
       </Box>
       <Text color="yellow">
         [{progressBar}]
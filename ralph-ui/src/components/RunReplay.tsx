@@ -0,0 +1,106 @@
+/**
+ * RunReplay - Play an archived transcript back through OutputDisplay
+ * Used by `ralph runs replay`
+ *
+ * Keys (raw mode only): space pause/resume, +/- speed, e jump to end, q quit
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Text, useApp, useInput, useStdin } from "ink";
+import { OutputDisplay } from "./OutputDisplay.js";
+
+// AIDEV-NOTE: Transcripts carry no timing, so replay runs at a fixed line rate
+// (REPLAY_LINES_PER_SECOND × speed). Without raw mode there are no keys, so the
+// replay exits by itself once every line is shown.
+
+export const REPLAY_LINES_PER_SECOND = 20;
+const TICK_MS = 100;
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 64;
+
+export interface RunReplayProps {
+  title: string;
+  lines: string[];
+  speed?: number; // Multiplier on REPLAY_LINES_PER_SECOND (default: 1)
+  maxDisplayLines?: number;
+}
+
+function ReplayKeys({
+  onTogglePause,
+  onSpeed,
+  onEnd,
+  onExit,
+}: {
+  onTogglePause: () => void;
+  onSpeed: (factor: number) => void;
+  onEnd: () => void;
+  onExit: () => void;
+}) {
+  useInput((input, key) => {
+    if (input === "q" || key.escape) {
+      onExit();
+    } else if (input === " ") {
+      onTogglePause();
+    } else if (input === "+" || input === "=") {
+      onSpeed(2);
+    } else if (input === "-") {
+      onSpeed(0.5);
+    } else if (input === "e") {
+      onEnd();
+    }
+  });
+
+  return null;
+}
+
+export function RunReplay({ title, lines, speed: initialSpeed = 1, maxDisplayLines = 30 }: RunReplayProps) {
+  const { exit } = useApp();
+  const { isRawModeSupported } = useStdin();
+  const [shown, setShown] = useState(0);
+  const [speed, setSpeed] = useState(initialSpeed);
+  const [paused, setPaused] = useState(false);
+  const position = useRef(0); // Fractional line position between ticks
+  const done = shown >= lines.length;
+
+  useEffect(() => {
+    if (paused || done) return;
+
+    const timer = setInterval(() => {
+      position.current = Math.min(lines.length, position.current + (REPLAY_LINES_PER_SECOND * speed * TICK_MS) / 1000);
+      setShown(Math.floor(position.current));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [paused, done, speed, lines.length]);
+
+  useEffect(() => {
+    if (!done || isRawModeSupported) return;
+    // Give the last lines a frame to render before unmounting
+    const timer = setTimeout(exit, TICK_MS);
+    return () => clearTimeout(timer);
+  }, [done, isRawModeSupported, exit]);
+
+  const jumpToEnd = () => {
+    position.current = lines.length;
+    setShown(lines.length);
+  };
+
+  return (
+    <Box flexDirection="column">
+      {isRawModeSupported && (
+        <ReplayKeys
+          onTogglePause={() => setPaused((value) => !value)}
+          onSpeed={(factor) => setSpeed((value) => Math.min(MAX_SPEED, Math.max(MIN_SPEED, value * factor)))}
+          onEnd={jumpToEnd}
+          onExit={exit}
+        />
+      )}
+      <OutputDisplay lines={lines.slice(0, shown)} maxDisplayLines={maxDisplayLines} title={title} />
+      <Box>
+        <Text dimColor>
+          {shown}/{lines.length} lines • {speed}× {done ? "• finished" : paused ? "• paused" : ""}
+          {isRawModeSupported ? "  space pause • +/- speed • e end • q quit" : ""}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -1,10 +1,10 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { ProgressBar } from './ProgressBar.js';
-import type { StoryData } from '../types.js';
+import type { Story } from '../types.js';
 
 interface StoryBoxProps {
-  story: StoryData | null;
+  story: Story | null;
 }
 
 export function StoryBox({ story }: StoryBoxProps) {
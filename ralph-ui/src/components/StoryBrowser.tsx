@@ -0,0 +1,403 @@
+/**
+ * StoryBrowser - Every story in storyOrder with status, type, priority and criteria progress
+ * Used by `ralph-stories` (--stories) and the dashboard's 'b' key; Enter opens a story
+ *
+ * Keys (raw mode only): ↑/↓ select, Enter open, f status filter, t type filter,
+ * [/] move, n mark next, B block, u unblock, Tab/space criteria (open story),
+ * q/Esc back (quit when standalone)
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Box, Text, useApp, useInput, useStdin, useStdout } from 'ink';
+import {
+  listStoryRows,
+  filterStoryRows,
+  listStoryTypes,
+  storyEditUpdate,
+  STORY_STATUSES,
+  type StoryEdit,
+  type StoryRow,
+  type StoryRowStatus,
+} from '../runner/story-list.js';
+import { previewUpdateQueue, queueUpdate } from '../runner/prd.js';
+import { listStoryAttempts, formatStoryAttempt } from '../runner/runs.js';
+import { describeFailedAttempts } from '../runner/escalation.js';
+
+// AIDEV-NOTE: Rows are re-read every REFRESH_MS so a running loop's progress shows up.
+// Attempt history comes from the run archive (runs/<timestamp>/), matched on prdJsonDir,
+// and is only read when a story is opened - listing every run is not free.
+// Edits never touch the PRD directly: they go to update.json, which the runner applies
+// between iterations, and the rows show the PRD as that queue will leave it.
+
+const REFRESH_MS = 2000;
+const MAX_ATTEMPTS_SHOWN = 10;
+
+const STATUS_COLORS: Record<StoryRowStatus, string> = {
+  completed: 'green',
+  blocked: 'red',
+  pending: 'yellow',
+};
+
+interface BrowserMessage {
+  text: string;
+  error?: boolean;
+}
+
+// Rows with the queued update.json applied, and how many changes are queued
+function loadRows(prdPath: string): { rows: StoryRow[]; queued: number } {
+  const preview = previewUpdateQueue(prdPath);
+  return { rows: listStoryRows(prdPath, preview), queued: preview?.changes.length ?? 0 };
+}
+
+function describeEdit(row: StoryRow, edit: StoryEdit): string {
+  switch (edit.type) {
+    case 'toggle-criterion':
+      return `criterion ${edit.criterion + 1} of ${row.id}`;
+    case 'block':
+      return `block ${row.id}`;
+    case 'unblock':
+      return `unblock ${row.id}`;
+    case 'move':
+      return `move ${row.id} ${edit.offset < 0 ? 'up' : 'down'}`;
+    case 'pin':
+      return row.pinned ? `unmark ${row.id} as next` : `${row.id} next`;
+  }
+}
+
+export interface StoryBrowserProps {
+  prdPath: string;
+  onBack?: () => void; // q/Esc returns here instead of exiting (dashboard)
+}
+
+// Step through [undefined, ...values]: undefined means no filter
+function cycle<T>(values: T[], current: T | undefined): T | undefined {
+  const next = current === undefined ? 0 : values.indexOf(current) + 1;
+  return next < values.length ? values[next] : undefined;
+}
+
+function BrowserKeys({
+  open,
+  reason,
+  onMove,
+  onOpen,
+  onClose,
+  onStatusFilter,
+  onTypeFilter,
+  onEdit,
+  onCriterion,
+  onToggleCriterion,
+  onReason,
+  onReasonDone,
+}: {
+  open: boolean;
+  reason: string | null; // Block reason being typed
+  onMove: (delta: number) => void;
+  onOpen: () => void;
+  onClose: () => void;
+  onStatusFilter: () => void;
+  onTypeFilter: () => void;
+  onEdit: (edit: StoryEdit) => void;
+  onCriterion: (delta: number) => void;
+  onToggleCriterion: () => void;
+  onReason: (reason: string) => void;
+  onReasonDone: (submit: boolean) => void;
+}) {
+  useInput((input, key) => {
+    if (reason !== null) {
+      if (key.return) {
+        onReasonDone(true);
+      } else if (key.escape) {
+        onReasonDone(false);
+      } else if (key.backspace || key.delete) {
+        onReason(reason.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        onReason(reason + input);
+      }
+      return;
+    }
+
+    if (input === 'q' || key.escape || key.leftArrow) {
+      onClose();
+    } else if (key.upArrow || input === 'k') {
+      onMove(-1);
+    } else if (key.downArrow || input === 'j') {
+      onMove(1);
+    } else if (key.return || key.rightArrow) {
+      onOpen();
+    } else if (input === 'f') {
+      onStatusFilter();
+    } else if (input === 't') {
+      onTypeFilter();
+    } else if (input === '[' || input === ']') {
+      onEdit({ type: 'move', offset: input === '[' ? -1 : 1 });
+    } else if (input === 'n') {
+      onEdit({ type: 'pin' });
+    } else if (input === 'u') {
+      onEdit({ type: 'unblock' });
+    } else if (input === 'B') {
+      onReason('');
+    } else if (open && key.tab) {
+      onCriterion(key.shift ? -1 : 1);
+    } else if (open && input === ' ') {
+      onToggleCriterion();
+    }
+  });
+
+  return null;
+}
+
+function Cell({ width, children, color }: { width: number; children: React.ReactNode; color?: string }) {
+  return (
+    <Box width={width} marginRight={1}>
+      <Text color={color} wrap="truncate">{children}</Text>
+    </Box>
+  );
+}
+
+function StoryDetail({
+  row,
+  rows,
+  prdPath,
+  criterion,
+}: {
+  row: StoryRow;
+  rows: StoryRow[];
+  prdPath: string;
+  criterion: number | null; // Selected criterion (raw mode)
+}) {
+  const attempts = useMemo(() => listStoryAttempts(prdPath, row.id), [prdPath, row.id]);
+  const story = row.story;
+  const statusOf = (id: string) => rows.find((other) => other.id === id)?.status;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold>
+        <Text color="cyan">{row.id}</Text> {row.title}
+      </Text>
+      <Text>
+        <Text color={STATUS_COLORS[row.status]}>{row.status}</Text>
+        {row.next ? ' (next)' : ''}
+        {row.pinned ? ' (marked next)' : ''} • {row.type}
+        {row.priority ? ` • ${row.priority}` : ''}
+        {story?.storyPoints !== undefined ? ` • ${story.storyPoints} pts` : ''}
+        {story?.model ? ` • model ${story.model}` : ''}
+      </Text>
+
+      {!!story?.description && (
+        <Box marginTop={1}>
+          <Text>{story.description}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1} flexDirection="column">
+        <Text bold>Acceptance criteria ({row.criteriaDone}/{row.criteriaTotal})</Text>
+        {(story?.acceptanceCriteria ?? []).map((item, i) => (
+          <Text key={i} color={item.checked ? 'green' : undefined}>
+            <Text color="cyan">{i === criterion ? '›' : ' '}</Text>
+            {item.checked ? ' [x] ' : ' [ ] '}{item.text}
+          </Text>
+        ))}
+      </Box>
+
+      {Boolean(story?.dependencies?.length || story?.blockedBy || story?.completedBy || story?.commitHash) && (
+        <Box marginTop={1} flexDirection="column">
+          {story?.dependencies && story.dependencies.length > 0 && (
+            <Text>
+              Depends on: {story.dependencies.map((id) => `${id} (${statusOf(id) ?? 'not in storyOrder'})`).join(', ')}
+            </Text>
+          )}
+          {!!story?.blockedBy && <Text color="red">Blocked by: {story.blockedBy}</Text>}
+          {!!story?.blockedReason && (
+            <Text color="red">
+              {'  '}{describeFailedAttempts(story.blockedReason.attempts, story.blockedReason.lastModel, story.blockedReason.lastVerdict)}
+            </Text>
+          )}
+          {!!story?.completedBy && (
+            <Text>Completed by: {story.completedBy}{story.completedAt ? ` at ${new Date(story.completedAt).toLocaleString()}` : ''}</Text>
+          )}
+          {!!story?.commitHash && <Text>Commit: {story.commitHash}</Text>}
+        </Box>
+      )}
+
+      {!!story?.notes && (
+        <Box marginTop={1}>
+          <Text dimColor>Notes: {story.notes}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1} flexDirection="column">
+        <Text bold>Attempts ({attempts.length})</Text>
+        {attempts.length === 0 ? (
+          <Text dimColor>  None in the run archive</Text>
+        ) : (
+          attempts.slice(-MAX_ATTEMPTS_SHOWN).map((attempt) => (
+            <Text key={`${attempt.run}-${attempt.record.iteration}-${attempt.record.attempt}`} wrap="truncate">
+              {'  '}{formatStoryAttempt(attempt)}
+            </Text>
+          ))
+        )}
+        {attempts.length > MAX_ATTEMPTS_SHOWN && <Text dimColor>  ... {attempts.length - MAX_ATTEMPTS_SHOWN} earlier</Text>}
+      </Box>
+    </Box>
+  );
+}
+
+export function StoryBrowser({ prdPath, onBack }: StoryBrowserProps) {
+  const { exit } = useApp();
+  const { isRawModeSupported } = useStdin();
+  const { stdout } = useStdout();
+  const [{ rows, queued }, setLoaded] = useState(() => loadRows(prdPath));
+  const [selected, setSelected] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StoryRowStatus | undefined>();
+  const [typeFilter, setTypeFilter] = useState<string | undefined>();
+  const [criterion, setCriterion] = useState(0);
+  const [reason, setReason] = useState<string | null>(null);
+  const [message, setMessage] = useState<BrowserMessage | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setLoaded(loadRows(prdPath)), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [prdPath]);
+
+  const types = useMemo(() => listStoryTypes(rows), [rows]);
+  const shown = useMemo(
+    () => filterStoryRows(rows, { status: statusFilter, type: typeFilter }),
+    [rows, statusFilter, typeFilter]
+  );
+
+  // Keep the selection on the list as filters change; scroll to keep it visible
+  const index = Math.min(selected, Math.max(0, shown.length - 1));
+  const visible = Math.max(5, (stdout?.rows ?? 24) - 8);
+  const first = Math.min(Math.max(0, index - Math.floor(visible / 2)), Math.max(0, shown.length - visible));
+
+  const current = shown[index];
+  const criteriaCount = current?.story?.acceptanceCriteria.length ?? 0;
+  const selectStory = (position: number) => {
+    setSelected(position);
+    setCriterion(0);
+  };
+
+  // Queue the edit, then follow the story to wherever the queue puts it
+  const edit = (change: StoryEdit) => {
+    if (!current) return;
+    try {
+      queueUpdate(prdPath, storyEditUpdate(current, change));
+      const loaded = loadRows(prdPath);
+      setLoaded(loaded);
+      const position = filterStoryRows(loaded.rows, { status: statusFilter, type: typeFilter }).findIndex(
+        (row) => row.id === current.id
+      );
+      if (position !== -1) setSelected(position);
+      setMessage({ text: `Queued ${describeEdit(current, change)} - applied before the next iteration` });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+    }
+  };
+
+  const close = () => {
+    if (open) setOpen(false);
+    else if (onBack) onBack();
+    else exit();
+  };
+
+  const filterLabel = [statusFilter, typeFilter].filter(Boolean).join(', ') || 'all';
+
+  return (
+    <Box flexDirection="column">
+      {isRawModeSupported && (
+        <BrowserKeys
+          open={open && !!current}
+          reason={reason}
+          onMove={(delta) => selectStory(Math.min(shown.length - 1, Math.max(0, index + delta)))}
+          onOpen={() => current && setOpen(true)}
+          onClose={close}
+          onStatusFilter={() => {
+            setStatusFilter(cycle(STORY_STATUSES, statusFilter));
+            setSelected(0);
+          }}
+          onTypeFilter={() => {
+            setTypeFilter(cycle(types, typeFilter));
+            setSelected(0);
+          }}
+          onEdit={edit}
+          onCriterion={(delta) => criteriaCount > 0 && setCriterion((criterion + delta + criteriaCount) % criteriaCount)}
+          onToggleCriterion={() => criteriaCount > 0 && edit({ type: 'toggle-criterion', criterion: Math.min(criterion, criteriaCount - 1) })}
+          onReason={(value) => {
+            setReason(value);
+            setMessage(null);
+          }}
+          onReasonDone={(submit) => {
+            if (submit && reason !== null) edit({ type: 'block', reason });
+            setReason(null);
+          }}
+        />
+      )}
+      <Box marginBottom={1}>
+        <Text bold color="blue">
+          📚 Stories - {shown.length} of {rows.length} ({filterLabel})
+        </Text>
+        {queued > 0 && <Text color="yellow"> • {queued} change(s) queued in update.json</Text>}
+      </Box>
+
+      {open && current ? (
+        <StoryDetail
+          row={current}
+          rows={rows}
+          prdPath={prdPath}
+          criterion={isRawModeSupported && criteriaCount > 0 ? Math.min(criterion, criteriaCount - 1) : null}
+        />
+      ) : shown.length === 0 ? (
+        <Text dimColor>{rows.length === 0 ? `No stories in ${prdPath}` : 'No stories match the filter'}</Text>
+      ) : (
+        <Box flexDirection="column">
+          <Box>
+            <Text> </Text>
+            <Cell width={12}><Text bold>ID</Text></Cell>
+            <Cell width={10}><Text bold>STATUS</Text></Cell>
+            <Cell width={6}><Text bold>TYPE</Text></Cell>
+            <Cell width={9}><Text bold>PRIORITY</Text></Cell>
+            <Cell width={9}><Text bold>CRITERIA</Text></Cell>
+            <Text bold>TITLE</Text>
+          </Box>
+          {shown.slice(first, first + visible).map((row, i) => (
+            <Box key={row.id}>
+              <Text color="cyan">{first + i === index && isRawModeSupported ? '›' : ' '}</Text>
+              <Cell width={12}>{row.next ? `▶ ${row.id}` : row.pinned ? `📌 ${row.id}` : row.id}</Cell>
+              <Cell width={10} color={STATUS_COLORS[row.status]}>{row.status}</Cell>
+              <Cell width={6}>{row.type}</Cell>
+              <Cell width={9}>{row.priority ?? '-'}</Cell>
+              <Cell width={9}>{row.criteriaDone}/{row.criteriaTotal}</Cell>
+              <Text wrap="truncate">{row.title}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {reason !== null && current && (
+        <Box marginTop={1}>
+          <Text>
+            Block {current.id} because: <Text color="cyan">{reason}</Text>
+            <Text inverse> </Text>
+            <Text dimColor> (enter to queue, esc to cancel)</Text>
+          </Text>
+        </Box>
+      )}
+      {message && reason === null && (
+        <Box marginTop={1}>
+          <Text color={message.error ? 'red' : 'green'}>{message.text}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          {!isRawModeSupported
+            ? 'Ctrl+C to quit (no raw mode)'
+            : open
+              ? '↑/↓ story • tab/space criterion • [/] move • n next • B block • u unblock • q/← back'
+              : `↑/↓ select • enter open • f status • t type • [/] move • n next • B block • u unblock • q ${onBack ? 'back' : 'quit'}`}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
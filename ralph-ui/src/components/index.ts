@@ -5,3 +5,5 @@ export { PRDStatus } from './PRDStatus.js';
 export { ProgressBar } from './ProgressBar.js';
 export { StoryBox } from './StoryBox.js';
 export { ConfigMenu } from './ConfigMenu.js';
+export { FleetView } from './FleetView.js';
+export { StoryBrowser } from './StoryBrowser.js';
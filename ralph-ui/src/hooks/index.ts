@@ -1,2 +1,3 @@
 export { useFileWatch } from './useFileWatch.js';
 export { usePRDStats, createStatsLoader } from './usePRDStats.js';
+export { useFleet } from './useFleet.js';
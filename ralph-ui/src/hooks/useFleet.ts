@@ -0,0 +1,42 @@
+import { useState, useEffect, useRef } from 'react';
+import { listInstances } from '../runner/status.js';
+import type { RalphStatus } from '../types.js';
+
+interface UseFleetOptions {
+  enabled?: boolean;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Hook to list every live Ralph instance (one /tmp/ralph-status-<pid>.json each).
+ * Status files left behind by dead processes are deleted as they are found.
+ */
+export function useFleet({
+  enabled = true,
+  pollIntervalMs = 1000,
+}: UseFleetOptions = {}): RalphStatus[] {
+  const [instances, setInstances] = useState<RalphStatus[]>(() => (enabled ? listInstances() : []));
+  const lastJsonRef = useRef<string>('');
+
+  useEffect(() => {
+    if (!enabled) {
+      setInstances([]);
+      return;
+    }
+
+    const load = () => {
+      const next = listInstances();
+      // Compare by content to avoid unnecessary renders
+      const json = JSON.stringify(next);
+      if (json === lastJsonRef.current) return;
+      lastJsonRef.current = json;
+      setInstances(next);
+    };
+
+    load();
+    const interval = setInterval(load, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [enabled, pollIntervalMs]);
+
+  return instances;
+}
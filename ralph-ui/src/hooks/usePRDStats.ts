@@ -1,78 +1,95 @@
 import { useState, useEffect, useCallback } from 'react';
-import { readFileSync, existsSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
-import type { PRDIndex, StoryData, PRDStats } from '../types.js';
+import type { Story } from '../runner/types.js';
+import { readIndex, readStory, computeIndexStats, listFailedUpdateQueues } from '../runner/prd.js';
+import { readValidatedJson, SchemaValidationError } from '../runner/schema.js';
+import type { PRDStats } from '../types.js';
+
+// AIDEV-NOTE: Reads go through runner/prd.ts so the dashboard and the runner agree on
+// what index.json means (e.g. how stats are derived when the cached block is missing).
+// Files that fail schema validation are skipped and reported in stats.error, which the
+// dashboard shows in its ErrorBanner.
+
+const EMPTY_STATS: PRDStats = {
+  totalStories: 0,
+  completedStories: 0,
+  pendingStories: 0,
+  blockedStories: 0,
+  totalCriteria: 0,
+  checkedCriteria: 0,
+  currentStory: null,
+  nextStoryId: '',
+};
+
+// Run a read, recording a schema problem instead of throwing
+function readChecked<T>(read: () => T, errors: string[]): T | null {
+  try {
+    return read();
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) throw error;
+    if (!errors.includes(error.message)) errors.push(error.message);
+    return null;
+  }
+}
+
+function readPRDStats(prdPath: string): PRDStats | null {
+  const errors: string[] = [];
+  const index = readChecked(() => readIndex(prdPath), errors);
+  if (!index) {
+    return errors.length > 0 ? { ...EMPTY_STATS, error: errors[0] } : null;
+  }
+
+  // Load current story
+  const currentStory: Story | null = index.nextStory
+    ? readChecked(() => readStory(prdPath, index.nextStory!), errors)
+    : null;
+
+  // Calculate criteria counts from all stories in storyOrder
+  let totalCriteria = 0;
+  let checkedCriteria = 0;
+  for (const storyId of index.storyOrder) {
+    const story = readChecked(() => readStory(prdPath, storyId), errors);
+    if (story?.acceptanceCriteria) {
+      totalCriteria += story.acceptanceCriteria.length;
+      checkedCriteria += story.acceptanceCriteria.filter(c => c.checked).length;
+    }
+  }
+
+  // update.json waiting for the runner, and rejected queues kept for someone to fix
+  const updatePath = join(prdPath, 'update.json');
+  if (existsSync(updatePath)) {
+    readChecked(() => readValidatedJson(updatePath, 'update'), errors);
+  }
+  for (const file of listFailedUpdateQueues(prdPath)) {
+    errors.push(`${join(prdPath, file)}: rejected update queue - fix it and rename it to update.json, or delete it`);
+  }
+
+  // Prefer the cached stats block, falling back to counts from the arrays
+  const counts = index.stats ?? computeIndexStats(index);
+
+  return {
+    totalStories: counts.total,
+    completedStories: counts.completed,
+    pendingStories: counts.pending,
+    blockedStories: counts.blocked,
+    totalCriteria,
+    checkedCriteria,
+    currentStory,
+    nextStoryId: index.nextStory ?? '',
+    ...(errors.length > 0 && { error: errors.join('; ') }),
+  };
+}
 
 export function usePRDStats(prdPath: string): PRDStats {
-  const [stats, setStats] = useState<PRDStats>({
-    totalStories: 0,
-    completedStories: 0,
-    pendingStories: 0,
-    blockedStories: 0,
-    totalCriteria: 0,
-    checkedCriteria: 0,
-    currentStory: null,
-    nextStoryId: '',
-  });
+  const [stats, setStats] = useState<PRDStats>(EMPTY_STATS);
 
   const loadStats = useCallback(() => {
     try {
-      const indexPath = join(prdPath, 'index.json');
-      if (!existsSync(indexPath)) {
-        return;
+      const next = readPRDStats(prdPath);
+      if (next) {
+        setStats(next);
       }
-
-      const indexContent = readFileSync(indexPath, 'utf-8');
-      const index: PRDIndex = JSON.parse(indexContent);
-
-      let totalCriteria = 0;
-      let checkedCriteria = 0;
-      let currentStory: StoryData | null = null;
-
-      // Load current story
-      if (index.nextStory) {
-        const storyPath = join(prdPath, 'stories', `${index.nextStory}.json`);
-        if (existsSync(storyPath)) {
-          const storyContent = readFileSync(storyPath, 'utf-8');
-          currentStory = JSON.parse(storyContent);
-        }
-      }
-
-      // Calculate criteria counts from all stories in storyOrder
-      const storiesDir = join(prdPath, 'stories');
-      for (const storyId of index.storyOrder) {
-        const storyPath = join(storiesDir, `${storyId}.json`);
-        if (existsSync(storyPath)) {
-          try {
-            const storyContent = readFileSync(storyPath, 'utf-8');
-            const story: StoryData = JSON.parse(storyContent);
-            if (story.acceptanceCriteria) {
-              totalCriteria += story.acceptanceCriteria.length;
-              checkedCriteria += story.acceptanceCriteria.filter(c => c.checked).length;
-            }
-          } catch {
-            // Skip invalid story files
-          }
-        }
-      }
-
-      // Compute stats from arrays if stats object is missing
-      const pendingCount = index.pending?.length ?? 0;
-      const blockedCount = index.blocked?.length ?? 0;
-      const totalCount = index.storyOrder?.length ?? 0;
-      // Guard against negative value if data is inconsistent
-      const completedCount = Math.max(0, totalCount - pendingCount - blockedCount);
-
-      setStats({
-        totalStories: index.stats?.total ?? totalCount,
-        completedStories: index.stats?.completed ?? completedCount,
-        pendingStories: index.stats?.pending ?? pendingCount,
-        blockedStories: index.stats?.blocked ?? blockedCount,
-        totalCriteria,
-        checkedCriteria,
-        currentStory,
-        nextStoryId: index.nextStory,
-      });
     } catch (error) {
       // Keep existing stats on error
     }
@@ -87,60 +104,5 @@ export function usePRDStats(prdPath: string): PRDStats {
 
 // Export reload function for external use
 export function createStatsLoader(prdPath: string) {
-  return () => {
-    const indexPath = join(prdPath, 'index.json');
-    if (!existsSync(indexPath)) {
-      return null;
-    }
-
-    const indexContent = readFileSync(indexPath, 'utf-8');
-    const index: PRDIndex = JSON.parse(indexContent);
-
-    let totalCriteria = 0;
-    let checkedCriteria = 0;
-    let currentStory: StoryData | null = null;
-
-    if (index.nextStory) {
-      const storyPath = join(prdPath, 'stories', `${index.nextStory}.json`);
-      if (existsSync(storyPath)) {
-        const storyContent = readFileSync(storyPath, 'utf-8');
-        currentStory = JSON.parse(storyContent);
-      }
-    }
-
-    const storiesDir = join(prdPath, 'stories');
-    for (const storyId of index.storyOrder) {
-      const storyPath = join(storiesDir, `${storyId}.json`);
-      if (existsSync(storyPath)) {
-        try {
-          const storyContent = readFileSync(storyPath, 'utf-8');
-          const story: StoryData = JSON.parse(storyContent);
-          if (story.acceptanceCriteria) {
-            totalCriteria += story.acceptanceCriteria.length;
-            checkedCriteria += story.acceptanceCriteria.filter(c => c.checked).length;
-          }
-        } catch {
-          // Skip invalid story files
-        }
-      }
-    }
-
-    // Compute stats from arrays if stats object is missing
-    const pendingCount = index.pending?.length ?? 0;
-    const blockedCount = index.blocked?.length ?? 0;
-    const totalCount = index.storyOrder?.length ?? 0;
-    // Guard against negative value if data is inconsistent
-    const completedCount = Math.max(0, totalCount - pendingCount - blockedCount);
-
-    return {
-      totalStories: index.stats?.total ?? totalCount,
-      completedStories: index.stats?.completed ?? completedCount,
-      pendingStories: index.stats?.pending ?? pendingCount,
-      blockedStories: index.stats?.blocked ?? blockedCount,
-      totalCriteria,
-      checkedCriteria,
-      currentStory,
-      nextStoryId: index.nextStory,
-    };
-  };
+  return () => readPRDStats(prdPath);
 }
@@ -7,6 +7,7 @@ interface UseStatusFileOptions {
   enabled?: boolean;
   pollIntervalMs?: number;
   batchMs?: number; // Batch updates within this window (default: 100ms per research)
+  pid?: number; // Follow this instance's file instead of the most recent one (fleet drill-down)
 }
 
 /**
@@ -16,11 +17,13 @@ interface UseStatusFileOptions {
  * Implements batching pattern from research: 100ms batching window to reduce flicker.
  *
  * Returns null if no status file exists (Ralph not running).
+ * With pid set, only /tmp/ralph-status-<pid>.json is watched.
  */
 export function useStatusFile({
   enabled = true,
   pollIntervalMs = 1000,
   batchMs = 100, // Default 100ms batching per research synthesis
+  pid,
 }: UseStatusFileOptions = {}): RalphStatus | null {
   const [status, setStatus] = useState<RalphStatus | null>(null);
   const pendingUpdateRef = useRef<RalphStatus | null>(null);
@@ -58,6 +61,10 @@ export function useStatusFile({
 
     // Find the most recent ralph status file
     const findStatusFile = (): string | null => {
+      if (pid !== undefined) {
+        return join('/tmp', `ralph-status-${pid}.json`);
+      }
+
       try {
         const files = readdirSync('/tmp')
           .filter(f => f.startsWith('ralph-status-') && f.endsWith('.json'));
@@ -146,7 +153,7 @@ export function useStatusFile({
         clearTimeout(batchTimeoutRef.current);
       }
     };
-  }, [enabled, pollIntervalMs, scheduleUpdate]);
+  }, [enabled, pollIntervalMs, scheduleUpdate, pid]);
 
   return status;
 }
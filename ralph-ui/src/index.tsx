@@ -1,13 +1,34 @@
 #!/usr/bin/env bun
 import React from 'react';
 import { render } from 'ink';
-import { existsSync, unlinkSync } from 'fs';
+import { existsSync, rmSync, unlinkSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 import { Dashboard } from './components/Dashboard.js';
 import { runIterations, createConfig } from './runner/index.js';
-import { cleanupStatus } from './runner/status.js';
-import type { Model } from './runner/types.js';
+import { runParallelIterations } from './runner/parallel.js';
+import { runDoctor, formatDoctorReport } from './runner/doctor.js';
+import { applyUpdateQueue, formatUpdateQueueResult } from './runner/prd.js';
+import {
+  listRuns,
+  findRun,
+  grepRuns,
+  listTranscripts,
+  readTranscript,
+  formatRunList,
+  formatRunTimeline,
+  formatTranscriptMatches,
+} from './runner/runs.js';
+import { RunReplay, REPLAY_LINES_PER_SECOND } from './components/RunReplay.js';
+import { FleetView } from './components/FleetView.js';
+import { StoryBrowser } from './components/StoryBrowser.js';
+import { readCheckpoint, findResumableRun } from './runner/checkpoint.js';
+import { StatusServer, DEFAULT_STATUS_PORT } from './runner/server.js';
+import { cleanupStatus, listInstances } from './runner/status.js';
+import { RunController, parseControlCommand } from './runner/control.js';
+import { getControlSocketPath, sendControlCommand } from './runner/control-socket.js';
+import { resolveBudgetConfig } from './runner/budget.js';
+import type { Model, RunCheckpoint } from './runner/types.js';
 import { isPTYSupported, getPTYUnsupportedReason } from './runner/pty/index.js';
 import { loadConfig as loadRalphConfig } from './utils/config.js';
 
@@ -22,12 +43,15 @@ let inkInstance: ReturnType<typeof render> | undefined;
 // Cleanup files on exit - use os.homedir() for cross-platform compatibility
 const stopFile = join(homedir(), '.ralph-stop');
 
-function cleanupAndExit(code: number = 0): void {
+function cleanupAndExit(code: number = 0): never {
   exitRequested = true;
 
   // Cleanup status file
   try { cleanupStatus(); } catch {}
 
+  // Cleanup control socket (left behind when exiting mid-run)
+  try { rmSync(getControlSocketPath(), { force: true }); } catch {}
+
   // Cleanup stop file if it exists
   try {
     if (existsSync(stopFile)) {
@@ -76,16 +100,31 @@ const watchdogInterval = setInterval(() => {
 interface CLIConfig {
   // Mode flags
   run: boolean;  // --run enables iteration runner
+  fleet: boolean;  // --fleet lists every live Ralph instance on this machine
+  stories: boolean;  // --stories browses every story in prd-json/
+  doctor: boolean;  // --doctor checks prd-json/ consistency and exits
+  fix: boolean;  // --fix writes the doctor's repairs
+  applyUpdates: boolean;  // --apply-updates applies prd-json/update.json and exits
+  dryRun: boolean;  // --dry-run shows what --apply-updates would change
+  runs?: RunsCommand;  // --runs lists, inspects, searches or replays archived runs, then exits
+  project?: string;  // --project filters --runs list/grep
+  speed: number;  // --speed multiplier for --runs replay
+  ctl?: string[];  // --ctl <command> [arg] sends a command to a running loop's control socket, then exits
+  pid?: number;  // --pid picks the loop for --ctl
   mode: 'startup' | 'iteration' | 'live';
 
   // Runner options (used when --run is set)
   iterations: number;
   gap: number;
   model: Model;
+  modelOverride?: Model;  // Set by --model or RALPH_MODEL; skips per-story routing
   quiet: boolean;
   verbose: boolean;
   notify: boolean;
   usePty: boolean;  // Use PTY for live output (MP-007)
+  parallel: number;  // Stories run at once in git worktrees (1 = sequential)
+  resume?: string;  // --resume [run]: continue a checkpointed run ('' = latest unfinished run for prdPath)
+  serve?: number;  // --serve [port]: expose the localhost status API while running
 
   // Path options
   prdPath: string;
@@ -97,6 +136,15 @@ interface CLIConfig {
   ntfyTopic?: string;
 }
 
+// `--runs <action> [target] [iteration]`
+interface RunsCommand {
+  action: 'list' | 'show' | 'grep' | 'replay';
+  target?: string;  // Run (name, run ID, prefix or "latest") or grep pattern
+  iteration?: number;  // replay: only this iteration's transcripts
+}
+
+const RUNS_ACTIONS = ['list', 'show', 'grep', 'replay'];
+
 // Parse command line arguments
 function parseArgs(): CLIConfig {
   const args = process.argv.slice(2);
@@ -108,18 +156,29 @@ function parseArgs(): CLIConfig {
   const ralphConfig = loadRalphConfig();
   const notifyFromConfig = ralphConfig.notifications?.enabled ?? false;
   const ntfyTopicFromConfig = ralphConfig.notifications?.ntfyTopic;
+  // ralph.zsh exports RALPH_DEFAULT_MODEL from the env, ralph-config.local, config.json or user-prefs.json
+  const defaultModel = (process.env.RALPH_DEFAULT_MODEL || ralphConfig.defaultModel) as Model | undefined;
 
   // Defaults (config file -> env var -> hardcoded)
   const config: CLIConfig = {
     run: false,
+    fleet: false,
+    stories: false,
+    doctor: false,
+    fix: false,
+    applyUpdates: false,
+    dryRun: false,
+    speed: 1,
     mode: 'live',
     iterations: parseInt(process.env.RALPH_ITERATIONS || '100', 10),
     gap: parseInt(process.env.RALPH_SLEEP_SECONDS || '5', 10),
-    model: (process.env.RALPH_MODEL as Model) || ralphConfig.defaultModel || 'sonnet',
+    model: (process.env.RALPH_MODEL as Model) || defaultModel || 'sonnet',
+    modelOverride: (process.env.RALPH_MODEL as Model) || undefined,
     quiet: false,
     verbose: false,
     notify: !!process.env.RALPH_NOTIFY || notifyFromConfig,
     usePty: ptySupported, // Default to PTY mode only if supported
+    parallel: parseInt(process.env.RALPH_PARALLEL || '1', 10) || 1,
     prdPath: process.cwd() + '/prd-json',
     workingDir: process.cwd(),
     iteration: 1,
@@ -135,6 +194,62 @@ function parseArgs(): CLIConfig {
       config.run = true;
       config.mode = 'iteration';  // Switch to iteration display mode when running
     }
+    // --fleet (every live instance)
+    else if (arg === '--fleet') {
+      config.fleet = true;
+    }
+    // --stories (story browser)
+    else if (arg === '--stories') {
+      config.stories = true;
+    }
+    // --doctor / --fix (PRD consistency check)
+    else if (arg === '--doctor') {
+      config.doctor = true;
+    } else if (arg === '--fix') {
+      config.fix = true;
+    }
+    // --apply-updates / --dry-run (update queue)
+    else if (arg === '--apply-updates') {
+      config.applyUpdates = true;
+    } else if (arg === '--dry-run') {
+      config.dryRun = true;
+    }
+    // --runs [list|show|grep|replay] [target] [iteration]
+    else if (arg === '--runs') {
+      const runs: RunsCommand = { action: 'list' };
+      if (RUNS_ACTIONS.includes(args[i + 1])) {
+        runs.action = args[++i] as RunsCommand['action'];
+      }
+      if (args[i + 1] !== undefined && !args[i + 1].startsWith('-')) {
+        runs.target = args[++i];
+      }
+      if (runs.action === 'replay' && /^\d+$/.test(args[i + 1] ?? '')) {
+        runs.iteration = parseInt(args[++i], 10);
+      }
+      config.runs = runs;
+    }
+    // --ctl <command> [arg] / --pid (control socket client)
+    else if (arg === '--ctl') {
+      const words: string[] = [];
+      while (words.length < 2 && args[i + 1] !== undefined && !args[i + 1].startsWith('-')) {
+        words.push(args[++i]);
+      }
+      config.ctl = words;
+    } else if (arg === '--pid') {
+      config.pid = parseInt(args[++i], 10);
+    } else if (arg.startsWith('--pid=')) {
+      config.pid = parseInt(arg.split('=')[1], 10);
+    }
+    // --project / --speed (used with --runs)
+    else if (arg === '--project') {
+      config.project = args[++i];
+    } else if (arg.startsWith('--project=')) {
+      config.project = arg.split('=')[1];
+    } else if (arg === '--speed') {
+      config.speed = parseFloat(args[++i]) || 1;
+    } else if (arg.startsWith('--speed=')) {
+      config.speed = parseFloat(arg.split('=')[1]) || 1;
+    }
     // --iterations
     else if (arg === '--iterations' || arg === '-n') {
       config.iterations = parseInt(args[++i], 10) || 100;
@@ -152,11 +267,13 @@ function parseArgs(): CLIConfig {
       const modelVal = args[++i];
       if (['haiku', 'sonnet', 'opus', 'gemini-flash', 'gemini-flash-lite', 'gemini-3-flash', 'gemini-pro', 'kiro', 'ollama'].includes(modelVal)) {
         config.model = modelVal as Model;
+        config.modelOverride = modelVal as Model;
       }
     } else if (arg.startsWith('--model=')) {
       const modelVal = arg.split('=')[1];
       if (['haiku', 'sonnet', 'opus', 'gemini-flash', 'gemini-flash-lite', 'gemini-3-flash', 'gemini-pro', 'kiro', 'ollama'].includes(modelVal)) {
         config.model = modelVal as Model;
+        config.modelOverride = modelVal as Model;
       }
     }
     // --quiet
@@ -183,6 +300,36 @@ function parseArgs(): CLIConfig {
     else if (arg === '--no-pty') {
       config.usePty = false;
     }
+    // --parallel [n] (without n: parallelAgents from config.json, default 2)
+    else if (arg === '--parallel') {
+      const value = parseInt(args[i + 1], 10);
+      if (value > 0) {
+        config.parallel = value;
+        i++;
+      } else {
+        config.parallel = ralphConfig.parallelAgents ?? 2;
+      }
+    } else if (arg.startsWith('--parallel=')) {
+      config.parallel = parseInt(arg.split('=')[1], 10) || 1;
+    }
+    // --resume [run] (continue an interrupted run from its checkpoint)
+    else if (arg === '--resume') {
+      config.run = true;
+      config.mode = 'iteration';
+      config.resume = args[i + 1] !== undefined && !args[i + 1].startsWith('-') ? args[++i] : '';
+    } else if (arg.startsWith('--resume=')) {
+      config.run = true;
+      config.mode = 'iteration';
+      config.resume = arg.split('=')[1];
+    }
+    // --serve [port] (localhost HTTP + SSE status API)
+    else if (arg === '--serve') {
+      const port = parseInt(args[i + 1], 10);
+      config.serve = Number.isNaN(port) ? DEFAULT_STATUS_PORT : port;
+      if (!Number.isNaN(port)) i++;
+    } else if (arg.startsWith('--serve=')) {
+      config.serve = parseInt(arg.split('=')[1], 10) || DEFAULT_STATUS_PORT;
+    }
     // --mode (display mode)
     else if (arg === '--mode' || arg === '-m') {
       const value = args[++i];
@@ -237,15 +384,54 @@ Runner Mode (--run):
   --run, -r               Enable iteration runner (executes Claude in a loop)
   --iterations, -n <num>  Number of iterations to run (default: 100, env: RALPH_ITERATIONS)
   --gap, -g <seconds>     Seconds between iterations (default: 5, env: RALPH_SLEEP_SECONDS)
-  --model <model>         Model to use: haiku, sonnet, opus, gemini-flash, gemini-flash-lite, gemini-3-flash, kiro, ollama (env: RALPH_MODEL)
+  --model <model>         Override per-story model routing (a story's own "model" field still wins):
+                          haiku, sonnet, opus, gemini-flash, gemini-flash-lite, gemini-3-flash, kiro, ollama (env: RALPH_MODEL)
   --quiet, -q             Suppress UI output (runner only)
   --verbose, -v           Enable verbose logging
   --notify                Send ntfy notifications (env: RALPH_NOTIFY)
   --pty                   Use PTY for live output (default, enables streaming)
   --no-pty                Use child_process spawning (legacy mode)
+  --parallel [n]          Run up to n independent stories at once, each in its own git worktree
+                          (default n: parallelAgents from config.json, env: RALPH_PARALLEL)
+  --resume [run]          Continue an interrupted run from its checkpoint (default: the latest
+                          unfinished run for --prd-path); keeps its run ID, iteration limit and archive
+  --serve [port]          Serve GET /status, /prd, /iterations and SSE /events on 127.0.0.1
+                          while running (default port: ${DEFAULT_STATUS_PORT})
+
+PRD Doctor (--doctor):
+  --doctor                Check index.json against the story files and report issues
+  --fix                   Write the repairs (prints a diff either way)
+
+Update Queue (--apply-updates):
+  --apply-updates         Apply prd-json/update.json now, all or nothing
+  --dry-run               Print the changes and diffs without writing anything
+
+Run History (--runs):
+  --runs [list]           List archived runs (date, project, stories completed, cost, duration)
+  --runs show [run]       Show a run's iteration timeline (run: name, run ID, prefix or "latest")
+  --runs grep <pattern>   Search every archived transcript (regex, case-insensitive)
+  --runs replay [run] [n] Replay a run's transcripts (or only iteration n) in the output view
+  --project <name>        Only list/search runs of this project
+  --speed <x>             Replay speed multiplier (default: 1 = ${REPLAY_LINES_PER_SECOND} lines/s)
+
+Run Control (--ctl):
+  --ctl pause|resume      Hold a running loop after its current iteration, then continue
+  --ctl stop              Finish the current iteration and exit (continue later with --resume)
+  --ctl skip [story]      Pass over a story (default: the current one) for the rest of the run
+  --ctl retry             Retry now instead of waiting out an error cooldown
+  --ctl model <name|auto> Use a model from the next iteration (auto: back to per-story routing)
+  --ctl verbose           Toggle verbose logging
+  --ctl status            Print the loop's iteration, story, model, state and cost
+  --pid <pid>             Which loop (default: the only one running, or the one for --prd-path)
 
 Display Mode (without --run):
   --mode, -m <mode>       Mode: startup, iteration, or live (default: live)
+  --fleet                 List every live Ralph instance (PID, project, story, model, state, activity,
+                          cost); Enter opens one's dashboard. Status files of dead PIDs are removed
+  --stories               Browse every story (status, type, priority, criteria); f/t filter by
+                          status/type, Enter shows criteria, dependencies, commit and attempt history.
+                          Tab/space toggle criteria, B/u block/unblock, [/] move, n marks next -
+                          edits are queued in update.json for the loop to apply between iterations
 
 Common Options:
   --prd-path, -p <path>   Path to prd-json directory (default: ./prd-json)
@@ -259,12 +445,33 @@ Examples:
   # Run iterations with display
   bun ralph-ui/src/index.tsx --run --iterations 100 --model opus
 
+  # Run 4 independent stories at a time
+  bun ralph-ui/src/index.tsx --run --parallel 4
+
   # Run quietly (no UI)
   bun ralph-ui/src/index.tsx --run --quiet
 
   # Display only (watch mode)
   bun ralph-ui/src/index.tsx --mode live
 
+  # Watch every project Ralph is running in
+  bun ralph-ui/src/index.tsx --fleet
+
+  # Pause the loop running in this project
+  bun ralph-ui/src/index.tsx --ctl pause
+
+  # Browse this project's stories
+  bun ralph-ui/src/index.tsx --stories
+
+  # Check and repair prd-json/
+  bun ralph-ui/src/index.tsx --doctor --fix
+
+  # Preview a queued update.json
+  bun ralph-ui/src/index.tsx --apply-updates --dry-run
+
+  # Replay iteration 3 of the last run at 4x
+  bun ralph-ui/src/index.tsx --runs replay latest 3 --speed 4
+
   # Display PRD status once
   bun ralph-ui/src/index.tsx --mode startup
 
@@ -284,7 +491,19 @@ Modes:
 async function main() {
   const config = parseArgs();
 
-  if (config.run) {
+  if (config.doctor) {
+    runDoctorMode(config);
+  } else if (config.runs) {
+    await runRunsMode(config.runs, config);
+  } else if (config.applyUpdates) {
+    runApplyUpdatesMode(config);
+  } else if (config.ctl) {
+    await runCtlMode(config.ctl, config);
+  } else if (config.fleet) {
+    await runFleetMode(config);
+  } else if (config.stories) {
+    await runStoriesMode(config);
+  } else if (config.run) {
     // Runner mode: execute iterations
     await runInRunnerMode(config);
   } else {
@@ -293,6 +512,131 @@ async function main() {
   }
 }
 
+// Doctor mode: check (and with --fix, repair) prd-json/, then exit
+// Exit code 1 while issues remain, so scripts can gate on it
+function runDoctorMode(config: CLIConfig): void {
+  const report = runDoctor(config.prdPath, { fix: config.fix });
+  console.log(formatDoctorReport(report, config.fix));
+
+  const remaining = config.fix ? report.issues.filter((issue) => !issue.fix) : report.issues;
+  cleanupAndExit(remaining.length > 0 ? 1 : 0);
+}
+
+// Update queue mode: apply (or with --dry-run, preview) update.json, then exit
+// Exit code 1 when the queue was rejected or could not be applied
+function runApplyUpdatesMode(config: CLIConfig): void {
+  const result = applyUpdateQueue(config.prdPath, { dryRun: config.dryRun });
+  console.log(formatUpdateQueueResult(result, config.dryRun));
+  cleanupAndExit(result.error ? 1 : 0);
+}
+
+// Run history mode: list, show, grep or replay ~/.config/ralphtools/runs/, then exit
+// Exit code 1 when the run or pattern can't be resolved (or grep finds nothing)
+async function runRunsMode(runs: RunsCommand, config: CLIConfig): Promise<void> {
+  if (runs.action === 'list') {
+    const all = listRuns().filter((run) => !config.project || run.metadata?.project === config.project);
+    console.log(formatRunList(all));
+    return cleanupAndExit(0);
+  }
+
+  if (runs.action === 'grep') {
+    if (!runs.target) {
+      console.error('Usage: ralph runs grep <pattern>');
+      return cleanupAndExit(1);
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(runs.target, 'i');
+    } catch (error) {
+      console.error(`Invalid pattern: ${error instanceof Error ? error.message : error}`);
+      return cleanupAndExit(1);
+    }
+    const matches = grepRuns(pattern, undefined, { project: config.project });
+    console.log(formatTranscriptMatches(matches));
+    return cleanupAndExit(matches.length > 0 ? 0 : 1);
+  }
+
+  const run = findRun(runs.target ?? 'latest');
+  if (!run) {
+    console.error(`No archived run matches "${runs.target ?? 'latest'}" (see \`ralph runs\`)`);
+    return cleanupAndExit(1);
+  }
+
+  if (runs.action === 'show') {
+    console.log(formatRunTimeline(run));
+    return cleanupAndExit(0);
+  }
+
+  // replay: every transcript of the run (or one iteration's attempts), each under a header
+  const records = new Map(run.iterations.map((record) => [record.transcript, record]));
+  const files = listTranscripts(run).filter(
+    (file) => runs.iteration === undefined || records.get(file)?.iteration === runs.iteration
+  );
+  if (files.length === 0) {
+    console.error(`No transcript for ${runs.iteration !== undefined ? `iteration ${runs.iteration} of ` : ''}run ${run.name}`);
+    return cleanupAndExit(1);
+  }
+
+  const lines = files.flatMap((file) => {
+    const record = records.get(file);
+    const header = record ? `── ${file} · ${record.storyId} · ${record.model} ──` : `── ${file} ──`;
+    return [header, ...readTranscript(run, file)];
+  });
+
+  // Same stdin setup as display mode (see runInDisplayMode)
+  if (process.stdin.isTTY && process.stdin.setRawMode) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+  }
+  inkInstance = render(
+    <RunReplay title={`Replay ${run.name}${run.metadata ? ` (${run.metadata.project})` : ''}`} lines={lines} speed={config.speed} />,
+    { exitOnCtrlC: false, stdin: process.stdin, stdout: process.stdout }
+  );
+  await inkInstance.waitUntilExit();
+  cleanupAndExit(0);
+}
+
+// Control mode: send one command to a running loop's control socket, then exit
+// Exit code 1 when no loop was found or the command was refused
+async function runCtlMode(words: string[], config: CLIConfig): Promise<void> {
+  const command = parseControlCommand(words.join(' '));
+  if (!command) {
+    console.error('Usage: ralph ctl pause|resume|stop|skip [story]|retry|model <name|auto>|verbose|status [--pid <pid>]');
+    return cleanupAndExit(1);
+  }
+
+  // Several loops: the one for this prd-json/ unless --pid says otherwise
+  let targets = listInstances().filter((instance) => instance.controlSocket);
+  if (config.pid !== undefined) {
+    targets = targets.filter((instance) => instance.pid === config.pid);
+  } else if (targets.length > 1) {
+    const here = targets.filter((instance) => instance.prdJsonDir === config.prdPath);
+    if (here.length > 0) targets = here;
+  }
+
+  if (targets.length === 0) {
+    console.error(config.pid !== undefined ? `No Ralph loop with PID ${config.pid}` : 'No running Ralph loop found');
+    return cleanupAndExit(1);
+  }
+  if (targets.length > 1) {
+    console.error('Several Ralph loops are running - pick one with --pid:');
+    for (const target of targets) {
+      console.error(`  ${target.pid}  ${target.project ?? target.prdJsonDir ?? ''}`);
+    }
+    return cleanupAndExit(1);
+  }
+
+  const target = targets[0];
+  try {
+    const reply = await sendControlCommand(target.controlSocket!, command);
+    console.log(`${target.project ?? target.pid}: ${reply.message}`);
+    return cleanupAndExit(reply.ok ? 0 : 1);
+  } catch (error) {
+    console.error(`Could not reach PID ${target.pid}: ${error instanceof Error ? error.message : error}`);
+    return cleanupAndExit(1);
+  }
+}
+
 // Format elapsed time from milliseconds to human-readable
 function formatElapsed(ms: number): string {
   const seconds = Math.floor(ms / 1000);
@@ -344,21 +688,89 @@ async function waitForKeypress(timeoutMs: number = 30000): Promise<void> {
 }
 
 // Runner mode: executes iterations with optional UI
+// Find the checkpoint --resume refers to; exits when there is nothing to resume
+function resolveResume(config: CLIConfig): RunCheckpoint {
+  let checkpoint: RunCheckpoint | null;
+  if (config.resume) {
+    const run = findRun(config.resume);
+    if (!run) {
+      console.error(`No archived run matches "${config.resume}" (see \`ralph runs\`)`);
+      cleanupAndExit(1);
+    }
+    checkpoint = readCheckpoint(run.dir);
+    if (!checkpoint) {
+      console.error(`Run ${run.name} has no checkpoint to resume from`);
+      cleanupAndExit(1);
+    }
+  } else {
+    checkpoint = findResumableRun(config.prdPath);
+    if (!checkpoint) {
+      console.error(`No unfinished run to resume for ${config.prdPath}`);
+      cleanupAndExit(1);
+    }
+  }
+
+  if (checkpoint.status === 'finished') {
+    console.error(`Run ${checkpoint.runId} already finished`);
+    cleanupAndExit(1);
+  }
+  if (config.parallel > 1) {
+    console.warn('Warning: --resume runs stories one at a time (ignoring --parallel)');
+    config.parallel = 1;
+  }
+  return checkpoint;
+}
+
 async function runInRunnerMode(config: CLIConfig) {
+  const ralphConfig = loadRalphConfig();
+  const resume = config.resume !== undefined ? resolveResume(config) : undefined;
+  const prdJsonDir = resume?.prdJsonDir ?? config.prdPath;
+
+  // Optional localhost status API (a taken port only costs the API, not the run)
+  let statusServer: StatusServer | undefined;
+  if (config.serve !== undefined) {
+    try {
+      statusServer = new StatusServer({ prdJsonDir, port: config.serve });
+      console.log(`📡 Status API: ${statusServer.start()}`);
+    } catch (error) {
+      console.warn(`Warning: status API not started: ${error instanceof Error ? error.message : error}`);
+      statusServer = undefined;
+    }
+  }
+
+  const control = new RunController({ verbose: config.verbose });
   const runnerConfig = createConfig({
-    prdJsonDir: config.prdPath,
-    workingDir: config.workingDir,
-    iterations: config.iterations,
+    prdJsonDir,
+    workingDir: resume?.workingDir ?? config.workingDir,
+    iterations: resume?.iterations ?? config.iterations,
     gapSeconds: config.gap,
     model: config.model,
+    modelOverride: config.modelOverride,
+    routing: {
+      modelStrategy: ralphConfig.modelStrategy,
+      defaultModel: process.env.RALPH_DEFAULT_MODEL || ralphConfig.defaultModel,
+      unknownTaskType: ralphConfig.unknownTaskType,
+      models: ralphConfig.models,
+    },
+    pricing: ralphConfig.pricing,
+    parallel: config.parallel,
+    runId: process.env.RALPH_SESSION,
+    resume,
+    budget: resolveBudgetConfig(ralphConfig.budget, ralphConfig.costEstimation?.warnThreshold),
+    escalation: ralphConfig.escalation,
     notify: config.notify,
     ntfyTopic: config.ntfyTopic,
+    notifiers: ralphConfig.notifications?.providers,
+    notificationRouting: ralphConfig.notifications,
+    control,
+    remoteControl: ralphConfig.notifications?.control,
     quiet: config.quiet,
     verbose: config.verbose,
     usePty: config.usePty,
+    onStrippedOutput: statusServer ? (data) => statusServer.publishOutput(data) : undefined,
   });
 
-  const runStartTime = Date.now();
+  const runStartTime = resume ? Date.parse(resume.runStartedAt) : Date.now();
 
   // Start UI if not quiet - use the global inkInstance
   if (!config.quiet) {
@@ -371,12 +783,13 @@ async function runInRunnerMode(config: CLIConfig) {
       return (
         <Dashboard
           mode="iteration"
-          prdPath={config.prdPath}
+          prdPath={runnerConfig.prdJsonDir}
           iteration={config.iteration}
           model={config.model}
-          startTime={config.startTime}
+          startTime={resume ? runStartTime : config.startTime}
           ntfyTopic={config.ntfyTopic}
           onExitRequest={handleExitRequest}
+          control={control}
         />
       );
     };
@@ -410,22 +823,28 @@ async function runInRunnerMode(config: CLIConfig) {
     });
   }
 
-  // Track stats for summary
-  let storiesCompleted = 0;
-  let iterationsRun = 0;
+  // Track stats for summary (a resumed run continues its totals)
+  let storiesCompleted = resume?.storiesCompleted ?? 0;
+  let iterationsRun = resume ? resume.iteration - 1 : 0;
+  let totalCost = resume?.totalCost ?? 0;
   let hasErrors = false;
-  let exitReason: 'complete' | 'blocked' | 'interrupted' | 'iterations' = 'iterations';
+  let exitReason: 'complete' | 'blocked' | 'interrupted' | 'iterations' | 'budget' | 'stopped' = 'iterations';
 
   try {
     // Run iterations
-    for await (const result of runIterations(runnerConfig)) {
+    const iterations = config.parallel > 1 ? runParallelIterations(runnerConfig) : runIterations(runnerConfig);
+    for await (const result of iterations) {
       iterationsRun = result.iteration;
+      statusServer?.recordIteration(result);
 
-      // Track successful story completions
-      if (result.success && result.storyId) {
+      // Track story completions (verified on disk when the iteration spawned Claude)
+      if (result.verification ? result.verification.verdict === 'completed' : result.success && result.storyId) {
         storiesCompleted++;
       }
 
+      // Track spend (from the same numbers written to costs.jsonl)
+      totalCost += result.estimatedCost ?? 0;
+
       // Track errors
       if (result.error) {
         hasErrors = true;
@@ -437,6 +856,12 @@ async function runInRunnerMode(config: CLIConfig) {
         break;
       }
 
+      // Budget guardrail stopped the loop
+      if (result.budgetExceeded) {
+        exitReason = 'budget';
+        break;
+      }
+
       // Handle completion
       if (result.hasComplete) {
         exitReason = 'complete';
@@ -449,9 +874,14 @@ async function runInRunnerMode(config: CLIConfig) {
         break;
       }
     }
+    // The loop ended early on a remote "stop"
+    if (control.stopRequested && exitReason === 'iterations') {
+      exitReason = 'stopped';
+    }
   } finally {
     // Clear watchdog interval before cleanup
     clearInterval(watchdogInterval);
+    statusServer?.stop();
 
     // Cleanup status file
     cleanupStatus();
@@ -483,14 +913,21 @@ async function runInRunnerMode(config: CLIConfig) {
       case 'interrupted':
         console.log('🛑 Status: Interrupted by user');
         break;
+      case 'budget':
+        console.log('💸 Status: Stopped by budget limit');
+        break;
+      case 'stopped':
+        console.log('⏹  Status: Stopped by remote control (continue with --resume)');
+        break;
       case 'iterations':
-        console.log(`📊 Status: Completed ${config.iterations} iterations`);
+        console.log(`📊 Status: Completed ${runnerConfig.iterations} iterations`);
         break;
     }
 
     console.log(`📈 Iterations run: ${iterationsRun}`);
     console.log(`📚 Stories completed: ${storiesCompleted}`);
     console.log(`⏱  Elapsed time: ${elapsed}`);
+    console.log(`💰 Estimated cost: $${totalCost.toFixed(2)}`);
     if (hasErrors) {
       console.log('⚠️  Some iterations had errors (check progress.txt)');
     }
@@ -503,6 +940,42 @@ async function runInRunnerMode(config: CLIConfig) {
   cleanupAndExit(0);
 }
 
+// Fleet mode: every live instance, with drill-down into one's dashboard
+async function runFleetMode(config: CLIConfig) {
+  // Same stdin setup as display mode (see runInDisplayMode)
+  if (process.stdin.isTTY && process.stdin.setRawMode) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+  }
+
+  inkInstance = render(<FleetView defaultPrdPath={config.prdPath} />, {
+    exitOnCtrlC: false,
+    stdin: process.stdin,
+    stdout: process.stdout,
+  });
+
+  await inkInstance.waitUntilExit();
+  cleanupAndExit(0);
+}
+
+// Story browser mode: list prd-json/ stories, open one for its details
+async function runStoriesMode(config: CLIConfig) {
+  // Same stdin setup as display mode (see runInDisplayMode)
+  if (process.stdin.isTTY && process.stdin.setRawMode) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+  }
+
+  inkInstance = render(<StoryBrowser prdPath={config.prdPath} />, {
+    exitOnCtrlC: false,
+    stdin: process.stdin,
+    stdout: process.stdout,
+  });
+
+  await inkInstance.waitUntilExit();
+  cleanupAndExit(0);
+}
+
 // Display-only mode: show dashboard without running iterations
 async function runInDisplayMode(config: CLIConfig) {
   // AIDEV-NOTE: CRITICAL - Ink keyboard input setup (DO NOT REMOVE)
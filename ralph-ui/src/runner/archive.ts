@@ -0,0 +1,176 @@
+/**
+ * Run Archive - Per-iteration records and transcripts under ~/.config/ralphtools/runs/
+ * So an overnight run leaves something to look at the next morning
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type {
+  IterationResult,
+  IterationVerdict,
+  ModelReason,
+  TokenUsage,
+  IterationVerification,
+} from "./types";
+import { writeFileAtomic } from "./file-lock";
+
+// AIDEV-NOTE: Layout, one directory per run:
+//   runs/<timestamp>/run.json          RunMetadata (updated when the run ends)
+//   runs/<timestamp>/iteration-N.json  IterationRecord (written before spawning, then again with the outcome)
+//   runs/<timestamp>/iteration-N.log   ANSI-stripped agent output, streamed while Claude runs
+// A retried iteration keeps its number, so its files get an attempt suffix
+// (iteration-3-2.json). The <timestamp> format matches createLogDir() in pty/dual-output.ts.
+
+export interface RunMetadata {
+  runId: string;
+  project: string;
+  workingDir: string;
+  prdJsonDir: string;
+  pid: number;
+  startedAt: string; // ISO-8601
+  endedAt?: string;
+  interrupted?: boolean;
+  resumedAt?: string; // Last --resume of this run
+}
+
+export interface IterationRecord {
+  iteration: number;
+  attempt: number; // 1, or higher for a retry of the same iteration
+  storyId: string;
+  model: string;
+  modelReason?: ModelReason;
+  startedAt: string; // ISO-8601
+  status: "running" | "finished";
+  prompt: string; // Exactly what was passed with -p
+  systemContext: string; // Exactly what was passed with --append-system-prompt
+  transcript: string; // File name of the stripped output, next to this record
+  exitCode?: number;
+  durationMs?: number;
+  success?: boolean;
+  verdict?: IterationVerdict;
+  hasComplete?: boolean;
+  hasBlocked?: boolean;
+  error?: string;
+  sessionId?: string;
+  tokens?: TokenUsage;
+  estimatedCost?: number;
+  toolCalls?: Record<string, number>;
+  failedAttempts?: number;
+  blockedReason?: string;
+  verification?: IterationVerification;
+}
+
+/**
+ * Root of the run archive (honours XDG_CONFIG_HOME)
+ */
+export function getRunsDir(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "ralphtools", "runs");
+}
+
+/**
+ * Directory name for a run started at `date`
+ */
+export function runTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+/**
+ * Create a run's archive directory and write run.json
+ */
+export function createRunDir(metadata: RunMetadata, runsDir: string = getRunsDir()): string {
+  const base = join(runsDir, runTimestamp(new Date(metadata.startedAt)));
+  let runDir = base;
+  for (let n = 2; existsSync(runDir); n++) {
+    runDir = `${base}-${n}`;
+  }
+
+  mkdirSync(runDir, { recursive: true });
+  writeFileAtomic(join(runDir, "run.json"), JSON.stringify(metadata, null, 2) + "\n");
+  return runDir;
+}
+
+/**
+ * Read a run's run.json (null when missing or unreadable)
+ */
+export function readRunMetadata(runDir: string): RunMetadata | null {
+  try {
+    return JSON.parse(readFileSync(join(runDir, "run.json"), "utf-8")) as RunMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge fields into a run's run.json
+ */
+export function updateRunMetadata(runDir: string, patch: Partial<RunMetadata>): void {
+  const metadata = readRunMetadata(runDir);
+  if (!metadata) return;
+  writeFileAtomic(join(runDir, "run.json"), JSON.stringify({ ...metadata, ...patch }, null, 2) + "\n");
+}
+
+/**
+ * File name stem for an iteration's record and transcript: iteration-N, or iteration-N-<attempt>
+ */
+export function iterationFileStem(iteration: number, attempt: number): string {
+  return attempt > 1 ? `iteration-${iteration}-${attempt}` : `iteration-${iteration}`;
+}
+
+/**
+ * Start an iteration's record before Claude is spawned, so a crash still leaves
+ * the prompt and a partial transcript behind. Returns the record to finish later.
+ */
+export function startIterationRecord(
+  runDir: string,
+  record: Omit<IterationRecord, "attempt" | "status" | "transcript">
+): IterationRecord {
+  let attempt = 1;
+  while (existsSync(join(runDir, `${iterationFileStem(record.iteration, attempt)}.json`))) {
+    attempt++;
+  }
+
+  const stem = iterationFileStem(record.iteration, attempt);
+  const started: IterationRecord = { ...record, attempt, status: "running", transcript: `${stem}.log` };
+  writeFileAtomic(join(runDir, `${stem}.json`), JSON.stringify(started, null, 2) + "\n");
+  return started;
+}
+
+/**
+ * Rewrite an iteration's record with its outcome; stderr is appended to the transcript
+ */
+export function finishIterationRecord(
+  runDir: string,
+  record: IterationRecord,
+  result: IterationResult,
+  exitCode: number,
+  stderr = ""
+): IterationRecord {
+  const finished: IterationRecord = {
+    ...record,
+    status: "finished",
+    exitCode,
+    durationMs: result.durationMs,
+    success: result.success,
+    verdict: result.verification?.verdict,
+    hasComplete: result.hasComplete,
+    hasBlocked: result.hasBlocked,
+    error: result.error,
+    sessionId: result.sessionId,
+    tokens: result.tokens,
+    estimatedCost: result.estimatedCost,
+    toolCalls: result.toolCalls,
+    failedAttempts: result.failedAttempts,
+    blockedReason: result.blockedReason,
+    verification: result.verification,
+  };
+
+  if (stderr.trim()) {
+    appendFileSync(join(runDir, record.transcript), `\n--- stderr ---\n${stderr}`);
+  }
+  writeFileAtomic(
+    join(runDir, `${iterationFileStem(record.iteration, record.attempt)}.json`),
+    JSON.stringify(finished, null, 2) + "\n"
+  );
+  return finished;
+}
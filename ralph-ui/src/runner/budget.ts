@@ -0,0 +1,108 @@
+/**
+ * Budget Guardrails - Enforce spend limits against the cost ledger
+ * Evaluated by runIterations() before every iteration
+ */
+
+import type { BudgetConfig, BudgetLimit, Model } from "./types";
+import type { CostEntry } from "./costs";
+
+// AIDEV-NOTE: Spend is always computed from costs.jsonl (not in-memory totals) so
+// per-story and per-day limits include earlier runs and other projects.
+
+// Default downgrade ladder when budget.downgrade isn't configured
+export const DEFAULT_DOWNGRADE: Record<string, Model> = {
+  opus: "sonnet",
+  sonnet: "haiku",
+};
+
+export interface BudgetSpend {
+  run: number;
+  story: number;
+  day: number;
+}
+
+export interface BudgetViolation {
+  limit: BudgetLimit;
+  spent: number;
+  max: number;
+}
+
+// Local calendar day (YYYY-MM-DD) for a timestamp
+function localDay(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Sum ledger spend for the current run, story (in this project) and day (all projects)
+ */
+export function getBudgetSpend(
+  entries: CostEntry[],
+  scope: { runId: string; storyId?: string; project: string; now?: Date }
+): BudgetSpend {
+  const today = localDay(scope.now ?? new Date());
+  const spend: BudgetSpend = { run: 0, story: 0, day: 0 };
+
+  for (const entry of entries) {
+    const cost = entry.estimatedCost ?? 0;
+    if (cost === 0) continue;
+
+    if (entry.runId === scope.runId) {
+      spend.run += cost;
+    }
+    if (scope.storyId && entry.storyId === scope.storyId && entry.project === scope.project) {
+      spend.story += cost;
+    }
+    if (localDay(new Date(entry.timestamp)) === today) {
+      spend.day += cost;
+    }
+  }
+
+  return spend;
+}
+
+/**
+ * Runner budget from config.json: the "budget" limits plus costEstimation.warnThreshold,
+ * which warns on its own when no limits are set
+ */
+export function resolveBudgetConfig(budget?: BudgetConfig, warnThreshold?: number): BudgetConfig | undefined {
+  if (!budget && warnThreshold === undefined) return undefined;
+  return { ...budget, warnAt: warnThreshold };
+}
+
+/**
+ * Return every limit that the current spend has reached
+ */
+export function checkBudget(budget: BudgetConfig, spend: BudgetSpend): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  if (budget.perRun !== undefined && spend.run >= budget.perRun) {
+    violations.push({ limit: "run", spent: spend.run, max: budget.perRun });
+  }
+  if (budget.perStory !== undefined && spend.story >= budget.perStory) {
+    violations.push({ limit: "story", spent: spend.story, max: budget.perStory });
+  }
+  if (budget.perDay !== undefined && spend.day >= budget.perDay) {
+    violations.push({ limit: "day", spent: spend.day, max: budget.perDay });
+  }
+
+  return violations;
+}
+
+/**
+ * Get the cheaper model to use once a budget is exceeded
+ * Returns the same model when there is nothing cheaper on the ladder
+ */
+export function downgradeModel(model: Model, ladder?: Record<string, string>): Model {
+  return ((ladder ?? DEFAULT_DOWNGRADE)[model] as Model | undefined) ?? model;
+}
+
+/**
+ * Human-readable description of a budget violation
+ */
+export function describeViolation(violation: BudgetViolation): string {
+  const label = { run: "Run", story: "Story", day: "Daily" }[violation.limit];
+  return `${label} budget exceeded: $${violation.spent.toFixed(2)} of $${violation.max.toFixed(2)}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Run Checkpoint - Where a run stands after each iteration (runs/<timestamp>/checkpoint.json)
+ * Lets `--resume` continue an interrupted run instead of starting a fresh one
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import type { RunCheckpoint } from "./types";
+import { writeFileAtomic } from "./file-lock";
+import { getRunsDir } from "./archive";
+import { listRuns } from "./runs";
+
+// AIDEV-NOTE: runIterations() writes the checkpoint before yielding each result, so a
+// run killed by SIGINT/SIGTERM, the ~/.ralph-stop watchdog or a crash still has one.
+// status is "finished" only once the run ended on its own (all complete, all blocked,
+// iteration limit); anything else can be resumed. Resuming reuses the run ID, so the
+// run's spend in costs.jsonl (and its budget) carries over, and the archive directory.
+
+export const CHECKPOINT_FILE = "checkpoint.json";
+
+/**
+ * Write a run's checkpoint.json
+ */
+export function writeCheckpoint(checkpoint: RunCheckpoint): void {
+  writeFileAtomic(join(checkpoint.runDir, CHECKPOINT_FILE), JSON.stringify(checkpoint, null, 2) + "\n");
+}
+
+/**
+ * Read a run's checkpoint.json (null when missing or unreadable)
+ */
+export function readCheckpoint(runDir: string): RunCheckpoint | null {
+  const path = join(runDir, CHECKPOINT_FILE);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as RunCheckpoint;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The newest unfinished run for a prd-json directory
+ */
+export function findResumableRun(prdJsonDir: string, runsDir: string = getRunsDir()): RunCheckpoint | null {
+  const target = resolve(prdJsonDir);
+  for (const run of listRuns(runsDir)) {
+    const checkpoint = readCheckpoint(run.dir);
+    if (checkpoint && resolve(checkpoint.prdJsonDir) === target) {
+      return checkpoint.status === "finished" ? null : checkpoint;
+    }
+  }
+  return null;
+}
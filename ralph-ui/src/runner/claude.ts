@@ -4,9 +4,16 @@
  */
 
 import { spawn as bunSpawn } from "bun";
-import type { SpawnOptions, SpawnResult, Model } from "./types";
+import type { SpawnOptions, SpawnResult, Model, StreamEvent } from "./types";
 import { DEFAULT_TIMEOUT_MS } from "./types";
-import { detectError, hasCompletionSignal, hasBlockedSignal } from "./errors";
+import {
+  detectError,
+  hasCompletionSignal,
+  hasBlockedSignal,
+  hasCompletePromise,
+  hasAllBlockedPromise,
+} from "./errors";
+import { StreamJsonParser, parseStreamJson, summarizeStream, type StreamSummary } from "./stream-json";
 
 // AIDEV-NOTE: This module spawns the Claude CLI as a subprocess
 // It must handle TTY inheritance properly for interactive features
@@ -20,6 +27,7 @@ export function buildCliArgs(options: SpawnOptions): string[] {
     // Claude CLI arguments
     args.push("--print", "--dangerously-skip-permissions");
     args.push("--model", options.model);
+    args.push("--output-format", "stream-json", "--verbose"); // stream-json needs --verbose with --print
 
     if (options.contextFile) {
       args.push("--append-system-prompt", options.contextFile);
@@ -68,7 +76,39 @@ export function buildCliArgs(options: SpawnOptions): string[] {
   return args;
 }
 
-export async function spawnClaude(options: SpawnOptions): Promise<SpawnResult> {
+export interface SpawnCallbacks {
+  onData?: (data: string) => void; // Raw stdout chunks as they arrive
+  onStreamEvent?: (event: StreamEvent) => void;
+}
+
+// Feed a process's stdout to the stream-json parser as it arrives
+async function readStdout(
+  stream: ReadableStream<Uint8Array>,
+  parser: StreamJsonParser,
+  onData?: (data: string) => void
+): Promise<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let output = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+    output += chunk;
+    parser.push(chunk);
+    onData?.(chunk);
+  }
+
+  const rest = decoder.decode();
+  output += rest;
+  parser.push(rest);
+  if (rest) onData?.(rest);
+  parser.end();
+  return output;
+}
+
+export async function spawnClaude(options: SpawnOptions, callbacks: SpawnCallbacks = {}): Promise<SpawnResult> {
   const startTime = Date.now();
   const args = buildCliArgs(options);
 
@@ -102,6 +142,13 @@ export async function spawnClaude(options: SpawnOptions): Promise<SpawnResult> {
       },
     });
 
+    const parser = new StreamJsonParser();
+    if (callbacks.onStreamEvent) {
+      parser.onStreamEvent(callbacks.onStreamEvent);
+    }
+    const stdoutText = readStdout(proc.stdout, parser, callbacks.onData);
+    const stderrText = new Response(proc.stderr).text();
+
     // Set up timeout
     const timeout = options.timeout || DEFAULT_TIMEOUT_MS;
     let timedOut = false;
@@ -116,8 +163,8 @@ export async function spawnClaude(options: SpawnOptions): Promise<SpawnResult> {
     clearTimeout(timeoutId);
 
     // Collect output
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
+    const stdout = await stdoutText;
+    const stderr = await stderrText;
 
     const durationMs = Date.now() - startTime;
 
@@ -128,12 +175,13 @@ export async function spawnClaude(options: SpawnOptions): Promise<SpawnResult> {
         stdout,
         stderr: "Process timed out",
         durationMs,
+        events: parser.events,
       };
     }
 
     // Extract session ID if present
-    let sessionId: string | undefined;
-    const sessionMatch = stdout.match(/"session_id":\s*"([^"]+)"/);
+    let sessionId = summarizeStream(parser.events).sessionId;
+    const sessionMatch = sessionId ? null : stdout.match(/"session_id":\s*"([^"]+)"/);
     if (sessionMatch) {
       sessionId = sessionMatch[1];
     }
@@ -145,6 +193,7 @@ export async function spawnClaude(options: SpawnOptions): Promise<SpawnResult> {
       stderr,
       durationMs,
       sessionId,
+      events: parser.events,
     };
   } catch (error) {
     const durationMs = Date.now() - startTime;
@@ -212,11 +261,30 @@ export interface IterationOutcome {
   hasAllBlocked: boolean;
   errorType: ReturnType<typeof detectError>;
   assistantText: string;
+  stream: StreamSummary;
 }
 
 export function analyzeResult(result: SpawnResult): IterationOutcome {
+  const stream = summarizeStream(result.events ?? parseStreamJson(result.stdout));
+
+  if (stream.result) {
+    // Structured output: only Claude's own messages count, so a story file
+    // echoed by a tool ("passes": true) can't pass for a completion signal
+    const said = [stream.assistantText, stream.result.text ?? ""].join("\n");
+    const success = result.success && !stream.result.isError;
+    return {
+      success,
+      hasComplete: hasCompletePromise(said),
+      hasAllBlocked: hasAllBlockedPromise(said),
+      errorType: success ? null : detectError(`${said}\n${result.stderr}`),
+      assistantText: stream.assistantText,
+      stream,
+    };
+  }
+
+  // No result line (other CLIs, or Claude died mid-run): fall back to patterns
   const combinedOutput = result.stdout + result.stderr;
-  const assistantText = extractAssistantText(result.stdout);
+  const assistantText = stream.assistantText || extractAssistantText(result.stdout);
 
   const errorType = result.success ? null : detectError(combinedOutput);
   const hasComplete = hasCompletionSignal(combinedOutput);
@@ -228,6 +296,7 @@ export function analyzeResult(result: SpawnResult): IterationOutcome {
     hasAllBlocked,
     errorType,
     assistantText,
+    stream,
   };
 }
 
@@ -0,0 +1,139 @@
+/**
+ * Control Socket - Local Unix socket for steering a running loop without killing it
+ * One per runner; the path is recorded in the status file for `ralph ctl`
+ */
+
+import { chmodSync, rmSync } from "fs";
+import type { UnixSocketListener } from "bun";
+import type { ControlCommand, ControlReply, RunControl } from "./types";
+import { toControlCommand } from "./control";
+
+// AIDEV-NOTE: Protocol is newline-delimited JSON: the client writes a command such as
+// {"type":"skip","storyId":"US-003"} and gets one ControlReply line back per command.
+// The socket is chmod 600 - only the user running the loop can steer it, so unlike the
+// ntfy control topic there is no secret.
+
+const CLIENT_TIMEOUT_MS = 5000;
+
+interface Connection {
+  buffer: string;
+}
+
+export interface ControlSocketOptions {
+  control: RunControl;
+  path?: string; // Default: getControlSocketPath()
+  onLog?: (message: string) => void;
+}
+
+export function getControlSocketPath(pid?: number): string {
+  return `/tmp/ralph-control-${pid ?? process.pid}.sock`;
+}
+
+export class ControlSocketServer {
+  private listener: UnixSocketListener<Connection> | null = null;
+  readonly path: string;
+
+  constructor(private readonly options: ControlSocketOptions) {
+    this.path = options.path ?? getControlSocketPath();
+  }
+
+  /**
+   * Start listening; returns the socket path
+   */
+  start(): string {
+    rmSync(this.path, { force: true }); // Left behind by a crashed run with the same PID
+    this.listener = Bun.listen<Connection>({
+      unix: this.path,
+      socket: {
+        open: (socket) => {
+          socket.data = { buffer: "" };
+        },
+        data: (socket, chunk) => {
+          socket.data.buffer += chunk.toString();
+          let newline: number;
+          while ((newline = socket.data.buffer.indexOf("\n")) !== -1) {
+            const line = socket.data.buffer.slice(0, newline);
+            socket.data.buffer = socket.data.buffer.slice(newline + 1);
+            if (line.trim()) {
+              socket.write(`${JSON.stringify(this.handleLine(line))}\n`);
+            }
+          }
+        },
+      },
+    });
+    chmodSync(this.path, 0o600);
+    return this.path;
+  }
+
+  stop(): void {
+    this.listener?.stop(true);
+    this.listener = null;
+    rmSync(this.path, { force: true });
+  }
+
+  /**
+   * Run one JSON command line
+   */
+  handleLine(line: string): ControlReply {
+    let command: ControlCommand | null = null;
+    try {
+      command = toControlCommand(JSON.parse(line));
+    } catch {
+      // Not JSON - reported below
+    }
+    if (!command) {
+      return { ok: false, message: `Invalid command ${line.trim()}` };
+    }
+
+    const reply = this.options.control.apply(command);
+    this.options.onLog?.(`[CONTROL] ${command.type}: ${reply.message}`);
+    return reply;
+  }
+}
+
+/**
+ * Send one command to a runner's control socket and wait for its reply
+ */
+export function sendControlCommand(
+  path: string,
+  command: ControlCommand,
+  timeoutMs = CLIENT_TIMEOUT_MS
+): Promise<ControlReply> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      finish();
+    };
+    const timer = setTimeout(
+      () => settle(() => reject(new Error(`No reply from ${path} within ${timeoutMs}ms`))),
+      timeoutMs
+    );
+
+    Bun.connect({
+      unix: path,
+      socket: {
+        open: (socket) => {
+          socket.write(`${JSON.stringify(command)}\n`);
+        },
+        data: (socket, chunk) => {
+          buffer += chunk.toString();
+          const newline = buffer.indexOf("\n");
+          if (newline === -1) return;
+          try {
+            const reply = JSON.parse(buffer.slice(0, newline)) as ControlReply;
+            settle(() => resolve(reply));
+          } catch (error) {
+            settle(() => reject(error));
+          }
+          socket.end();
+        },
+        close: () => settle(() => reject(new Error(`${path} closed without a reply`))),
+        error: (_socket, error) => settle(() => reject(error)),
+      },
+    }).catch((error) => settle(() => reject(error)));
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Run Control - Pause, resume, stop, skip and model commands for a running loop
+ * Fed by the ntfy control topic (ntfy-control.ts) and the control socket (control-socket.ts);
+ * read by runIterations() between iterations
+ */
+
+import type { ControlCommand, ControlReply, Model, RunControl } from "./types";
+import { MODELS } from "./types";
+import { readStatus } from "./status";
+
+// AIDEV-NOTE: Commands never interrupt Claude mid-iteration - a half-finished iteration
+// leaves half-edited stories behind. pause/stop take effect before the next iteration
+// starts; skip and model apply to the next story pick; retry only cuts a cooldown short.
+// A stopped run's checkpoint is marked interrupted, so `ralph --resume` picks it up again.
+
+export class RunController implements RunControl {
+  paused = false;
+  stopRequested = false;
+  model: Model | null = null;
+  verbose: boolean;
+  private readonly skipped = new Set<string>();
+  private resumeWaiters: (() => void)[] = [];
+  private endCooldown: (() => void) | null = null;
+
+  constructor(options: { verbose?: boolean } = {}) {
+    this.verbose = options.verbose ?? false;
+  }
+
+  get skippedStories(): string[] {
+    return [...this.skipped];
+  }
+
+  apply(command: ControlCommand): ControlReply {
+    switch (command.type) {
+      case "pause":
+        if (this.paused) return { ok: true, message: "Already paused" };
+        this.paused = true;
+        return { ok: true, message: "Pausing after the current iteration" };
+      case "resume":
+        if (!this.paused) return { ok: true, message: "Not paused" };
+        this.paused = false;
+        this.wake();
+        return { ok: true, message: "Resumed" };
+      case "stop":
+        this.stopRequested = true;
+        this.wake();
+        this.endCooldown?.();
+        return { ok: true, message: "Stopping after the current iteration (continue later with ralph --resume)" };
+      case "skip": {
+        const storyId = command.storyId ?? readStatus()?.storyId;
+        if (!storyId) return { ok: false, message: "No current story to skip - name one: skip <story>" };
+        this.skipped.add(storyId);
+        return { ok: true, message: `Skipping ${storyId} for the rest of this run` };
+      }
+      case "model":
+        this.model = command.model;
+        return {
+          ok: true,
+          message: command.model ? `Using ${command.model} from the next iteration` : "Back to per-story model routing",
+        };
+      case "retry":
+        if (!this.endCooldown) return { ok: false, message: "Not waiting on a retry cooldown" };
+        this.endCooldown();
+        return { ok: true, message: "Retrying now" };
+      case "verbose":
+        this.verbose = !this.verbose;
+        return { ok: true, message: `Verbose logging ${this.verbose ? "on" : "off"}` };
+      case "status":
+        return { ok: true, message: describeRunStatus(this) };
+    }
+  }
+
+  waitUntilResumed(): Promise<void> {
+    if (!this.paused || this.stopRequested) return Promise.resolve();
+    return new Promise((resolve) => this.resumeWaiters.push(resolve));
+  }
+
+  cooldown(ms: number): Promise<void> {
+    if (this.stopRequested) return Promise.resolve();
+    return new Promise((resolve) => {
+      const end = () => {
+        clearTimeout(timer);
+        this.endCooldown = null;
+        resolve();
+      };
+      const timer = setTimeout(end, ms);
+      this.endCooldown = end;
+    });
+  }
+
+  private wake(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+/**
+ * Parse "pause", "skip US-003", "model opus", ... (null when not a command)
+ */
+export function parseControlCommand(text: string): ControlCommand | null {
+  const [name, arg, ...rest] = text.trim().split(/\s+/);
+  if (rest.length > 0) return null;
+
+  switch (name?.toLowerCase()) {
+    case "pause":
+    case "resume":
+    case "retry":
+    case "verbose":
+    case "status":
+      return arg === undefined
+        ? { type: name.toLowerCase() as "pause" | "resume" | "retry" | "verbose" | "status" }
+        : null;
+    case "stop":
+    case "stop-after-iteration":
+      return arg === undefined ? { type: "stop" } : null;
+    case "skip":
+      return { type: "skip", storyId: arg };
+    case "model":
+      if (arg === "auto") return { type: "model", model: null };
+      return MODELS.includes(arg as Model) ? { type: "model", model: arg as Model } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a command sent as JSON, e.g. {"type": "skip", "storyId": "US-003"} (null when invalid)
+ */
+export function toControlCommand(value: unknown): ControlCommand | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { type, storyId, model } = value as Record<string, unknown>;
+
+  switch (type) {
+    case "pause":
+    case "resume":
+    case "stop":
+    case "retry":
+    case "verbose":
+    case "status":
+      return { type };
+    case "skip":
+      return storyId === undefined || typeof storyId === "string" ? { type, storyId } : null;
+    case "model":
+      return model === null || MODELS.includes(model as Model) ? { type, model: model as Model | null } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line run status for a "status" reply
+ */
+export function describeRunStatus(control: RunControl): string {
+  const status = readStatus();
+  const parts = status
+    ? [
+        `Iteration ${status.iteration}`,
+        status.storyId || null,
+        status.model ?? null,
+        control.paused ? "paused" : status.state,
+        status.cost !== undefined ? `$${status.cost.toFixed(2)}` : null,
+      ]
+    : ["Starting"];
+
+  if (control.stopRequested) parts.push("stopping after this iteration");
+  if (control.model) parts.push(`model ${control.model}`);
+  if (control.skippedStories.length > 0) parts.push(`skipping ${control.skippedStories.join(", ")}`);
+  return parts.filter(Boolean).join(" · ");
+}
@@ -0,0 +1,237 @@
+/**
+ * Cost Tracking - Token usage and cost ledger for runner iterations
+ * The one costs.jsonl implementation: bun/core/costs.ts re-exports it for the zsh CLI
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, statSync } from "fs";
+import { basename, dirname, join } from "path";
+import { homedir } from "os";
+import type { Model, TokenUsage } from "./types";
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Cost log entry structure (one JSON object per line in costs.jsonl)
+export interface CostEntry {
+  timestamp: string;
+  storyId: string;
+  model: Model;
+  taskType: string;
+  durationSeconds: number;
+  status: "success" | "blocked" | "error";
+  project?: string;
+  runId?: string;
+  sessionId?: string;
+  tokens?: TokenUsage;
+  estimatedCost?: number;
+}
+
+// Default pricing per million tokens
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  haiku: { input: 1, output: 5 },
+  sonnet: { input: 3, output: 15 },
+  opus: { input: 15, output: 75 },
+  "gemini-flash": { input: 0.075, output: 0.30 },
+  "gemini-flash-lite": { input: 0.075, output: 0.30 },
+  "gemini-3-flash": { input: 0.075, output: 0.30 },
+  "gemini-pro": { input: 1.25, output: 5 },
+  kiro: { input: 0, output: 0 }, // Credit-based
+  ollama: { input: 0, output: 0 }, // Local
+};
+
+// Cache pricing (per million tokens)
+const CACHE_PRICING: Record<string, { create: number; read: number }> = {
+  haiku: { create: 1.25, read: 0.10 },
+  sonnet: { create: 3.75, read: 0.30 },
+  opus: { create: 18.75, read: 1.50 },
+};
+
+export const RALPH_COSTS_FILE = join(homedir(), ".config", "ralphtools", "costs.jsonl");
+
+/**
+ * Calculate cost in USD for a given token usage
+ */
+export function calculateCost(
+  model: Model | string,
+  tokens: TokenUsage,
+  pricing?: Record<string, ModelPricing>
+): number {
+  const modelPricing = pricing?.[model] ?? DEFAULT_PRICING[model] ?? DEFAULT_PRICING.sonnet;
+  const cachePricing = CACHE_PRICING[model] ?? { create: 0, read: 0 };
+
+  // Convert from per-million to per-token
+  const inputCost = (tokens.input / 1_000_000) * modelPricing.input;
+  const outputCost = (tokens.output / 1_000_000) * modelPricing.output;
+  const cacheCreateCost = ((tokens.cacheCreate ?? 0) / 1_000_000) * cachePricing.create;
+  const cacheReadCost = ((tokens.cacheRead ?? 0) / 1_000_000) * cachePricing.read;
+
+  return inputCost + outputCost + cacheCreateCost + cacheReadCost;
+}
+
+/**
+ * Convert an Anthropic API usage block into TokenUsage
+ */
+export function toTokenUsage(usage: Record<string, number | undefined>): TokenUsage {
+  return {
+    input: usage.input_tokens ?? 0,
+    output: usage.output_tokens ?? 0,
+    cacheCreate: usage.cache_creation_input_tokens ?? 0,
+    cacheRead: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Parse token usage from Claude's JSON / stream-json output
+ * The final "result" message carries the session total; otherwise per-message usage is summed.
+ */
+export function parseUsageFromOutput(stdout: string): TokenUsage | null {
+  let total: TokenUsage | null = null;
+  let summed: TokenUsage | null = null;
+
+  for (const line of stdout.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) continue;
+
+    try {
+      const data = JSON.parse(trimmed);
+      if (data?.type === "result" && data.usage) {
+        total = toTokenUsage(data.usage);
+      } else if (data?.message?.usage) {
+        const usage = toTokenUsage(data.message.usage);
+        summed = summed ? addTokenUsage(summed, usage) : usage;
+      }
+    } catch {
+      // Skip non-JSON output lines
+    }
+  }
+
+  return total ?? summed;
+}
+
+/**
+ * Add two token usage blocks together
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cacheCreate: (a.cacheCreate ?? 0) + (b.cacheCreate ?? 0),
+    cacheRead: (a.cacheRead ?? 0) + (b.cacheRead ?? 0),
+  };
+}
+
+export const CLAUDE_PROJECTS_DIR = join(homedir(), ".claude", "projects");
+
+// Where Claude keeps a project's session files
+// e.g., /Users/foo/project -> ~/.claude/projects/-Users-foo-project
+function sessionDir(projectPath: string, projectsDir: string): string {
+  return join(projectsDir, projectPath.replace(/\//g, "-"));
+}
+
+/**
+ * The newest Claude session in a project that was written to since sinceMs
+ * For output that carries no session ID (plain text output, or a run that died early)
+ */
+export function findRecentSessionId(
+  projectPath: string,
+  sinceMs: number,
+  projectsDir = CLAUDE_PROJECTS_DIR
+): string | null {
+  const jsonlDir = sessionDir(projectPath, projectsDir);
+  if (!existsSync(jsonlDir)) {
+    return null;
+  }
+
+  try {
+    const newest = readdirSync(jsonlDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => ({ file: f, mtimeMs: statSync(join(jsonlDir, f)).mtimeMs }))
+      .filter((session) => session.mtimeMs >= sinceMs)
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)[0];
+    return newest ? basename(newest.file, ".jsonl") : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get token usage from Claude's JSONL session files
+ * Returns null when the session can't be found
+ */
+export function getSessionTokens(
+  sessionId: string,
+  projectPath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR
+): TokenUsage | null {
+  const jsonlDir = sessionDir(projectPath, projectsDir);
+
+  if (!existsSync(jsonlDir)) {
+    return null;
+  }
+
+  let tokens: TokenUsage | null = null;
+
+  try {
+    const files = readdirSync(jsonlDir).filter((f) => f.endsWith(".jsonl"));
+    for (const file of files) {
+      const content = readFileSync(join(jsonlDir, file), "utf-8");
+      const lines = content
+        .split("\n")
+        .filter((line) => line.includes(sessionId) && line.includes('"usage"'));
+
+      for (const line of lines) {
+        try {
+          const usage = JSON.parse(line).message?.usage;
+          if (usage) {
+            tokens = tokens ? addTokenUsage(tokens, toTokenUsage(usage)) : toTokenUsage(usage);
+          }
+        } catch {
+          // Skip malformed lines
+        }
+      }
+    }
+  } catch {
+    // Directory read error
+  }
+
+  return tokens;
+}
+
+/**
+ * Append a cost entry to the costs ledger
+ */
+export function logCost(entry: CostEntry, costsPath?: string): void {
+  const filePath = costsPath ?? RALPH_COSTS_FILE;
+  const dir = dirname(filePath);
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  appendFileSync(filePath, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Read all cost entries from the costs ledger
+ */
+export function readCosts(costsPath?: string): CostEntry[] {
+  const filePath = costsPath ?? RALPH_COSTS_FILE;
+
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  return readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        return JSON.parse(line) as CostEntry;
+      } catch {
+        return null;
+      }
+    })
+    .filter((entry): entry is CostEntry => entry !== null);
+}
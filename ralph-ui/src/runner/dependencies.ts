@@ -0,0 +1,151 @@
+/**
+ * Story Dependencies - Dependency graph over storyOrder for next-story selection
+ * Replaces "nextStory = pending[0]" everywhere the runner picks a story
+ */
+
+import type { PRDIndex, Story, StoryPriority } from "./types";
+import { readIndex, readStory } from "./prd";
+
+// AIDEV-NOTE: Selection order is: dependencies satisfied -> index.pinnedStory -> priority -> storyOrder position.
+// A dependency counts as satisfied when it is in index.completed or its story has passes=true.
+
+// Lower rank runs first; stories without a priority rank as "medium"
+const PRIORITY_RANK: Record<StoryPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export type DependencyIssue =
+  | { type: "missing"; storyId: string; dependencyId: string }
+  | { type: "cycle"; cycle: string[] };
+
+// Load every story referenced by the index (storyOrder + pending + blocked + completed)
+function loadStories(prdJsonDir: string, index: PRDIndex): Map<string, Story> {
+  const ids = new Set([...index.storyOrder, ...index.pending, ...index.blocked, ...(index.completed ?? [])]);
+  const stories = new Map<string, Story>();
+  for (const id of ids) {
+    const story = readStory(prdJsonDir, id);
+    if (story) stories.set(id, story);
+  }
+  return stories;
+}
+
+/**
+ * Dependencies of a story that are not done yet
+ */
+export function getUnmetDependencies(story: Story, index: PRDIndex, stories: Map<string, Story>): string[] {
+  const completed = new Set(index.completed ?? []);
+  return (story.dependencies ?? []).filter((dep) => !completed.has(dep) && !stories.get(dep)?.passes);
+}
+
+/**
+ * Dependencies of a story that are not done yet, read from prd-json/
+ */
+export function getUnsatisfiedDependencies(prdJsonDir: string, story: Story): string[] {
+  const index = readIndex(prdJsonDir) ?? { storyOrder: [], pending: [], blocked: [] };
+  const stories = new Map<string, Story>();
+  for (const dep of story.dependencies ?? []) {
+    const depStory = readStory(prdJsonDir, dep);
+    if (depStory) stories.set(dep, depStory);
+  }
+  return getUnmetDependencies(story, index, stories);
+}
+
+export function areDependenciesSatisfied(prdJsonDir: string, story: Story): boolean {
+  return getUnsatisfiedDependencies(prdJsonDir, story).length === 0;
+}
+
+/**
+ * Pending stories whose dependencies are met, best first (pinned, priority, then storyOrder position)
+ * Stories with blockedBy are included - the runner auto-blocks or clears them when picked.
+ */
+export function getReadyStories(prdJsonDir: string, index: PRDIndex, exclude: Set<string> = new Set()): Story[] {
+  return rankReadyStories(index, loadStories(prdJsonDir, index), exclude);
+}
+
+/**
+ * getReadyStories() over stories already in memory (used by the PRD doctor)
+ */
+export function rankReadyStories(
+  index: PRDIndex,
+  stories: Map<string, Story>,
+  exclude: Set<string> = new Set()
+): Story[] {
+  const position = (id: string) => {
+    const pos = index.storyOrder.indexOf(id);
+    return pos === -1 ? index.storyOrder.length + index.pending.indexOf(id) : pos;
+  };
+  const rank = (story: Story) => PRIORITY_RANK[story.priority ?? "medium"] ?? PRIORITY_RANK.medium;
+  const pinned = (story: Story) => (story.id === index.pinnedStory ? 0 : 1);
+
+  return index.pending
+    .filter((id) => !exclude.has(id))
+    .map((id) => stories.get(id))
+    .filter((story): story is Story => !!story)
+    .filter((story) => getUnmetDependencies(story, index, stories).length === 0)
+    .sort((a, b) => pinned(a) - pinned(b) || rank(a) - rank(b) || position(a.id) - position(b.id));
+}
+
+/**
+ * The story the runner should work on next (undefined when nothing is ready)
+ * Stories in skip are only picked when nothing else is ready
+ */
+export function computeNextStory(prdJsonDir: string, index: PRDIndex, skip: Set<string> = new Set()): string | undefined {
+  const ready = getReadyStories(prdJsonDir, index);
+  return (ready.find((story) => !skip.has(story.id)) ?? ready[0])?.id;
+}
+
+/**
+ * Find dependency IDs that don't exist and dependency cycles
+ */
+export function validateDependencies(prdJsonDir: string, index: PRDIndex): DependencyIssue[] {
+  const stories = loadStories(prdJsonDir, index);
+  const completed = new Set(index.completed ?? []);
+  const issues: DependencyIssue[] = [];
+
+  for (const story of stories.values()) {
+    for (const dep of story.dependencies ?? []) {
+      if (!stories.has(dep) && !completed.has(dep)) {
+        issues.push({ type: "missing", storyId: story.id, dependencyId: dep });
+      }
+    }
+  }
+
+  // Depth-first search; a back edge to a node on the stack closes a cycle
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const dep of stories.get(id)?.dependencies ?? []) {
+      if (!stories.has(dep)) continue;
+      if (state.get(dep) === "visiting") {
+        issues.push({ type: "cycle", cycle: [...stack.slice(stack.indexOf(dep)), dep] });
+      } else if (!state.has(dep)) {
+        visit(dep);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of stories.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return issues;
+}
+
+/**
+ * Human-readable description of a dependency issue
+ */
+export function describeDependencyIssue(issue: DependencyIssue): string {
+  return issue.type === "missing"
+    ? `${issue.storyId} depends on unknown story ${issue.dependencyId}`
+    : `Dependency cycle: ${issue.cycle.join(" -> ")}`;
+}
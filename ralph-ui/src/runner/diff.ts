@@ -0,0 +1,62 @@
+/**
+ * Line Diffs - Show what a PRD repair or update queue changes
+ * Used by `ralph prd doctor` and `ralph prd apply --dry-run`
+ */
+
+export interface FileDiff {
+  file: string; // Relative to prd-json/
+  lines: string[]; // Unified-style lines: " ", "-" or "+" prefixed, "..." between hunks
+}
+
+const DIFF_CONTEXT = 2;
+
+/**
+ * LCS line diff with DIFF_CONTEXT lines of context around each change
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push(` ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push(`-${a[i++]}`);
+    } else {
+      ops.push(`+${b[j++]}`);
+    }
+  }
+
+  const keep = ops.map((op, n) =>
+    ops.slice(Math.max(0, n - DIFF_CONTEXT), n + DIFF_CONTEXT + 1).some((near) => !near.startsWith(" "))
+  );
+  const lines: string[] = [];
+  ops.forEach((op, n) => {
+    if (keep[n]) {
+      if (n > 0 && !keep[n - 1] && lines.length > 0) lines.push("...");
+      lines.push(op);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Render diffs as unified-style blocks, one per file
+ */
+export function formatFileDiffs(diffs: FileDiff[]): string[] {
+  const lines: string[] = [];
+  for (const diff of diffs) {
+    lines.push("", `--- ${diff.file}`, `+++ ${diff.file}`, ...diff.lines);
+  }
+  return lines;
+}
@@ -0,0 +1,419 @@
+/**
+ * PRD Doctor - Consistency checks and repairs for prd-json/
+ * Backs `ralph prd doctor [--fix]`
+ */
+
+import { existsSync, readdirSync } from "fs";
+import { join } from "path";
+import type { PRDIndex, PRDIndexStats, Story } from "./types";
+import { computeIndexStats, readIndex, withIndexLock, writeIndex, writeStory } from "./prd";
+import { rankReadyStories } from "./dependencies";
+import { readValidatedJson, SchemaValidationError } from "./schema";
+import { diffLines, formatFileDiffs, type FileDiff } from "./diff";
+
+export type { FileDiff };
+
+// AIDEV-NOTE: Checks and repairs are one pass over in-memory copies of index.json and
+// the story files - every check records an issue and applies its fix to the copies,
+// so later checks see the repaired state (e.g. nextStory is computed after the lists
+// are fixed). Without --fix the copies are diffed and thrown away.
+
+export type PRDIssueType =
+  | "missing_index"
+  | "invalid_index"
+  | "unreadable_story"
+  | "duplicate_entry"
+  | "passes_with_unchecked"
+  | "missing_story_file"
+  | "orphan_story_file"
+  | "missing_status"
+  | "completed_still_listed"
+  | "pending_and_blocked"
+  | "unknown_blocker"
+  | "not_in_story_order"
+  | "stale_next_story"
+  | "stats_mismatch";
+
+export interface PRDIssue {
+  type: PRDIssueType;
+  storyId?: string;
+  message: string;
+  fix?: string; // What --fix does about it (undefined: needs a human)
+}
+
+export interface DoctorReport {
+  issues: PRDIssue[];
+  diffs: FileDiff[];
+  fixed: boolean; // Changes were written to disk
+}
+
+// blockedBy is free text ("Needs API key") unless it looks like a story ID
+const STORY_ID_PATTERN = /^[A-Z][A-Z0-9]*-\d+[a-z]?$/;
+
+interface PRDState {
+  index: PRDIndex;
+  stories: Map<string, Story>;
+  changedStories: Set<string>;
+  issues: PRDIssue[];
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function loadStoryFiles(prdJsonDir: string, issues: PRDIssue[]): Map<string, Story> {
+  const stories = new Map<string, Story>();
+  const storiesDir = join(prdJsonDir, "stories");
+  if (!existsSync(storiesDir)) return stories;
+
+  for (const file of readdirSync(storiesDir).filter((f) => f.endsWith(".json")).sort()) {
+    const id = file.slice(0, -".json".length);
+    try {
+      stories.set(id, readValidatedJson<Story>(join(storiesDir, file), "story"));
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      issues.push({ type: "unreadable_story", storyId: id, message: error.message });
+    }
+  }
+  return stories;
+}
+
+function hasUncheckedCriteria(story: Story): boolean {
+  return (story.acceptanceCriteria ?? []).some((c) => !c.checked);
+}
+
+function isDone(story: Story): boolean {
+  return !!story.passes && !hasUncheckedCriteria(story);
+}
+
+function remove(list: string[], id: string): string[] {
+  return list.filter((item) => item !== id);
+}
+
+function addUnique(list: string[], id: string): void {
+  if (!list.includes(id)) list.push(id);
+}
+
+// Where a story belongs according to its own file
+function statusFromStory(story: Story): "completed" | "blocked" | "pending" {
+  if (isDone(story)) return "completed";
+  return story.blockedBy ? "blocked" : "pending";
+}
+
+function placeStory(index: PRDIndex, story: Story): string {
+  const status = statusFromStory(story);
+  if (status === "completed") {
+    index.completed = index.completed ?? [];
+    addUnique(index.completed, story.id);
+  } else {
+    addUnique(index[status], story.id);
+  }
+  return status;
+}
+
+function checkDuplicates(state: PRDState): void {
+  const { index } = state;
+  for (const list of ["storyOrder", "pending", "blocked", "completed"] as const) {
+    const ids = index[list];
+    if (!ids) continue;
+    const seen = new Set<string>();
+    for (const id of ids) {
+      if (seen.has(id)) {
+        state.issues.push({
+          type: "duplicate_entry",
+          storyId: id,
+          message: `${id} is listed more than once in ${list}`,
+          fix: "keep the first entry",
+        });
+      }
+      seen.add(id);
+    }
+    index[list] = [...seen];
+  }
+}
+
+function checkPassesWithUnchecked(state: PRDState): void {
+  const { index } = state;
+  for (const story of state.stories.values()) {
+    if (!story.passes || !hasUncheckedCriteria(story)) continue;
+    const unchecked = story.acceptanceCriteria.filter((c) => !c.checked).length;
+    state.issues.push({
+      type: "passes_with_unchecked",
+      storyId: story.id,
+      message: `${story.id} has passes:true but ${unchecked} unchecked criteria`,
+      fix: "set passes:false and queue it again",
+    });
+    story.passes = false;
+    state.changedStories.add(story.id);
+    if (index.completed?.includes(story.id)) {
+      index.completed = remove(index.completed, story.id);
+      if (!index.pending.includes(story.id) && !index.blocked.includes(story.id)) {
+        addUnique(story.blockedBy ? index.blocked : index.pending, story.id);
+      }
+    }
+  }
+}
+
+function checkMissingFiles(state: PRDState): void {
+  const { index, stories } = state;
+  const completed = new Set(index.completed ?? []);
+  // Completed stories may have been archived - only active stories need a file
+  const active = [...new Set([...index.pending, ...index.blocked, ...index.storyOrder])];
+  for (const id of active) {
+    if (stories.has(id) || completed.has(id)) continue;
+    if (state.issues.some((i) => i.type === "unreadable_story" && i.storyId === id)) continue;
+    state.issues.push({
+      type: "missing_story_file",
+      storyId: id,
+      message: `${id} is in index.json but stories/${id}.json does not exist`,
+      fix: "remove it from index.json",
+    });
+    index.pending = remove(index.pending, id);
+    index.blocked = remove(index.blocked, id);
+    index.storyOrder = remove(index.storyOrder, id);
+  }
+}
+
+function checkUnlisted(state: PRDState): void {
+  const { index } = state;
+  for (const story of state.stories.values()) {
+    const inOrder = index.storyOrder.includes(story.id);
+    const hasStatus =
+      index.pending.includes(story.id) ||
+      index.blocked.includes(story.id) ||
+      !!index.completed?.includes(story.id);
+    // The agent protocol finishes a story by removing it from pending, not by adding it to completed[]
+    if (hasStatus || (inOrder && isDone(story))) continue;
+
+    const status = placeStory(index, story);
+    if (!inOrder) index.storyOrder.push(story.id);
+    state.issues.push(
+      inOrder
+        ? {
+            type: "missing_status",
+            storyId: story.id,
+            message: `${story.id} is in storyOrder but not in pending, blocked or completed`,
+            fix: `add it to ${status}`,
+          }
+        : {
+            type: "orphan_story_file",
+            storyId: story.id,
+            message: `stories/${story.id}.json is not referenced by index.json`,
+            fix: `add it to storyOrder and ${status}`,
+          }
+    );
+  }
+}
+
+function checkCompletedStillListed(state: PRDState): void {
+  const { index, stories } = state;
+  for (const id of [...index.pending, ...index.blocked]) {
+    const story = stories.get(id);
+    const recorded = !!index.completed?.includes(id);
+    if (!recorded && !(story && isDone(story))) continue;
+
+    const list = index.pending.includes(id) ? "pending" : "blocked";
+    state.issues.push({
+      type: "completed_still_listed",
+      storyId: id,
+      message: recorded ? `${id} is completed but still in ${list}` : `${id} passes but is still in ${list}`,
+      fix: `move it from ${list} to completed`,
+    });
+    index.pending = remove(index.pending, id);
+    index.blocked = remove(index.blocked, id);
+    index.completed = index.completed ?? [];
+    addUnique(index.completed, id);
+  }
+}
+
+function checkPendingAndBlocked(state: PRDState): void {
+  const { index, stories } = state;
+  for (const id of index.pending.filter((id) => index.blocked.includes(id))) {
+    const blocked = !!stories.get(id)?.blockedBy;
+    state.issues.push({
+      type: "pending_and_blocked",
+      storyId: id,
+      message: `${id} is in both pending and blocked`,
+      fix: blocked ? "keep it in blocked (blockedBy is set)" : "keep it in pending (no blockedBy)",
+    });
+    if (blocked) {
+      index.pending = remove(index.pending, id);
+    } else {
+      index.blocked = remove(index.blocked, id);
+    }
+  }
+}
+
+function checkBlockers(state: PRDState): void {
+  const { index, stories } = state;
+  const completed = new Set(index.completed ?? []);
+  for (const story of stories.values()) {
+    const blocker = story.blockedBy?.trim();
+    if (!blocker || !STORY_ID_PATTERN.test(blocker)) continue;
+    if (stories.has(blocker) || completed.has(blocker)) continue;
+
+    state.issues.push({
+      type: "unknown_blocker",
+      storyId: story.id,
+      message: `${story.id} is blocked by ${blocker}, which does not exist`,
+      fix: "clear blockedBy and move it to pending",
+    });
+    delete story.blockedBy;
+    state.changedStories.add(story.id);
+    if (index.blocked.includes(story.id)) {
+      index.blocked = remove(index.blocked, story.id);
+      addUnique(index.pending, story.id);
+    }
+  }
+}
+
+function checkStoryOrder(state: PRDState): void {
+  const { index } = state;
+  for (const id of [...index.pending, ...index.blocked, ...(index.completed ?? [])]) {
+    if (index.storyOrder.includes(id)) continue;
+    state.issues.push({
+      type: "not_in_story_order",
+      storyId: id,
+      message: `${id} is missing from storyOrder`,
+      fix: "append it to storyOrder",
+    });
+    index.storyOrder.push(id);
+  }
+}
+
+function checkNextStory(state: PRDState): void {
+  const { index } = state;
+  const expected = rankReadyStories(index, state.stories)[0]?.id;
+  if (index.nextStory === expected) return;
+
+  state.issues.push({
+    type: "stale_next_story",
+    storyId: index.nextStory,
+    message: `nextStory is ${index.nextStory ?? "unset"}, expected ${expected ?? "unset"}`,
+    fix: expected ? `set it to ${expected}` : "clear it",
+  });
+  if (expected) {
+    index.nextStory = expected;
+  } else {
+    delete index.nextStory;
+  }
+}
+
+function checkStats(state: PRDState): void {
+  const { index } = state;
+  if (!index.stats) return;
+
+  const expected = computeIndexStats(index);
+  const drifted = (Object.keys(expected) as (keyof PRDIndexStats)[]).filter((key) => index.stats![key] !== expected[key]);
+  if (drifted.length === 0) return;
+
+  state.issues.push({
+    type: "stats_mismatch",
+    message: `stats out of date: ${drifted.map((key) => `${key} ${index.stats![key]} → ${expected[key]}`).join(", ")}`,
+    fix: "recompute stats",
+  });
+  index.stats = expected;
+}
+
+// Longest-common-subsequence line diff, collapsed to hunks with a little context
+function serialize(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+function examine(prdJsonDir: string, fix: boolean): DoctorReport {
+  let original: PRDIndex | null;
+  try {
+    original = readIndex(prdJsonDir);
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) throw error;
+    return { issues: [{ type: "invalid_index", message: error.message }], diffs: [], fixed: false };
+  }
+  if (!original) {
+    return {
+      issues: [{ type: "missing_index", message: `${join(prdJsonDir, "index.json")} is missing` }],
+      diffs: [],
+      fixed: false,
+    };
+  }
+
+  const issues: PRDIssue[] = [];
+  const originalStories = loadStoryFiles(prdJsonDir, issues);
+  const state: PRDState = {
+    index: clone(original),
+    stories: new Map([...originalStories].map(([id, story]) => [id, clone(story)])),
+    changedStories: new Set(),
+    issues,
+  };
+
+  checkDuplicates(state);
+  checkPassesWithUnchecked(state);
+  checkMissingFiles(state);
+  checkUnlisted(state);
+  checkCompletedStillListed(state);
+  checkPendingAndBlocked(state);
+  checkBlockers(state);
+  checkStoryOrder(state);
+  checkNextStory(state);
+  checkStats(state);
+
+  const diffs: FileDiff[] = [];
+  for (const id of [...state.changedStories].sort()) {
+    diffs.push({
+      file: `stories/${id}.json`,
+      lines: diffLines(serialize(originalStories.get(id)), serialize(state.stories.get(id))),
+    });
+  }
+  const indexBefore = serialize(original);
+  const indexAfter = serialize(state.index);
+  if (indexBefore !== indexAfter) {
+    diffs.unshift({ file: "index.json", lines: diffLines(indexBefore, indexAfter) });
+  }
+
+  if (fix && diffs.length > 0) {
+    for (const id of state.changedStories) {
+      writeStory(prdJsonDir, state.stories.get(id)!);
+    }
+    writeIndex(prdJsonDir, state.index);
+  }
+
+  return { issues, diffs, fixed: fix && diffs.length > 0 };
+}
+
+/**
+ * Check prd-json/ for inconsistencies between index.json and the story files
+ * With fix=true the repairs are written (under the index lock).
+ */
+export function runDoctor(prdJsonDir: string, options: { fix?: boolean } = {}): DoctorReport {
+  if (!options.fix || !existsSync(join(prdJsonDir, "index.json"))) {
+    return examine(prdJsonDir, false);
+  }
+  return withIndexLock(prdJsonDir, () => examine(prdJsonDir, true));
+}
+
+/**
+ * Human-readable report for the CLI
+ */
+export function formatDoctorReport(report: DoctorReport, fix: boolean): string {
+  if (report.issues.length === 0) {
+    return "✅ prd-json is consistent";
+  }
+
+  const lines = [`🩺 Found ${report.issues.length} issue${report.issues.length === 1 ? "" : "s"}:`];
+  for (const issue of report.issues) {
+    lines.push(`  • ${issue.message}${issue.fix ? ` → ${issue.fix}` : " (fix by hand)"}`);
+  }
+
+  lines.push(...formatFileDiffs(report.diffs));
+
+  const manual = report.issues.filter((issue) => !issue.fix).length;
+  lines.push("");
+  if (fix) {
+    lines.push(report.fixed ? "🔧 Repairs written" : "Nothing to write");
+  } else if (report.diffs.length > 0) {
+    lines.push("Run `ralph prd doctor --fix` to apply these changes");
+  }
+  if (manual > 0) {
+    lines.push(`⚠️  ${manual} issue${manual === 1 ? " needs" : "s need"} a manual fix`);
+  }
+  return lines.join("\n");
+}
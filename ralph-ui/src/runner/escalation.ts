@@ -0,0 +1,53 @@
+/**
+ * Failed-Attempt Escalation - Stronger models, then auto-block, for stories that keep failing
+ * Driven by Story.failedAttempts, which the runner updates after every iteration
+ */
+
+import type { EscalationConfig, IterationVerdict, Model } from "./types";
+
+// AIDEV-NOTE: failedAttempts counts consecutive iterations that checked no criteria
+// (API errors that get retried don't count). Any progress, or unblocking the story,
+// resets it. The escalated model is derived from the count each iteration, so
+// nothing but the story file carries state between runs. Auto-blocking is opt-in:
+// a run never blocks stories unless escalation.maxFailedAttempts is set.
+
+// Default escalation ladder when escalation.ladder isn't configured
+export const DEFAULT_ESCALATION_LADDER: Record<string, Model> = {
+  haiku: "sonnet",
+  sonnet: "opus",
+};
+
+/**
+ * Get the model to use for a story with this many failed attempts
+ * Steps up the ladder once per escalateAfter failures; stays put at the top
+ */
+export function escalateModel(model: Model, failedAttempts: number, escalation: EscalationConfig = {}): Model {
+  const ladder = escalation.ladder ?? DEFAULT_ESCALATION_LADDER;
+  const steps = Math.floor(failedAttempts / Math.max(1, escalation.escalateAfter ?? 1));
+  const visited = new Set<string>([model]);
+
+  let current = model;
+  for (let i = 0; i < steps; i++) {
+    const next = ladder[current] as Model | undefined;
+    if (!next || visited.has(next)) break; // Top of the ladder (or a loop in it)
+    visited.add(next);
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Whether a story has failed often enough to be blocked (never when maxFailedAttempts isn't set)
+ */
+export function shouldAutoBlock(failedAttempts: number, escalation: EscalationConfig = {}): boolean {
+  const max = escalation.maxFailedAttempts ?? 0;
+  return max > 0 && failedAttempts >= max;
+}
+
+/**
+ * blockedBy text for a story blocked after repeated failures
+ */
+export function describeFailedAttempts(attempts: number, lastModel?: string, lastVerdict?: IterationVerdict): string {
+  const last = [lastModel, lastVerdict?.replace("_", " ")].filter(Boolean).join(", ");
+  return `Failed ${attempts} attempt${attempts === 1 ? "" : "s"} without progress${last ? ` (last: ${last})` : ""}`;
+}
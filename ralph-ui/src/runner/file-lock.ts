@@ -0,0 +1,208 @@
+/**
+ * File Locking - Atomic writes and a PID-based lock for prd-json/
+ * The runner, the parallel scheduler, the UI and Claude all touch index.json
+ */
+
+import { closeSync, linkSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync, writeSync } from "fs";
+
+// AIDEV-NOTE: Everything here is synchronous on purpose - the PRD helpers in prd.ts
+// are sync, and a sync critical section can't interleave with other runner work.
+// Locks are re-entrant within a process so completeStory() can call writeIndex() etc.
+// A stale lock is renamed aside before it is dropped, so two processes that both saw
+// it as stale can't delete the fresh lock the faster one created in its place.
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+export const DEFAULT_STALE_LOCK_MS = 30000; // PRD updates take milliseconds
+const RETRY_DELAY_MS = 25;
+
+export interface LockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+}
+
+export interface LockInfo {
+  pid: number;
+  createdAt: number;
+}
+
+export class LockTimeoutError extends Error {
+  constructor(
+    public readonly lockPath: string,
+    public readonly holderPid?: number
+  ) {
+    super(`Timed out waiting for ${lockPath}${holderPid ? ` (held by PID ${holderPid})` : ""}`);
+    this.name = "LockTimeoutError";
+  }
+}
+
+// Locks held by this process, with their re-entry depth
+const heldLocks = new Map<string, number>();
+
+/**
+ * Write a file via temp file + rename, so readers never see a partial file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmpPath, content);
+    renameSync(tmpPath, filePath);
+  } catch (error) {
+    try {
+      unlinkSync(tmpPath);
+    } catch {
+      // Temp file was never created
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check whether a process is still running
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function readLockInfo(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(readFileSync(lockPath, "utf-8")) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+// A lock is stale when its holder died, or it outlived any real PRD update
+function isStale(lockPath: string, info: LockInfo | null, staleMs: number): boolean {
+  if (!info || typeof info.pid !== "number") {
+    // Unreadable: possibly being written right now - only stale once it's old
+    try {
+      return Date.now() - statSync(lockPath).mtimeMs > staleMs;
+    } catch {
+      return true;
+    }
+  }
+  // Our own PID without an in-process hold is left over from a crashed run that reused the PID
+  if (info.pid === process.pid || !isProcessAlive(info.pid)) {
+    return true;
+  }
+  return Date.now() - info.createdAt > staleMs;
+}
+
+/**
+ * Remove a lock judged stale from `stale` (what was read from it)
+ * If the file was replaced by a live holder's lock in the meantime, that lock is put back
+ */
+export function removeStaleLock(lockPath: string, stale: LockInfo | null, staleMs = DEFAULT_STALE_LOCK_MS): void {
+  const asidePath = `${lockPath}.${process.pid}.stale`;
+  try {
+    renameSync(lockPath, asidePath);
+  } catch {
+    return; // Another process cleaned it up first
+  }
+
+  const moved = readLockInfo(asidePath);
+  const sameLock = moved?.pid === stale?.pid && moved?.createdAt === stale?.createdAt;
+  if (!sameLock && !isStale(asidePath, moved, staleMs)) {
+    try {
+      linkSync(asidePath, lockPath); // Fails if yet another lock was created meanwhile
+    } catch {
+      // That lock wins
+    }
+  }
+
+  try {
+    unlinkSync(asidePath);
+  } catch {
+    // Already removed
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function tryCreateLock(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx");
+    try {
+      writeSync(fd, JSON.stringify({ pid: process.pid, createdAt: Date.now() }));
+    } finally {
+      closeSync(fd);
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Acquire a lock file (blocking), removing it if its holder is gone
+ */
+export function acquireLock(lockPath: string, options: LockOptions = {}): void {
+  const held = heldLocks.get(lockPath);
+  if (held) {
+    heldLocks.set(lockPath, held + 1);
+    return;
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_LOCK_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryCreateLock(lockPath)) {
+    const info = readLockInfo(lockPath);
+    if (isStale(lockPath, info, staleMs)) {
+      removeStaleLock(lockPath, info, staleMs);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath, info?.pid);
+    }
+    sleepSync(RETRY_DELAY_MS);
+  }
+
+  heldLocks.set(lockPath, 1);
+}
+
+/**
+ * Release a lock acquired with acquireLock()
+ */
+export function releaseLock(lockPath: string): void {
+  const held = heldLocks.get(lockPath);
+  if (!held) return;
+
+  if (held > 1) {
+    heldLocks.set(lockPath, held - 1);
+    return;
+  }
+
+  heldLocks.delete(lockPath);
+  if (readLockInfo(lockPath)?.pid === process.pid) {
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Already removed
+    }
+  }
+}
+
+/**
+ * Run fn while holding the lock file
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T, options?: LockOptions): T {
+  acquireLock(lockPath, options);
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
@@ -3,17 +3,23 @@
  * Part of MP-006: Move iteration loop from zsh to TypeScript
  */
 
+import { basename, join } from "path";
 import type {
   RunnerConfig,
   IterationResult,
   RunnerState,
   Model,
   SpawnOptions,
+  Story,
+  IterationOptions,
+  RunCheckpoint,
+  CheckpointStatus,
+  StreamEvent,
 } from "./types";
 import { DEFAULT_TIMEOUT_MS } from "./types";
 import {
   readIndex,
-  getNextStory,
+  refreshNextStory,
   applyUpdateQueue,
   isComplete,
   isAllBlocked,
@@ -22,9 +28,27 @@ import {
   readStory,
   writeStory,
   writeIndex,
+  withIndexLock,
+  findInvalidPRDFiles,
+  updateFailedAttempts,
+  blockStory,
+  completeStory,
 } from "./prd";
-import { spawnClaude, analyzeResult } from "./claude";
+import { spawnClaude, analyzeResult, getCliForModel } from "./claude";
 import { spawnClaudePTY } from "./pty-claude";
+import { formatToolCalls, formatStreamEvent } from "./stream-json";
+import { captureStorySnapshot, listNewCommits, verifyIteration, describeVerification } from "./verify";
+import { escalateModel, shouldAutoBlock, describeFailedAttempts } from "./escalation";
+import {
+  createRunDir,
+  updateRunMetadata,
+  startIterationRecord,
+  finishIterationRecord,
+  type IterationRecord,
+} from "./archive";
+import { writeCheckpoint, readCheckpoint } from "./checkpoint";
+import { LogFileWriter } from "./pty/dual-output";
+import { stripAnsi } from "./pty/ansi";
 import {
   writeStatus,
   cleanupStatus,
@@ -34,6 +58,10 @@ import {
   setRetry,
   setInterrupted,
   setTerminated,
+  setBudgetExceeded,
+  setCost,
+  setPaused,
+  setControlSocket,
 } from "./status";
 import {
   detectError,
@@ -44,14 +72,36 @@ import {
   hasAllBlockedPromise,
 } from "./errors";
 import { buildIterationContext } from "./context";
+import { getModelForStory, describeModelChoice, extractTaskType, type ModelChoice } from "./models";
+import {
+  parseUsageFromOutput,
+  getSessionTokens,
+  findRecentSessionId,
+  calculateCost,
+  logCost,
+  readCosts,
+  type CostEntry,
+} from "./costs";
+import {
+  getBudgetSpend,
+  checkBudget,
+  downgradeModel,
+  describeViolation,
+  type BudgetSpend,
+  type BudgetViolation,
+} from "./budget";
 import {
   notifyIterationComplete,
   notifyPRDComplete,
-  notifyError,
   notifyRetry,
   notifyBlocked,
+  notifyBudget,
 } from "./ntfy";
+import { createRunNotifier } from "./notifiers";
+import { NtfyControlListener } from "./ntfy-control";
+import { ControlSocketServer } from "./control-socket";
 import { SessionContext } from "./session-context";
+import { computeNextStory, validateDependencies, describeDependencyIssue } from "./dependencies";
 
 // AIDEV-NOTE: This is the main iteration loop that replaces the 943-line loop in ralph.zsh
 // The state machine follows the design in docs.local/mp-006-design.md
@@ -81,18 +131,35 @@ export function createConfig(options: Partial<RunnerConfig>): RunnerConfig {
     iterations: options.iterations ?? DEFAULT_CONFIG.iterations!,
     gapSeconds: options.gapSeconds ?? DEFAULT_CONFIG.gapSeconds!,
     model: options.model ?? DEFAULT_CONFIG.model!,
+    modelOverride: options.modelOverride,
+    routing: options.routing,
+    pricing: options.pricing,
+    costsFile: options.costsFile,
+    runsDir: options.runsDir,
+    runDir: options.runDir,
+    runId: options.resume?.runId ?? options.runId ?? `run-${Date.now()}`,
+    resume: options.resume,
+    budget: options.budget,
+    escalation: options.escalation,
+    project: options.project,
+    parallel: options.parallel,
     notify: options.notify ?? DEFAULT_CONFIG.notify!,
     ntfyTopic: options.ntfyTopic,
+    notifiers: options.notifiers,
+    notificationRouting: options.notificationRouting,
+    control: options.control,
+    remoteControl: options.remoteControl,
     quiet: options.quiet ?? DEFAULT_CONFIG.quiet!,
     verbose: options.verbose ?? DEFAULT_CONFIG.verbose!,
     usePty: options.usePty,
     onOutput: options.onOutput,
     onStrippedOutput: options.onStrippedOutput,
+    onStreamEvent: options.onStreamEvent,
   };
 }
 
 // Sleep utility
-function sleep(ms: number): Promise<void> {
+export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
@@ -105,58 +172,139 @@ function log(config: RunnerConfig, message: string): void {
 
 // Verbose log utility
 function verbose(config: RunnerConfig, message: string): void {
-  if (config.verbose && !config.quiet) {
+  if ((config.control?.verbose ?? config.verbose) && !config.quiet) {
     console.log(`[verbose] ${message}`);
   }
 }
 
+// Pick the model for a story: smart routing from config.json, or config.model when no routing is set
+export function selectModel(config: RunnerConfig, story: Story): ModelChoice {
+  const routing = config.routing ?? { modelStrategy: "single" as const, defaultModel: config.model };
+  return getModelForStory(story, routing, config.modelOverride);
+}
+
+// Project name used in the cost ledger
+function projectName(config: RunnerConfig): string {
+  return config.project ?? basename(config.workingDir);
+}
+
+// Current spend from the cost ledger, and which budget limits it has reached
+// The per-story limit is only checked when a story is given
+export function evaluateBudget(
+  config: RunnerConfig,
+  storyId?: string
+): { spend: BudgetSpend; violations: BudgetViolation[] } {
+  const spend = getBudgetSpend(readCosts(config.costsFile), {
+    runId: config.runId!,
+    storyId,
+    project: projectName(config),
+  });
+  const violations = config.budget
+    ? checkBudget(config.budget, spend).filter((violation) => storyId !== undefined || violation.limit !== "story")
+    : [];
+  return { spend, violations };
+}
+
+// Schema-check the PRD files; returns an error result when one can't be trusted
+// (e.g. "acceptanceCritera" would otherwise read as a story with zero criteria)
+export function checkPRDFiles(config: RunnerConfig): IterationResult | null {
+  const problems = findInvalidPRDFiles(config.prdJsonDir);
+  if (problems.length === 0) {
+    return null;
+  }
+
+  for (const problem of problems) {
+    log(config, `[PRD] ${problem}`);
+  }
+  const error = `Invalid PRD file${problems.length === 1 ? "" : "s"}: ${problems.join("; ")}`;
+  setError(error);
+
+  return {
+    iteration: 0,
+    storyId: "",
+    success: false,
+    hasComplete: false,
+    hasBlocked: false,
+    durationMs: 0,
+    error,
+  };
+}
+
+// Validate the dependency graph; returns an error result when it can't be scheduled
+export function checkDependencies(config: RunnerConfig): IterationResult | null {
+  const index = readIndex(config.prdJsonDir);
+  const issues = index ? validateDependencies(config.prdJsonDir, index) : [];
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const messages = issues.map(describeDependencyIssue);
+  for (const message of messages) {
+    log(config, `[PRD] ${message}`);
+  }
+  setError(`Invalid story dependencies: ${messages.join("; ")}`);
+
+  return {
+    iteration: 0,
+    storyId: "",
+    success: false,
+    hasComplete: false,
+    hasBlocked: false,
+    durationMs: 0,
+    error: `Invalid story dependencies: ${messages.join("; ")}`,
+  };
+}
+
 // Startup scan: check all blocked stories and unblock if blocker is completed
-function scanAndUnblockStories(prdJsonDir: string): void {
-  const index = readIndex(prdJsonDir);
-  if (!index) return;
+export function scanAndUnblockStories(prdJsonDir: string): void {
+  withIndexLock(prdJsonDir, () => {
+    const index = readIndex(prdJsonDir);
+    if (!index) return;
 
-  const unblockedStories: string[] = [];
+    const unblockedStories: string[] = [];
   
-  for (const blockedStoryId of [...index.blocked]) {
-    const blockedStory = readStory(prdJsonDir, blockedStoryId);
-    if (!blockedStory || !blockedStory.blockedBy) continue;
-
-    // Check if the blocker story is completed
-    const blockerStory = readStory(prdJsonDir, blockedStory.blockedBy);
-    if (blockerStory && blockerStory.passes) {
-      // Remove blockedBy field from story
-      delete blockedStory.blockedBy;
-      writeStory(prdJsonDir, blockedStory);
-
-      // Move from blocked to pending
-      index.blocked = index.blocked.filter(id => id !== blockedStoryId);
-      index.pending.push(blockedStoryId);
+    for (const blockedStoryId of [...index.blocked]) {
+      const blockedStory = readStory(prdJsonDir, blockedStoryId);
+      if (!blockedStory || !blockedStory.blockedBy) continue;
+
+      // Check if the blocker story is completed
+      const blockerStory = readStory(prdJsonDir, blockedStory.blockedBy);
+      if (blockerStory && blockerStory.passes) {
+        // Remove blockedBy field from story
+        delete blockedStory.blockedBy;
+        writeStory(prdJsonDir, blockedStory);
+
+        // Move from blocked to pending
+        index.blocked = index.blocked.filter(id => id !== blockedStoryId);
+        index.pending.push(blockedStoryId);
       
-      // Update stats
-      index.stats.blocked = Math.max(0, index.stats.blocked - 1);
-      index.stats.pending++;
+        // Update stats
+        if (index.stats) {
+          index.stats.blocked = Math.max(0, index.stats.blocked - 1);
+          index.stats.pending++;
+        }
 
-      unblockedStories.push(blockedStoryId);
-      console.log(`[PRD] Startup scan: Auto-unblocked ${blockedStoryId} (blocker ${blockedStory.blockedBy} completed)`);
+        unblockedStories.push(blockedStoryId);
+        console.log(`[PRD] Startup scan: Auto-unblocked ${blockedStoryId} (blocker ${blockedStory.blockedBy} completed)`);
+      }
     }
-  }
 
-  if (unblockedStories.length > 0) {
-    // Set next story if pending was empty before
-    if (index.pending.length > 0 && !index.nextStory) {
-      index.nextStory = index.pending[0];
+    if (unblockedStories.length > 0) {
+      // Unblocked stories may be ready (or outrank the current next story)
+      index.nextStory = computeNextStory(prdJsonDir, index);
+
+      writeIndex(prdJsonDir, index);
+      console.log(`[PRD] Startup scan: Unblocked ${unblockedStories.length} stories`);
     }
-    
-    writeIndex(prdJsonDir, index);
-    console.log(`[PRD] Startup scan: Unblocked ${unblockedStories.length} stories`);
-  }
+  });
 }
 
 // Single iteration execution
 export async function runSingleIteration(
   config: RunnerConfig,
   iteration: number,
-  runStartTime?: number
+  runStartTime?: number,
+  options: IterationOptions = {}
 ): Promise<IterationResult> {
   const startTime = Date.now();
 
@@ -164,10 +312,13 @@ export async function runSingleIteration(
   const updateResult = applyUpdateQueue(config.prdJsonDir);
   if (updateResult.applied) {
     verbose(config, `Applied update queue: ${updateResult.changes.join(", ")}`);
+  } else if (updateResult.error) {
+    log(config, `[PRD] Update queue not applied: ${updateResult.error}${updateResult.failedPath ? ` (moved to ${basename(updateResult.failedPath)})` : ""}`);
   }
 
-  // Get next story
-  let story = getNextStory(config.prdJsonDir);
+  // Get next story from the dependency graph (or the one the parallel scheduler assigned)
+  const storyId = options.storyId ?? refreshNextStory(config.prdJsonDir, new Set(options.skipStories));
+  let story = storyId ? readStory(config.prdJsonDir, storyId) : null;
 
   if (!story) {
     // Check if complete or all blocked
@@ -201,14 +352,67 @@ export async function runSingleIteration(
       hasComplete: false,
       hasBlocked: false,
       durationMs: Date.now() - startTime,
-      error: "No story available",
+      error: "No story available (pending stories are waiting on unmet dependencies)",
     };
   }
 
+  // Per-story budget, checked against the story actually picked: "stop" blocks just
+  // this story, "warn" and "downgrade" let it run (the loop notifies once per story)
+  let budgetDowngrade = options.budgetDowngrade;
+  let budgetWarning: string | undefined;
+  const storyViolation = config.budget?.perStory !== undefined
+    ? evaluateBudget(config, story.id).violations.find((violation) => violation.limit === "story")
+    : undefined;
+  if (storyViolation) {
+    const action = config.budget!.action ?? "stop";
+    const reason = describeViolation(storyViolation);
+    if (action === "stop") {
+      blockStory(config.prdJsonDir, story.id, reason);
+      log(config, `[BUDGET] ${story.id}: ${reason} - blocked`);
+      return {
+        iteration,
+        storyId: story.id,
+        success: false,
+        hasComplete: false,
+        hasBlocked: true,
+        durationMs: Date.now() - startTime,
+        blockedReason: reason,
+      };
+    }
+    budgetWarning = reason;
+    budgetDowngrade ||= action === "downgrade";
+  }
+
+  // Route the story to a model; stories that keep failing move up the escalation
+  // ladder (explicit overrides stay put), and budget "downgrade" swaps in a cheaper one
+  let choice = selectModel(config, story);
+  if (story.failedAttempts && choice.reason !== "cli_override" && choice.reason !== "story_override") {
+    const stronger = escalateModel(choice.model, story.failedAttempts, config.escalation);
+    if (stronger !== choice.model) {
+      choice = { model: stronger, reason: "escalation" };
+    }
+  }
+  if (budgetDowngrade) {
+    const cheaper = downgradeModel(choice.model, config.budget?.downgrade);
+    if (cheaper !== choice.model) {
+      choice = { model: cheaper, reason: "budget_downgrade" };
+    }
+  }
+  if (options.modelOverride) {
+    choice = { model: options.modelOverride, reason: "remote_control" };
+  }
+  const { model, reason: modelReason } = choice;
+  verbose(config, `Model for ${story.id}: ${describeModelChoice(story.id, { model, reason: modelReason })}`);
+
   // Update status with model and start time
   setRunning(iteration, story.id, {
-    model: config.model,
+    model,
+    modelReason,
     startTime: runStartTime ?? startTime,
+    project: projectName(config),
+    workingDir: config.workingDir,
+    prdJsonDir: config.prdJsonDir,
+    runId: config.runId,
   });
 
   // Check if story is blocked (auto-unblock if blocker is completed)
@@ -226,90 +430,372 @@ export async function runSingleIteration(
         hasBlocked: true,
         durationMs: Date.now() - startTime,
         error: `Blocked: ${story.blockedBy}`,
+        model,
+        modelReason,
       };
     }
     // wasAutoBlocked=false means blocker completed, story was unblocked - continue execution
     // Re-read story to get updated state without blockedBy
-    story = getNextStory(config.prdJsonDir)!;
+    story = readStory(config.prdJsonDir, story.id)!;
   }
 
   // Build context and prompt for Claude
   const progress = getCriteriaProgress(story);
   const { systemContext, storyPrompt } = buildIterationContext(
     story.id,
-    config.model,
+    model,
     config.prdJsonDir,
     config.workingDir
   );
 
   // Spawn Claude with full context
   const spawnOptions: SpawnOptions = {
-    model: config.model,
+    model,
     prompt: storyPrompt,
     contextFile: systemContext, // Pass system context directly (not a file path)
     workingDir: config.workingDir,
     timeout: DEFAULT_TIMEOUT_MS,
   };
 
-  verbose(config, `Spawning Claude with model ${config.model}${config.usePty ? " (PTY)" : ""}`);
+  verbose(config, `Spawning Claude with model ${model}${config.usePty ? " (PTY)" : ""}`);
+  const before = captureStorySnapshot(config.prdJsonDir, config.workingDir, story.id);
+  const archive = await startArchive(config, {
+    iteration,
+    storyId: story.id,
+    model,
+    modelReason,
+    startedAt: new Date().toISOString(),
+    prompt: storyPrompt,
+    systemContext,
+  });
+  // Claude's stdout is stream-json, so its transcript (archive and live stream) is built
+  // from the parsed events: assistant text and one line per tool call. Other CLIs print text.
+  const streamsJson = getCliForModel(model) === "claude";
+  const writeTranscript = (text: string) => {
+    config.onStrippedOutput?.(text);
+    archive?.transcript.write(text);
+  };
+  const onStrippedData = (data: string) => {
+    if (!streamsJson) writeTranscript(data);
+  };
+  const onStreamEvent = (event: StreamEvent) => {
+    config.onStreamEvent?.(event);
+    const line = formatStreamEvent(event);
+    if (line !== null) writeTranscript(`${line}\n`);
+  };
 
   // Use PTY or regular spawning based on config
   const spawnResult = config.usePty
     ? await spawnClaudePTY(spawnOptions, {
         onData: config.onOutput,
-        onStrippedData: config.onStrippedOutput,
+        onStrippedData,
+        onStreamEvent,
       })
-    : await spawnClaude(spawnOptions);
+    : await spawnClaude(spawnOptions, {
+        onData: (data) => {
+          config.onOutput?.(data);
+          onStrippedData(stripAnsi(data));
+        },
+        onStreamEvent,
+      });
+  await archive?.transcript.close();
   const outcome = analyzeResult(spawnResult);
+  const { stream } = outcome;
 
   const durationMs = Date.now() - startTime;
 
-  // Check for completion signals in output
-  if (hasCompletePromise(spawnResult.stdout)) {
-    return {
-      iteration,
-      storyId: story.id,
-      success: true,
-      hasComplete: true,
-      hasBlocked: false,
-      durationMs,
-    };
+  // Token usage: the stream events first, then raw JSON output, then the session JSONL.
+  // Text output names no session - take the project's Claude session written this iteration.
+  const sessionId =
+    stream.sessionId ??
+    spawnResult.sessionId ??
+    (getCliForModel(model) === "claude" ? findRecentSessionId(config.workingDir, startTime) ?? undefined : undefined);
+  const tokens =
+    stream.tokens ??
+    parseUsageFromOutput(spawnResult.stdout) ??
+    (sessionId ? getSessionTokens(sessionId, config.workingDir) : null);
+
+  if (Object.keys(stream.toolCalls).length > 0) {
+    verbose(config, `Tools: ${formatToolCalls(stream.toolCalls)}`);
   }
 
-  if (hasAllBlockedPromise(spawnResult.stdout)) {
-    return {
-      iteration,
-      storyId: story.id,
-      success: false,
-      hasComplete: false,
-      hasBlocked: true,
-      durationMs,
-    };
+  // What actually changed: story file, index.json and git
+  const after = captureStorySnapshot(config.prdJsonDir, config.workingDir, story.id);
+  const verification = verifyIteration(before, after, listNewCommits(config.workingDir, before.head, after.head));
+  log(config, `[VERIFY] ${story.id}: ${describeVerification(verification)}`);
+
+  // The agent only removes a finished story from pending - record it in completed[]
+  // (and unblock its dependents) the way the runner's own completions are
+  if (verification.verdict === "completed" && !after.inCompleted) {
+    try {
+      completeStory(config.prdJsonDir, story.id, after.story?.completedBy ?? model);
+    } catch (error) {
+      log(config, `[PRD] Could not record ${story.id} as completed: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
-  // Handle errors
-  if (!spawnResult.success && outcome.errorType) {
-    const errorDesc = getErrorDescription(outcome.errorType);
-    return {
-      iteration,
-      storyId: story.id,
+  const base = {
+    iteration,
+    storyId: story.id,
+    durationMs,
+    model,
+    modelReason,
+    sessionId,
+    tokens: tokens ?? undefined,
+    estimatedCost: tokens ? calculateCost(model, tokens, config.pricing) : undefined,
+    verification,
+    toolCalls: stream.toolCalls,
+    events: spawnResult.events,
+    budgetWarning,
+  };
+
+  let result: IterationResult;
+
+  // Completion tags: Claude's own messages when the stream parsed, else anywhere in stdout
+  const promisedComplete = stream.result ? outcome.hasComplete : hasCompletePromise(spawnResult.stdout);
+  const promisedAllBlocked = stream.result ? outcome.hasAllBlocked : hasAllBlockedPromise(spawnResult.stdout);
+
+  if (promisedComplete) {
+    result = { ...base, success: true, hasComplete: true, hasBlocked: false };
+  } else if (promisedAllBlocked) {
+    result = { ...base, success: false, hasComplete: false, hasBlocked: true };
+  } else if (!outcome.success && outcome.errorType) {
+    // Handle errors
+    result = {
+      ...base,
       success: false,
       hasComplete: false,
       hasBlocked: false,
-      durationMs,
-      error: errorDesc,
+      error: getErrorDescription(outcome.errorType),
+    };
+  } else {
+    result = {
+      ...base,
+      success: outcome.success,
+      hasComplete: outcome.hasComplete,
+      hasBlocked: outcome.hasAllBlocked,
+      error: outcome.success
+        ? undefined
+        : spawnResult.stderr || (stream.result ? `Claude stopped: ${stream.result.subtype ?? "error"}` : undefined),
     };
   }
 
-  return {
-    iteration,
-    storyId: story.id,
-    success: spawnResult.success,
-    hasComplete: outcome.hasComplete,
-    hasBlocked: outcome.hasAllBlocked,
-    durationMs,
-    error: spawnResult.success ? undefined : spawnResult.stderr,
+  // A clean exit that left the story untouched (or contradictory) isn't a success
+  if (result.success && !result.hasComplete && (verification.verdict === "no_progress" || verification.verdict === "inconsistent")) {
+    result = { ...result, success: false, error: `Verification failed: ${describeVerification(verification)}` };
+  }
+
+  // Count attempts without criteria progress (retried API errors don't count)
+  const progressed = verification.verdict === "completed" || verification.criteriaChecked.length > 0;
+  const apiError = !outcome.success && outcome.errorType !== null;
+  if (after.story && !after.inBlocked && !apiError && !promisedAllBlocked) {
+    const failedAttempts = updateFailedAttempts(config.prdJsonDir, story.id, !progressed);
+    result = { ...result, failedAttempts };
+
+    if (!progressed && shouldAutoBlock(failedAttempts, config.escalation)) {
+      const reason = describeFailedAttempts(failedAttempts, model, verification.verdict);
+      blockStory(config.prdJsonDir, story.id, reason, {
+        type: "failed_attempts",
+        attempts: failedAttempts,
+        lastModel: model,
+        lastVerdict: verification.verdict,
+        blockedAt: new Date().toISOString(),
+      });
+      log(config, `[PRD] Auto-blocked ${story.id}: ${reason}`);
+      result = { ...result, hasBlocked: true, blockedReason: reason };
+    } else if (!progressed) {
+      log(config, `[PRD] ${story.id}: ${failedAttempts} attempt${failedAttempts === 1 ? "" : "s"} without progress`);
+    }
+  }
+
+  recordIterationCost(config, result);
+  if (archive) finishArchive(config, archive.record, result, spawnResult.exitCode, spawnResult.stderr);
+  return result;
+}
+
+// Write the iteration's record and open its transcript before Claude starts
+async function startArchive(
+  config: RunnerConfig,
+  record: Omit<IterationRecord, "attempt" | "status" | "transcript">
+): Promise<{ record: IterationRecord; transcript: LogFileWriter } | null> {
+  if (!config.runDir) return null;
+
+  try {
+    const started = startIterationRecord(config.runDir, record);
+    const transcript = new LogFileWriter(join(config.runDir, started.transcript));
+    await transcript.open();
+    return { record: started, transcript };
+  } catch (error) {
+    // The archive is non-critical - never fail the iteration over it
+    verbose(config, `Failed to archive iteration: ${error}`);
+    return null;
+  }
+}
+
+// Rewrite the iteration's record with its outcome
+function finishArchive(
+  config: RunnerConfig,
+  record: IterationRecord,
+  result: IterationResult,
+  exitCode: number,
+  stderr: string
+): void {
+  try {
+    finishIterationRecord(config.runDir!, record, result, exitCode, stderr);
+  } catch (error) {
+    verbose(config, `Failed to archive iteration: ${error}`);
+  }
+}
+
+/**
+ * Create this run's archive directory (runs/<timestamp>/) unless the config has one,
+ * or reopen the checkpointed run's directory when resuming
+ */
+export function openRunArchive(config: RunnerConfig): RunnerConfig {
+  if (config.resume) {
+    const { runId, runDir, iteration } = config.resume;
+    log(config, `[RUN] Resuming ${runId} at iteration ${iteration} (archive: ${runDir})`);
+    try {
+      updateRunMetadata(runDir, { endedAt: undefined, interrupted: undefined, resumedAt: new Date().toISOString() });
+    } catch (error) {
+      verbose(config, `Failed to update run archive: ${error}`);
+    }
+    return { ...config, runId, runDir };
+  }
+  if (config.runDir) return config;
+
+  try {
+    const runDir = createRunDir(
+      {
+        runId: config.runId ?? `run-${Date.now()}`,
+        project: projectName(config),
+        workingDir: config.workingDir,
+        prdJsonDir: config.prdJsonDir,
+        pid: process.pid,
+        startedAt: new Date().toISOString(),
+      },
+      config.runsDir
+    );
+    log(config, `[RUN] Archive: ${runDir}`);
+    return { ...config, runDir };
+  } catch (error) {
+    log(config, `[RUN] Could not create run archive: ${error}`);
+    return config;
+  }
+}
+
+/**
+ * Record when the run ended in its run.json
+ */
+export function closeRunArchive(config: RunnerConfig, interrupted: boolean): void {
+  if (!config.runDir) return;
+  try {
+    updateRunMetadata(config.runDir, { endedAt: new Date().toISOString(), interrupted });
+  } catch (error) {
+    verbose(config, `Failed to update run archive: ${error}`);
+  }
+}
+
+// Append the iteration to the cost ledger (costs.jsonl)
+function recordIterationCost(config: RunnerConfig, result: IterationResult): void {
+  const entry: CostEntry = {
+    timestamp: new Date().toISOString(),
+    storyId: result.storyId,
+    model: result.model ?? config.model,
+    taskType: extractTaskType(result.storyId),
+    durationSeconds: Math.round(result.durationMs / 1000),
+    status: result.hasBlocked ? "blocked" : result.success ? "success" : "error",
+    project: projectName(config),
+    runId: config.runId,
+    sessionId: result.sessionId,
+    tokens: result.tokens,
+    estimatedCost: result.estimatedCost,
   };
+
+  try {
+    logCost(entry, config.costsFile);
+    if (config.runId) {
+      setCost(getBudgetSpend(readCosts(config.costsFile), { runId: config.runId, project: projectName(config) }).run);
+    }
+  } catch (error) {
+    // Cost tracking is non-critical - never fail the iteration over it
+    verbose(config, `Failed to log cost: ${error}`);
+  }
+}
+
+// Where the loop stands, minus the fields that never change during a run
+type CheckpointState = Omit<
+  RunCheckpoint,
+  "runId" | "runDir" | "project" | "workingDir" | "prdJsonDir" | "iterations" | "budgetRemaining" | "updatedAt"
+>;
+
+// Write the run's checkpoint.json (see checkpoint.ts)
+export function saveCheckpoint(config: RunnerConfig, state: CheckpointState): void {
+  if (!config.runDir) return;
+
+  try {
+    const perRun = config.budget?.perRun;
+    writeCheckpoint({
+      runId: config.runId!,
+      runDir: config.runDir,
+      project: projectName(config),
+      workingDir: config.workingDir,
+      prdJsonDir: config.prdJsonDir,
+      iterations: config.iterations,
+      ...state,
+      budgetRemaining: perRun !== undefined ? Math.max(0, perRun - evaluateBudget(config).spend.run) : undefined,
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    // Like the cost ledger, the checkpoint is non-critical
+    verbose(config, `Failed to write checkpoint: ${error}`);
+  }
+}
+
+/**
+ * Feed config.control from the ntfy control topic and the ralph ctl socket
+ * Returns a function that stops listening
+ */
+export function startControlListeners(config: RunnerConfig): () => void {
+  const control = config.control;
+  if (!control) return () => {};
+
+  const remote = config.remoteControl
+    ? new NtfyControlListener({
+        ...config.remoteControl,
+        replyTopic: config.remoteControl.replyTopic ?? config.ntfyTopic,
+        control,
+        onLog: (message) => log(config, message),
+      })
+    : null;
+  const socket = new ControlSocketServer({ control, onLog: (message) => log(config, message) });
+
+  remote?.start();
+  try {
+    setControlSocket(socket.start());
+  } catch (error) {
+    // ralph ctl is a convenience - the run goes on without it
+    log(config, `[CONTROL] Control socket not started: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return () => {
+    remote?.stop();
+    socket.stop();
+  };
+}
+
+// Flag the last checkpoint as interrupted (the loop may have moved past it since)
+export function markInterrupted(config: RunnerConfig): void {
+  if (!config.runDir) return;
+
+  try {
+    const last = readCheckpoint(config.runDir);
+    if (last?.status === "running") {
+      writeCheckpoint({ ...last, status: "interrupted", updatedAt: new Date().toISOString() });
+    }
+  } catch (error) {
+    verbose(config, `Failed to write checkpoint: ${error}`);
+  }
 }
 
 // AIDEV-NOTE: Prompt building moved to context.ts - buildIterationContext()
@@ -318,6 +804,10 @@ export async function runSingleIteration(
 export async function* runIterations(
   config: RunnerConfig
 ): AsyncGenerator<IterationResult> {
+  const resume = config.resume;
+  const ownsArchive = !config.runDir || resume !== undefined;
+  config = openRunArchive(config);
+
   // Create unified session context
   const sessionContext = SessionContext.create({
     config: {
@@ -330,10 +820,30 @@ export async function* runIterations(
 
   // Log session context for debugging
   log(config, `[SESSION] runner=${sessionContext.runner} model=${sessionContext.model} notify=${sessionContext.notifications.enabled}`);
+  const notifier = createRunNotifier(config);
+  const control = config.control;
 
-  let iteration = 1;
-  let retryCount = 0;
-  const runStartTime = Date.now(); // Track start time for the entire run
+  // A resumed run picks up its counters, start time and totals from the checkpoint
+  let iteration = resume?.iteration ?? 1;
+  let retryCount = resume?.retryCount ?? 0;
+  const runStartTime = resume ? Date.parse(resume.runStartedAt) : Date.now(); // Track start time for the entire run
+  const budgetWarned = new Set<string>(); // Budget limits already notified this run
+  const storyAttempts: Record<string, number> = { ...resume?.storyAttempts };
+  let storiesCompleted = resume?.storiesCompleted ?? 0;
+  let totalCost = resume?.totalCost ?? 0;
+  let lastResult: IterationResult | undefined;
+  const checkpoint = (status: CheckpointStatus, nextIteration: number) =>
+    saveCheckpoint(config, {
+      status,
+      iteration: nextIteration,
+      retryCount,
+      runStartedAt: new Date(runStartTime).toISOString(),
+      storiesCompleted,
+      totalCost,
+      storyAttempts,
+      lastStoryId: lastResult?.storyId || resume?.lastStoryId,
+      lastSessionId: lastResult?.sessionId ?? resume?.lastSessionId,
+    });
 
   // Set up signal handlers
   let interrupted = false;
@@ -343,15 +853,109 @@ export async function* runIterations(
 
   process.on("SIGINT", handleSignal);
   process.on("SIGTERM", handleSignal);
+  const stopControlListeners = startControlListeners(config);
 
   try {
+    const prdError = checkPRDFiles(config);
+    if (prdError) {
+      yield prdError;
+      return;
+    }
+
     // Startup scan: check all blocked stories and unblock if blocker is completed
     scanAndUnblockStories(config.prdJsonDir);
-    
+
+    // Missing or circular dependencies would leave stories waiting forever
+    const dependencyError = checkDependencies(config);
+    if (dependencyError) {
+      yield dependencyError;
+      return;
+    }
+
     while (iteration <= config.iterations && !interrupted) {
+      // Remote control: pause holds the loop here; stop ends it with a resumable checkpoint
+      if (control?.paused && !control.stopRequested) {
+        log(config, "[CONTROL] Paused");
+        setPaused();
+        await control.waitUntilResumed();
+      }
+      if (control?.stopRequested) {
+        log(config, "[CONTROL] Stopped - continue with ralph --resume");
+        interrupted = true;
+        break;
+      }
+
       log(config, `\n=== Iteration ${iteration} ===`);
 
-      const result = await runSingleIteration(config, iteration, runStartTime);
+      // The last iteration may have left a story file Claude mistyped
+      if (iteration > 1) {
+        const invalidFiles = checkPRDFiles(config);
+        if (invalidFiles) {
+          yield { ...invalidFiles, iteration };
+          break;
+        }
+      }
+
+      // Budget guardrails: check spend in costs.jsonl before spawning
+      const iterationOptions: IterationOptions = {
+        skipStories: control?.skippedStories,
+        modelOverride: control?.model ?? undefined,
+      };
+      if (config.budget) {
+        const { spend, violations } = evaluateBudget(config);
+        if (config.budget.warnAt !== undefined && spend.run >= config.budget.warnAt && !budgetWarned.has("warnAt")) {
+          budgetWarned.add("warnAt");
+          const message = `Run spend $${spend.run.toFixed(2)} passed warning threshold $${config.budget.warnAt.toFixed(2)}`;
+          log(config, `[BUDGET] ${message}`);
+          if (notifier) await notifyBudget(notifier, message);
+        }
+
+        if (violations.length > 0) {
+          const action = config.budget.action ?? "stop";
+          const message = violations.map(describeViolation).join("; ");
+
+          if (action === "stop") {
+            log(config, `[BUDGET] ${message} - stopping`);
+            setBudgetExceeded(message);
+            if (notifier) await notifyBudget(notifier, `${message} - stopping`);
+            yield {
+              iteration,
+              storyId: "",
+              success: false,
+              hasComplete: false,
+              hasBlocked: false,
+              durationMs: 0,
+              error: message,
+              budgetExceeded: true,
+            };
+            break;
+          }
+
+          // warn / downgrade: notify once per limit, keep going
+          for (const violation of violations) {
+            if (budgetWarned.has(violation.limit)) continue;
+            budgetWarned.add(violation.limit);
+            const note = `${describeViolation(violation)}${action === "downgrade" ? " - downgrading model" : ""}`;
+            log(config, `[BUDGET] ${note}`);
+            if (notifier) await notifyBudget(notifier, note);
+          }
+          iterationOptions.budgetDowngrade = action === "downgrade";
+        }
+      }
+
+      const result = await runSingleIteration(config, iteration, runStartTime, iterationOptions);
+
+      // Checkpoint before yielding: the caller may stop the loop at the yield
+      lastResult = result;
+      if (result.storyId) {
+        storyAttempts[result.storyId] = (storyAttempts[result.storyId] ?? 0) + 1;
+      }
+      if (result.verification?.verdict === "completed") {
+        storiesCompleted++;
+      }
+      totalCost += result.estimatedCost ?? 0;
+      const runEnded = result.hasComplete || (result.hasBlocked && !result.storyId) || iteration >= config.iterations;
+      checkpoint(runEnded ? "finished" : "running", iteration + 1);
 
       // Yield result to caller
       yield result;
@@ -360,18 +964,31 @@ export async function* runIterations(
       if (result.hasComplete) {
         log(config, "All stories complete!");
         setComplete();
-        if (sessionContext.notifications.enabled && sessionContext.notifications.topic) {
-          await notifyPRDComplete(sessionContext.notifications.topic);
+        if (notifier) {
+          await notifyPRDComplete(notifier);
         }
         break;
       }
 
+      // The story ran past its own budget (warn / downgrade)
+      if (result.budgetWarning && !budgetWarned.has(`story:${result.storyId}`)) {
+        budgetWarned.add(`story:${result.storyId}`);
+        const note = `${result.budgetWarning}${config.budget?.action === "downgrade" ? " - downgrading model" : ""}`;
+        log(config, `[BUDGET] ${result.storyId}: ${note}`);
+        if (notifier) await notifyBudget(notifier, note, result.storyId);
+      }
+
+      // Story blocked after too many failed attempts or over its budget
+      if (result.blockedReason && notifier) {
+        await notifyBlocked(notifier, result.storyId, result.blockedReason);
+      }
+
       // Handle all blocked
       if (result.hasBlocked && !result.storyId) {
         log(config, "All remaining stories are blocked");
         setError("All stories blocked");
-        if (sessionContext.notifications.enabled && sessionContext.notifications.topic) {
-          await notifyBlocked(sessionContext.notifications.topic, undefined, "All stories blocked");
+        if (notifier) {
+          await notifyBlocked(notifier, undefined, "All stories blocked");
         }
         break;
       }
@@ -387,11 +1004,13 @@ export async function* runIterations(
 
           log(config, `Retry ${retryCount}: ${result.error}`);
           setRetry(cooldownSecs);
-          if (sessionContext.notifications.enabled && sessionContext.notifications.topic) {
-            await notifyRetry(sessionContext.notifications.topic, retryCount, cooldownSecs);
+          checkpoint("running", iteration);
+          if (notifier) {
+            await notifyRetry(notifier, retryCount, cooldownSecs);
           }
 
-          await sleep(cooldown);
+          // ralph ctl retry cuts the cooldown short
+          await (control ? control.cooldown(cooldown) : sleep(cooldown));
           continue; // Don't increment iteration for retry
         }
 
@@ -402,8 +1021,8 @@ export async function* runIterations(
       // Reset retry count on success
       if (result.success) {
         retryCount = 0;
-        if (sessionContext.notifications.enabled && sessionContext.notifications.topic) {
-          await notifyIterationComplete(sessionContext.notifications.topic, iteration, result.storyId);
+        if (notifier) {
+          await notifyIterationComplete(notifier, iteration, result.storyId, result.model);
         }
       }
 
@@ -422,7 +1041,11 @@ export async function* runIterations(
 
     if (interrupted) {
       setInterrupted();
+      markInterrupted(config);
     }
+    stopControlListeners();
+    await notifier?.close(); // Send any batched digest
+    if (ownsArchive) closeRunArchive(config, interrupted);
   }
 }
 
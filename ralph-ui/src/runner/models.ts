@@ -0,0 +1,93 @@
+/**
+ * Model Routing - Pick the model for each story
+ * The one routing implementation: bun/core/models.ts builds on it for the zsh CLI
+ */
+
+import type { Model, ModelRoutingConfig, ModelReason, Story } from "./types";
+
+// AIDEV-NOTE: Routing priority:
+// 1. Story-level "model" field  2. CLI --model  3. smart routing by task type  4. default model
+
+// Default model assignments per task type
+export const DEFAULT_TASK_MODELS: Record<string, Model> = {
+  US: "sonnet",
+  V: "haiku",
+  TEST: "haiku",
+  BUG: "sonnet",
+  AUDIT: "opus",
+  MP: "opus",
+};
+
+export interface ModelChoice {
+  model: Model;
+  reason: ModelReason;
+}
+
+// Extract task type prefix from story ID (e.g., "US-001" -> "US")
+export function extractTaskType(storyId: string): string {
+  const match = storyId.match(/^([A-Z]+)-/);
+  return match ? match[1] : "US";
+}
+
+/**
+ * Get the model to use for a story, and why it was picked
+ */
+export function getModelForStory(
+  story: Pick<Story, "id" | "model">,
+  routing: ModelRoutingConfig,
+  cliModel?: Model
+): ModelChoice {
+  // 1. Story-level override
+  if (story.model) {
+    return { model: story.model as Model, reason: "story_override" };
+  }
+
+  // 2. CLI --model override
+  if (cliModel) {
+    return { model: cliModel, reason: "cli_override" };
+  }
+
+  // 3. Smart routing by task type
+  if (routing.modelStrategy === "smart") {
+    const taskType = extractTaskType(story.id);
+
+    const configModel = routing.models?.[taskType];
+    if (configModel) {
+      return { model: configModel as Model, reason: "task_type" };
+    }
+    if (taskType in DEFAULT_TASK_MODELS) {
+      return { model: DEFAULT_TASK_MODELS[taskType], reason: "task_type" };
+    }
+    return {
+      model: (routing.unknownTaskType ?? "sonnet") as Model,
+      reason: "unknown_task_type",
+    };
+  }
+
+  // 4. Single model strategy
+  return { model: (routing.defaultModel ?? "opus") as Model, reason: "default" };
+}
+
+/**
+ * Human-readable description of a routing decision
+ */
+export function describeModelChoice(storyId: string, choice: ModelChoice): string {
+  switch (choice.reason) {
+    case "story_override":
+      return `${choice.model} (set on ${storyId})`;
+    case "cli_override":
+      return `${choice.model} (--model override)`;
+    case "task_type":
+      return `${choice.model} (routed by ${extractTaskType(storyId)} task type)`;
+    case "unknown_task_type":
+      return `${choice.model} (unknown task type ${extractTaskType(storyId)})`;
+    case "default":
+      return `${choice.model} (default model)`;
+    case "escalation":
+      return `${choice.model} (escalated after failed attempts)`;
+    case "budget_downgrade":
+      return `${choice.model} (downgraded by budget)`;
+    case "remote_control":
+      return `${choice.model} (set by remote control)`;
+  }
+}
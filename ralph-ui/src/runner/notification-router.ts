@@ -0,0 +1,158 @@
+/**
+ * Notification Router - Decides whether, when and how loudly each notification goes out
+ * Event filter, per-event priorities and tags, quiet hours, dedupe and a periodic digest
+ */
+
+import type {
+  Notification,
+  NotificationEvent,
+  NotificationPriority,
+  NotificationRoutingConfig,
+  Notifier,
+} from "./types";
+
+// AIDEV-NOTE: Every runner notification goes through one router per run (createRunNotifier).
+// Order: event filter -> priority/tags -> dedupe -> digest buffer -> quiet hours -> providers.
+// The digest has no timer: it goes out with the first send after intervalMinutes, or when
+// the run ends (close). While quiet hours hold it back it keeps collecting.
+
+export const DEFAULT_DEDUPE_SECONDS = 300;
+const DEFAULT_DIGEST_EVENTS: NotificationEvent[] = ["iteration_complete"];
+const DEFAULT_QUIET_MIN_PRIORITY: NotificationPriority = "urgent";
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = {
+  min: 1,
+  low: 2,
+  default: 3,
+  high: 4,
+  urgent: 5,
+};
+
+/**
+ * Minutes since midnight for "HH:MM" (null when malformed)
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Whether a local time falls inside a start-end window (the window may wrap midnight)
+ */
+export function isQuietTime(quietHours: { start: string; end: string }, date: Date): boolean {
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * One message for a batch of notifications, a line each
+ */
+export function formatDigest(notifications: Notification[]): Notification {
+  const last = notifications[notifications.length - 1];
+  return {
+    event: last.event,
+    title: `[Ralph] Digest (${notifications.length})`,
+    message: notifications.map((item) => `${item.title}: ${item.message.split("\n").join(" · ")}`).join("\n"),
+    priority: "low",
+    tags: ["scroll"],
+    project: last.project,
+  };
+}
+
+export class NotificationRouter implements Notifier {
+  readonly name = "router";
+  private readonly recent = new Map<string, number>(); // Dedupe key -> last sent (ms)
+  private pending: Notification[] = []; // Waiting for the next digest
+  private digestStartedAt: number | null = null;
+
+  constructor(
+    private readonly notifier: Notifier,
+    private readonly routing: NotificationRoutingConfig = {},
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Route one notification; false when it was filtered, deduplicated, held back or failed
+   */
+  async send(notification: Notification): Promise<boolean> {
+    await this.flushIfDue();
+
+    const { events, priorities, tags, digest } = this.routing;
+    if (events && !events.includes(notification.event)) return false;
+
+    const routed: Notification = {
+      ...notification,
+      priority: priorities?.[notification.event] ?? notification.priority,
+      tags: tags?.[notification.event] ?? notification.tags,
+    };
+    if (this.isDuplicate(routed)) return false;
+
+    if (digest && (digest.events ?? DEFAULT_DIGEST_EVENTS).includes(routed.event)) {
+      this.pending.push(routed);
+      this.digestStartedAt ??= this.now().getTime();
+      return true;
+    }
+
+    if (this.isHeldBack(routed)) return false;
+    return this.notifier.send(routed);
+  }
+
+  /**
+   * Send the pending digest now (unless quiet hours hold it back)
+   */
+  async flush(): Promise<boolean> {
+    if (this.pending.length === 0) return true;
+
+    const summary = formatDigest(this.pending);
+    if (this.isHeldBack(summary)) return false;
+
+    this.pending = [];
+    this.digestStartedAt = null;
+    return this.notifier.send(summary);
+  }
+
+  /**
+   * End of run: send whatever the digest still holds
+   */
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private async flushIfDue(): Promise<void> {
+    const digest = this.routing.digest;
+    if (!digest || this.digestStartedAt === null) return;
+    if (this.now().getTime() - this.digestStartedAt >= digest.intervalMinutes * 60_000) {
+      await this.flush();
+    }
+  }
+
+  private isHeldBack(notification: Notification): boolean {
+    const quietHours = this.routing.quietHours;
+    if (!quietHours || !isQuietTime(quietHours, this.now())) return false;
+    const minPriority = quietHours.minPriority ?? DEFAULT_QUIET_MIN_PRIORITY;
+    return PRIORITY_RANK[notification.priority] < PRIORITY_RANK[minPriority];
+  }
+
+  // Identical alerts (same event, title and body) within dedupeSeconds are dropped
+  private isDuplicate(notification: Notification): boolean {
+    const windowMs = (this.routing.dedupeSeconds ?? DEFAULT_DEDUPE_SECONDS) * 1000;
+    if (windowMs <= 0) return false;
+
+    const now = this.now().getTime();
+    for (const [key, sentAt] of this.recent) {
+      if (now - sentAt >= windowMs) this.recent.delete(key);
+    }
+
+    const key = `${notification.event}\n${notification.title}\n${notification.message}`;
+    if (this.recent.has(key)) return true;
+    this.recent.set(key, now);
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Notifiers - Notification providers beyond ntfy.sh
+ * Self-hosted ntfy, JSON webhooks, Slack/Discord incoming webhooks and desktop notifications
+ */
+
+import type { Notification, NotificationEvent, NotificationPriority, Notifier, NotifierConfig, RunnerConfig } from "./types";
+import { NtfyNotifier } from "./ntfy";
+import { NotificationRouter } from "./notification-router";
+
+// AIDEV-NOTE: Providers come from config.json notifications.providers, each with an
+// optional events list (unset = every event). The legacy ntfyTopic (--ntfy-topic,
+// RALPH_NTFY_TOPIC) is kept as an ntfy.sh provider with no events of its own. The run's
+// providers sit behind a NotificationRouter, so notifications.events applies to all of
+// them. Sending never throws - a failed provider just returns false.
+
+const DESKTOP_URGENCY: Record<NotificationPriority, string> = {
+  min: "low",
+  low: "low",
+  default: "normal",
+  high: "critical",
+  urgent: "critical",
+};
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Generic webhook: POSTs the notification as JSON
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+
+  constructor(private readonly options: { url: string; headers?: Record<string, string> }) {}
+
+  send(notification: Notification): Promise<boolean> {
+    return postJson(this.options.url, { ...notification, timestamp: new Date().toISOString() }, this.options.headers);
+  }
+}
+
+/**
+ * Slack or Discord incoming webhook (Slack reads "text", Discord reads "content")
+ */
+export class ChatWebhookNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(private readonly options: { url: string; flavor: "slack" | "discord" }) {
+    this.name = options.flavor;
+  }
+
+  send(notification: Notification): Promise<boolean> {
+    const body =
+      this.options.flavor === "slack"
+        ? { text: `*${notification.title}*\n${notification.message}` }
+        : { content: `**${notification.title}**\n${notification.message}` };
+    return postJson(this.options.url, body);
+  }
+}
+
+/**
+ * Local desktop notification via notify-send (or a compatible command)
+ */
+export class DesktopNotifier implements Notifier {
+  readonly name = "desktop";
+
+  constructor(private readonly options: { command?: string } = {}) {}
+
+  async send(notification: Notification): Promise<boolean> {
+    try {
+      const proc = Bun.spawn(
+        [
+          this.options.command ?? "notify-send",
+          "-u",
+          DESKTOP_URGENCY[notification.priority],
+          "-a",
+          "Ralph",
+          notification.title,
+          notification.message,
+        ],
+        { stdout: "ignore", stderr: "ignore" }
+      );
+      return (await proc.exited) === 0;
+    } catch {
+      // Command not installed
+      return false;
+    }
+  }
+}
+
+/**
+ * Fans a notification out to every provider subscribed to its event
+ */
+export class NotifierGroup implements Notifier {
+  readonly name = "group";
+
+  constructor(private readonly members: { notifier: Notifier; events?: NotificationEvent[] }[]) {}
+
+  // True when every provider that takes this event accepted it
+  async send(notification: Notification): Promise<boolean> {
+    const targets = this.members.filter((member) => !member.events || member.events.includes(notification.event));
+    const results = await Promise.all(targets.map((member) => member.notifier.send(notification)));
+    return results.every(Boolean);
+  }
+}
+
+/**
+ * Build one provider from its config entry
+ */
+export function createNotifier(config: NotifierConfig): Notifier {
+  switch (config.type) {
+    case "ntfy":
+      return new NtfyNotifier({ topic: config.topic, baseUrl: config.baseUrl, token: config.token });
+    case "webhook":
+      return new WebhookNotifier({ url: config.url, headers: config.headers });
+    case "slack":
+    case "discord":
+      return new ChatWebhookNotifier({ url: config.url, flavor: config.type });
+    case "desktop":
+      return new DesktopNotifier({ command: config.command });
+  }
+}
+
+/**
+ * The run's notifiers: the legacy ntfy topic plus configured providers, behind the
+ * notification router (null when notifications are off or nothing is configured)
+ */
+export function createRunNotifier(
+  config: Pick<RunnerConfig, "notify" | "ntfyTopic" | "notifiers" | "notificationRouting">
+): NotificationRouter | null {
+  if (!config.notify) return null;
+
+  const members: { notifier: Notifier; events?: NotificationEvent[] }[] = [];
+  if (config.ntfyTopic) {
+    members.push({ notifier: new NtfyNotifier({ topic: config.ntfyTopic }) });
+  }
+  for (const provider of config.notifiers ?? []) {
+    members.push({ notifier: createNotifier(provider), events: provider.events });
+  }
+  return members.length > 0 ? new NotificationRouter(new NotifierGroup(members), config.notificationRouting) : null;
+}
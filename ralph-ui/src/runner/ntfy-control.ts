@@ -0,0 +1,152 @@
+/**
+ * Ntfy Control Topic - Remote commands for a running loop, from a phone
+ * Subscribes to an ntfy JSON stream and replies on the notification topic
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { ControlReply, RemoteControlConfig, RunControl } from "./types";
+import { DEFAULT_NTFY_URL, sendNtfy } from "./ntfy";
+import { parseControlCommand } from "./control";
+
+// AIDEV-NOTE: A command is one ntfy message "<secret> <command> [arg]", e.g.
+// "hunter2 skip US-003". Anyone who knows the topic can publish to it, so a message
+// without the exact secret is dropped unanswered. The stream reconnects with
+// ?since=<last message id> so commands sent while it was down still arrive.
+
+const RECONNECT_MS = 5000;
+
+interface NtfyStreamMessage {
+  id: string;
+  event: "open" | "keepalive" | "message" | "poll_request";
+  message?: string;
+}
+
+export interface NtfyControlOptions extends RemoteControlConfig {
+  control: RunControl;
+  onLog?: (message: string) => void;
+}
+
+function secretMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+}
+
+export class NtfyControlListener {
+  private readonly abort = new AbortController();
+  private stopped = false;
+  private lastId: string | null = null;
+  private wakeRetry: (() => void) | null = null;
+
+  constructor(private readonly options: NtfyControlOptions) {}
+
+  private get baseUrl(): string {
+    return (this.options.baseUrl ?? DEFAULT_NTFY_URL).replace(/\/+$/, "");
+  }
+
+  /**
+   * Start listening in the background
+   */
+  start(): void {
+    if (!this.options.secret) {
+      this.options.onLog?.("[CONTROL] notifications.control has no secret - remote control disabled");
+      return;
+    }
+    void this.listen();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.abort.abort();
+    this.wakeRetry?.();
+  }
+
+  /**
+   * Check the secret, run the command and reply (null when the message was dropped)
+   */
+  async handleMessage(text: string): Promise<ControlReply | null> {
+    const [secret = "", ...words] = text.trim().split(/\s+/);
+    if (!secretMatches(secret, this.options.secret)) {
+      this.options.onLog?.("[CONTROL] Ignored a message without the right secret");
+      return null;
+    }
+
+    const command = parseControlCommand(words.join(" "));
+    const reply = command
+      ? this.options.control.apply(command)
+      : {
+          ok: false,
+          message: `Unknown command "${words.join(" ")}" - try pause, resume, stop, skip [story], model <name|auto>, retry, status`,
+        };
+
+    this.options.onLog?.(`[CONTROL] ${words.join(" ")}: ${reply.message}`);
+    await this.reply(reply);
+    return reply;
+  }
+
+  private async reply(reply: ControlReply): Promise<void> {
+    if (!this.options.replyTopic) return;
+    await sendNtfy({
+      topic: this.options.replyTopic,
+      baseUrl: this.options.baseUrl,
+      token: this.options.token,
+      title: "[Ralph] Control",
+      message: reply.message,
+      priority: "default",
+      tags: reply.ok ? ["robot"] : ["warning"],
+    });
+  }
+
+  private async listen(): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (this.options.token) {
+      headers.Authorization = `Bearer ${this.options.token}`;
+    }
+
+    while (!this.stopped) {
+      try {
+        const since = this.lastId ? `?since=${encodeURIComponent(this.lastId)}` : "";
+        const response = await fetch(`${this.baseUrl}/${this.options.topic}/json${since}`, {
+          headers,
+          signal: this.abort.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        for await (const line of readLines(response.body)) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as NtfyStreamMessage;
+          if (event.event !== "message") continue;
+          this.lastId = event.id;
+          await this.handleMessage(event.message ?? "");
+        }
+      } catch (error) {
+        if (this.stopped) return;
+        this.options.onLog?.(`[CONTROL] Control topic connection lost (${error instanceof Error ? error.message : error}), reconnecting`);
+      }
+
+      if (this.stopped) return;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, RECONNECT_MS);
+        this.wakeRetry = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  }
+}
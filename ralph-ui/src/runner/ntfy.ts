@@ -1,22 +1,31 @@
 /**
  * Ntfy Notification Sending
- * Sends rich notifications to ntfy.sh for iteration events
+ * Sends rich notifications to ntfy (ntfy.sh or self-hosted) for iteration events
  * Format matches the zsh version (_ralph_ntfy in ralph-models.zsh)
  */
 
 import { basename } from "path";
+import type { Notification, NotificationEvent, NotificationPriority, Notifier } from "./types";
+
+export const DEFAULT_NTFY_URL = "https://ntfy.sh";
 
 export interface NtfyOptions {
   topic: string;
   title: string;
   message: string;
-  priority?: "min" | "low" | "default" | "high" | "urgent";
+  priority?: NotificationPriority;
   tags?: string[];
+  baseUrl?: string; // Self-hosted server (default: DEFAULT_NTFY_URL)
+  token?: string; // Access token, sent as a Bearer Authorization header
 }
 
+// An ntfy.sh topic (legacy --ntfy-topic) or configured providers (see notifiers.ts)
+export type NotifyTarget = string | Notifier;
+
 export interface RichNtfyOptions {
-  topic: string;
-  event: "complete" | "blocked" | "error" | "iteration" | "max_iterations" | "retry";
+  target: NotifyTarget;
+  event: "complete" | "blocked" | "error" | "iteration" | "max_iterations" | "retry" | "budget";
+  trigger?: NotificationEvent; // Routing event (default: derived from event)
   storyId?: string;
   model?: string;
   iteration?: number;
@@ -28,7 +37,7 @@ export interface RichNtfyOptions {
 }
 
 /**
- * Send a notification to ntfy.sh
+ * Send a notification to an ntfy server
  */
 export async function sendNtfy(options: NtfyOptions): Promise<boolean> {
   if (!options.topic) {
@@ -48,8 +57,12 @@ export async function sendNtfy(options: NtfyOptions): Promise<boolean> {
     if (options.tags && options.tags.length > 0) {
       headers.Tags = options.tags.join(",");
     }
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
 
-    const response = await fetch(`https://ntfy.sh/${options.topic}`, {
+    const baseUrl = (options.baseUrl ?? DEFAULT_NTFY_URL).replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/${options.topic}`, {
       method: "POST",
       headers,
       body: options.message,
@@ -62,6 +75,27 @@ export async function sendNtfy(options: NtfyOptions): Promise<boolean> {
   }
 }
 
+/**
+ * ntfy provider: one topic on ntfy.sh or a self-hosted server
+ */
+export class NtfyNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(private readonly options: { topic: string; baseUrl?: string; token?: string }) {
+    this.name = `ntfy:${options.topic}`;
+  }
+
+  send(notification: Notification): Promise<boolean> {
+    return sendNtfy({
+      ...this.options,
+      title: notification.title,
+      message: notification.message,
+      priority: notification.priority,
+      tags: notification.tags,
+    });
+  }
+}
+
 /**
  * Build rich 3-line notification body
  * Line 1: project name
@@ -117,24 +151,38 @@ function getEventConfig(event: RichNtfyOptions["event"]): {
       return { title: "[Ralph] Limit Hit", tags: ["warning", "hourglass"], priority: "high" };
     case "retry":
       return { title: "[Ralph] Retry", tags: ["hourglass"], priority: "low" };
+    case "budget":
+      return { title: "[Ralph] Budget", tags: ["money_with_wings", "warning"], priority: "high" };
     default:
       return { title: "[Ralph]", tags: ["robot"], priority: "default" };
   }
 }
 
+const EVENT_TRIGGERS: Record<RichNtfyOptions["event"], NotificationEvent> = {
+  complete: "story_complete",
+  blocked: "blocked",
+  error: "error",
+  iteration: "iteration_complete",
+  max_iterations: "max_iterations",
+  retry: "retry",
+  budget: "budget",
+};
+
 /**
  * Send rich notification with full context
  */
 export async function sendRichNtfy(options: RichNtfyOptions): Promise<boolean> {
   const { title, tags, priority } = getEventConfig(options.event);
-  const body = buildRichBody(options);
+  const notifier = typeof options.target === "string" ? new NtfyNotifier({ topic: options.target }) : options.target;
 
-  return sendNtfy({
-    topic: options.topic,
+  return notifier.send({
+    event: options.trigger ?? EVENT_TRIGGERS[options.event],
     title,
-    message: body,
-    priority,
+    message: buildRichBody(options),
+    priority: priority ?? "default",
     tags,
+    storyId: options.storyId,
+    project: options.projectName,
   });
 }
 
@@ -142,7 +190,7 @@ export async function sendRichNtfy(options: RichNtfyOptions): Promise<boolean> {
  * Send iteration complete notification
  */
 export async function notifyIterationComplete(
-  topic: string,
+  target: NotifyTarget,
   iteration: number,
   storyId: string,
   model?: string,
@@ -150,7 +198,7 @@ export async function notifyIterationComplete(
   pendingCriteria?: number
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "iteration",
     iteration,
     storyId,
@@ -164,14 +212,14 @@ export async function notifyIterationComplete(
  * Send story complete notification
  */
 export async function notifyStoryComplete(
-  topic: string,
+  target: NotifyTarget,
   storyId: string,
   model?: string,
   pendingStories?: number,
   pendingCriteria?: number
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "complete",
     storyId,
     model,
@@ -183,10 +231,11 @@ export async function notifyStoryComplete(
 /**
  * Send PRD complete notification
  */
-export async function notifyPRDComplete(topic: string): Promise<void> {
+export async function notifyPRDComplete(target: NotifyTarget): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "complete",
+    trigger: "all_complete",
     message: "All stories completed!",
   });
 }
@@ -195,13 +244,13 @@ export async function notifyPRDComplete(topic: string): Promise<void> {
  * Send error notification
  */
 export async function notifyError(
-  topic: string,
+  target: NotifyTarget,
   error: string,
   storyId?: string,
   model?: string
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "error",
     storyId,
     model,
@@ -213,13 +262,13 @@ export async function notifyError(
  * Send retry notification
  */
 export async function notifyRetry(
-  topic: string,
+  target: NotifyTarget,
   retryCount: number,
   cooldownSecs: number,
   storyId?: string
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "retry",
     storyId,
     message: `Retry ${retryCount} - waiting ${cooldownSecs}s`,
@@ -230,13 +279,14 @@ export async function notifyRetry(
  * Send blocked notification
  */
 export async function notifyBlocked(
-  topic: string,
+  target: NotifyTarget,
   storyId?: string,
   reason?: string
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "blocked",
+    trigger: storyId ? "blocked" : "all_blocked",
     storyId,
     message: reason || "Story blocked",
   });
@@ -246,14 +296,30 @@ export async function notifyBlocked(
  * Send max iterations notification
  */
 export async function notifyMaxIterations(
-  topic: string,
+  target: NotifyTarget,
   iterations: number,
   storyId?: string
 ): Promise<void> {
   await sendRichNtfy({
-    topic,
+    target,
     event: "max_iterations",
     storyId,
     message: `Reached ${iterations} iterations limit`,
   });
 }
+
+/**
+ * Send budget notification (limit warning, downgrade or stop)
+ */
+export async function notifyBudget(
+  target: NotifyTarget,
+  message: string,
+  storyId?: string
+): Promise<void> {
+  await sendRichNtfy({
+    target,
+    event: "budget",
+    storyId,
+    message,
+  });
+}
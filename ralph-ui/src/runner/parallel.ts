@@ -0,0 +1,465 @@
+/**
+ * Parallel Scheduler - Run independent stories concurrently in git worktrees
+ * Used instead of runIterations() when config.parallel > 1
+ */
+
+import { existsSync } from "fs";
+import { basename, join } from "path";
+import type { IterationResult, RunnerConfig, Story, UpdateQueue } from "./types";
+import {
+  readIndex,
+  writeIndex,
+  readStory,
+  writeStory,
+  completeStory,
+  blockStory,
+  applyUpdateQueue,
+  queueUpdate,
+  isComplete,
+  isAllBlocked,
+  withIndexLock,
+} from "./prd";
+import { writeFileAtomic } from "./file-lock";
+import { readValidatedJson, SchemaValidationError } from "./schema";
+import {
+  runSingleIteration,
+  runIterations,
+  evaluateBudget,
+  scanAndUnblockStories,
+  checkDependencies,
+  checkPRDFiles,
+  openRunArchive,
+  closeRunArchive,
+  saveCheckpoint,
+  markInterrupted,
+  startControlListeners,
+  sleep,
+} from "./index";
+import { describeViolation } from "./budget";
+import { detectError, shouldRetry, getCooldownMs } from "./errors";
+import { getReadyStories } from "./dependencies";
+import {
+  getRepoRoot,
+  createStoryWorktree,
+  mergeStoryWorktree,
+  removeStoryWorktree,
+  type StoryWorktree,
+} from "./worktree";
+import { setComplete, setError, setInterrupted, setBudgetExceeded, setPaused, setRetry } from "./status";
+import { notifyIterationComplete, notifyPRDComplete, notifyBlocked, notifyBudget, notifyRetry } from "./ntfy";
+import { createRunNotifier } from "./notifiers";
+
+// AIDEV-NOTE: Every write to the main prd-json goes through withPrdLock() so results
+// from stories finishing at the same time are merged and applied one at a time.
+// Run control works as in runIterations(), applied to launches instead of iterations:
+// pause/stop hold back new stories while running ones finish, skip and model apply
+// to the next stories launched, and a retryable error holds back launches for the
+// cooldown. The checkpoint is written after every story, so --resume (which runs
+// sequentially) can pick up a parallel run.
+
+interface FinishedStory {
+  storyId: string;
+  result: IterationResult;
+}
+
+// Log utility (respects quiet mode)
+function log(config: RunnerConfig, message: string): void {
+  if (!config.quiet) {
+    console.log(message);
+  }
+}
+
+/**
+ * Serialize async work - each call runs after the previous one settles
+ */
+export function createLock(): <T>(fn: () => T | Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => T | Promise<T>): Promise<T> => {
+    const next = tail.then(fn);
+    tail = next.catch(() => {});
+    return next;
+  };
+}
+
+/**
+ * Pick up to `limit` pending stories that can run right now:
+ * dependencies met (best first), not blocked and not already running
+ */
+export function selectRunnableStories(
+  prdJsonDir: string,
+  limit: number,
+  running: Set<string> = new Set()
+): Story[] {
+  const index = readIndex(prdJsonDir);
+  if (!index || limit <= 0) {
+    return [];
+  }
+
+  return getReadyStories(prdJsonDir, index, running)
+    .filter((story) => !story.blockedBy)
+    .slice(0, limit);
+}
+
+// PRD changes a story made in its worktree, captured before the branch is merged
+export interface StoryOutcome {
+  story: Story | null;
+  updates: UpdateQueue | null; // Contents of the worktree's update.json
+}
+
+/**
+ * Snapshot a story's PRD changes from its worktree
+ */
+export function readStoryOutcome(worktree: StoryWorktree): StoryOutcome {
+  const updatePath = join(worktree.prdJsonDir, "update.json");
+  let updates: UpdateQueue | null = null;
+  if (existsSync(updatePath)) {
+    try {
+      updates = readValidatedJson<UpdateQueue>(updatePath, "update");
+    } catch (error) {
+      // Malformed queue - the sequential loop would reject it too
+      if (!(error instanceof SchemaValidationError)) throw error;
+    }
+  }
+
+  return { story: readStory(worktree.prdJsonDir, worktree.storyId), updates };
+}
+
+// Fold a story's queued updates into the main PRD's update.json (applied next round).
+// When the main queue is unreadable they are kept in update.failed-*.json instead.
+function queueStoryUpdates(prdJsonDir: string, storyId: string, updates: UpdateQueue): string | undefined {
+  try {
+    queueUpdate(prdJsonDir, updates);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) throw error;
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const failedPath = join(prdJsonDir, `update.failed-${stamp}-${storyId}.json`);
+    writeFileAtomic(failedPath, JSON.stringify(updates, null, 2) + "\n");
+    return `${storyId}'s updates not queued (${error.message}) - saved to ${basename(failedPath)}`;
+  }
+}
+
+/**
+ * Apply a finished story's PRD changes to the main PRD
+ * Returns a warning when its queued updates couldn't be added to update.json
+ */
+export function applyStoryOutcome(prdJsonDir: string, outcome: StoryOutcome, completedBy: string): string | undefined {
+  return withIndexLock(prdJsonDir, () => {
+    const warning = outcome.updates ? queueStoryUpdates(prdJsonDir, outcome.story?.id ?? "story", outcome.updates) : undefined;
+
+    const story = outcome.story;
+    if (!story) return warning;
+
+    writeStory(prdJsonDir, story);
+    if (story.passes) {
+      completeStory(prdJsonDir, story.id, story.completedBy ?? completedBy);
+    } else if (story.blockedBy) {
+      blockStory(prdJsonDir, story.id, story.blockedBy);
+    }
+    return warning;
+  });
+}
+
+// Run one story in its own worktree, then merge it back under the PRD lock
+async function runStoryInWorktree(
+  config: RunnerConfig,
+  repoRoot: string,
+  story: Story,
+  iteration: number,
+  runStartTime: number,
+  withPrdLock: ReturnType<typeof createLock>
+): Promise<FinishedStory> {
+  const modelOverride = config.control?.model ?? undefined; // Taken at launch, like a sequential iteration
+  let worktree: StoryWorktree;
+  try {
+    worktree = createStoryWorktree(repoRoot, config.prdJsonDir, story.id, config.runId!);
+  } catch (error) {
+    return {
+      storyId: story.id,
+      result: {
+        iteration,
+        storyId: story.id,
+        success: false,
+        hasComplete: false,
+        hasBlocked: false,
+        durationMs: 0,
+        error: `Worktree setup failed: ${error instanceof Error ? error.message : error}`,
+      },
+    };
+  }
+
+  // Claude reads nextStory from its copy of the index
+  const index = readIndex(worktree.prdJsonDir);
+  if (index) {
+    index.nextStory = story.id;
+    writeIndex(worktree.prdJsonDir, index);
+  }
+
+  log(config, `[PARALLEL] ${story.id} started in ${worktree.path}`);
+
+  const worktreeConfig: RunnerConfig = {
+    ...config,
+    workingDir: worktree.path,
+    prdJsonDir: worktree.prdJsonDir,
+    project: config.project ?? basename(config.workingDir),
+  };
+  const result = await runSingleIteration(worktreeConfig, iteration, runStartTime, { storyId: story.id, modelOverride });
+
+  const merge = await withPrdLock(() => {
+    let outcome: StoryOutcome;
+    try {
+      outcome = readStoryOutcome(worktree);
+    } catch (error) {
+      // Don't merge a story file the main loop would refuse to read
+      if (!(error instanceof SchemaValidationError)) throw error;
+      return { merged: false, error: error.message };
+    }
+    const merged = mergeStoryWorktree(repoRoot, config.prdJsonDir, worktree);
+    if (merged.merged) {
+      const warning = applyStoryOutcome(config.prdJsonDir, outcome, result.model ?? config.model);
+      if (warning) log(config, `[PARALLEL] ${warning}`);
+    }
+    return merged;
+  });
+
+  removeStoryWorktree(repoRoot, worktree, !merge.merged);
+
+  if (!merge.merged) {
+    log(config, `[PARALLEL] ${story.id} not merged: ${merge.error} (branch ${worktree.branch} kept)`);
+    return {
+      storyId: story.id,
+      result: {
+        ...result,
+        success: false,
+        error: `Merge failed: ${merge.error} (branch ${worktree.branch} kept)`,
+      },
+    };
+  }
+
+  log(config, `[PARALLEL] ${story.id} merged`);
+  // Completion of the whole PRD is decided from the main index, not one worktree
+  return { storyId: story.id, result: { ...result, hasComplete: false } };
+}
+
+/**
+ * Parallel iteration loop: keeps up to config.parallel stories running,
+ * yielding each result as its story finishes and merges
+ */
+export async function* runParallelIterations(
+  config: RunnerConfig
+): AsyncGenerator<IterationResult> {
+  const repoRoot = getRepoRoot(config.workingDir);
+  if (!repoRoot) {
+    log(config, "[PARALLEL] Not a git repository - running stories one at a time");
+    yield* runIterations(config);
+    return;
+  }
+
+  const ownsArchive = !config.runDir;
+  config = openRunArchive(config);
+
+  const limit = Math.max(1, config.parallel ?? 1);
+  const notifier = createRunNotifier(config);
+  const control = config.control;
+  const withPrdLock = createLock();
+  const running = new Map<string, Promise<FinishedStory>>();
+  const runStartTime = Date.now();
+  let started = 0;
+  let budgetStop: string | null = null;
+  const budgetWarned = new Set<string>(); // "warnAt" and stories whose budget warning was sent
+  let updateError: string | undefined; // Logged once, not on every pass
+  let retryCount = 0;
+  let storiesCompleted = 0;
+  let totalCost = 0;
+  const storyAttempts: Record<string, number> = {};
+  let lastResult: IterationResult | undefined;
+  const checkpoint = (status: "running" | "finished") =>
+    saveCheckpoint(config, {
+      status,
+      iteration: started + 1,
+      retryCount,
+      runStartedAt: new Date(runStartTime).toISOString(),
+      storiesCompleted,
+      totalCost,
+      storyAttempts,
+      lastStoryId: lastResult?.storyId || undefined,
+      lastSessionId: lastResult?.sessionId,
+    });
+
+  let interrupted = false;
+  const handleSignal = () => {
+    interrupted = true;
+  };
+  process.on("SIGINT", handleSignal);
+  process.on("SIGTERM", handleSignal);
+  const stopControlListeners = startControlListeners(config);
+
+  try {
+    const prdError = checkPRDFiles(config);
+    if (prdError) {
+      yield prdError;
+      return;
+    }
+
+    scanAndUnblockStories(config.prdJsonDir);
+
+    const dependencyError = checkDependencies(config);
+    if (dependencyError) {
+      yield dependencyError;
+      return;
+    }
+
+    while (!interrupted) {
+      // Remote control: once running stories are done, pause waits here and stop ends the run
+      if (running.size === 0 && control?.paused && !control.stopRequested) {
+        log(config, "[CONTROL] Paused");
+        setPaused();
+        await control.waitUntilResumed();
+      }
+      if (running.size === 0 && control?.stopRequested) {
+        log(config, "[CONTROL] Stopped - continue with ralph --resume");
+        interrupted = true;
+        break;
+      }
+
+      // Launch new stories while there are free slots
+      const holdLaunches = control?.paused || control?.stopRequested;
+      if (started < config.iterations && !budgetStop && !holdLaunches) {
+        const update = await withPrdLock(() => applyUpdateQueue(config.prdJsonDir));
+        if (update.error && update.error !== updateError) {
+          log(config, `[PRD] Update queue not applied: ${update.error}${update.failedPath ? ` (moved to ${basename(update.failedPath)})` : ""}`);
+        }
+        updateError = update.error;
+
+        const { spend, violations } = config.budget ? evaluateBudget(config) : { spend: null, violations: [] };
+        const warnAt = config.budget?.warnAt;
+        if (spend && warnAt !== undefined && spend.run >= warnAt && !budgetWarned.has("warnAt")) {
+          budgetWarned.add("warnAt");
+          const message = `Run spend $${spend.run.toFixed(2)} passed warning threshold $${warnAt.toFixed(2)}`;
+          log(config, `[BUDGET] ${message}`);
+          if (notifier) await notifyBudget(notifier, message);
+        }
+        if (violations.length > 0 && (config.budget?.action ?? "stop") === "stop") {
+          budgetStop = violations.map(describeViolation).join("; ");
+          log(config, `[BUDGET] ${budgetStop} - waiting for running stories, then stopping`);
+        } else {
+          const slots = Math.min(limit - running.size, config.iterations - started);
+          // Skipped stories are passed over while anything else can run
+          let stories = selectRunnableStories(config.prdJsonDir, slots, new Set([...running.keys(), ...(control?.skippedStories ?? [])]));
+          if (stories.length === 0 && running.size === 0) {
+            stories = selectRunnableStories(config.prdJsonDir, slots);
+          }
+          for (const story of stories) {
+            started++;
+            running.set(
+              story.id,
+              runStoryInWorktree(config, repoRoot, story, started, runStartTime, withPrdLock)
+            );
+          }
+        }
+      }
+
+      if (running.size === 0) {
+        if (holdLaunches) continue; // Pause or stop, handled at the top
+
+        if (budgetStop) {
+          setBudgetExceeded(budgetStop);
+          if (notifier) await notifyBudget(notifier, `${budgetStop} - stopping`);
+          yield {
+            iteration: started,
+            storyId: "",
+            success: false,
+            hasComplete: false,
+            hasBlocked: false,
+            durationMs: 0,
+            error: budgetStop,
+            budgetExceeded: true,
+          };
+        } else if (isComplete(config.prdJsonDir)) {
+          log(config, "All stories complete!");
+          checkpoint("finished");
+          setComplete();
+          if (notifier) await notifyPRDComplete(notifier);
+          yield { iteration: started, storyId: "", success: true, hasComplete: true, hasBlocked: false, durationMs: 0 };
+        } else if (isAllBlocked(config.prdJsonDir)) {
+          log(config, "All remaining stories are blocked");
+          checkpoint("finished");
+          setError("All stories blocked");
+          if (notifier) await notifyBlocked(notifier, undefined, "All stories blocked");
+          yield { iteration: started, storyId: "", success: false, hasComplete: false, hasBlocked: true, durationMs: 0 };
+        } else if (started < config.iterations) {
+          yield {
+            iteration: started,
+            storyId: "",
+            success: false,
+            hasComplete: false,
+            hasBlocked: false,
+            durationMs: 0,
+            error: "No runnable story (pending stories are waiting on dependencies)",
+          };
+        } else {
+          checkpoint("finished"); // Iteration limit reached
+        }
+        break;
+      }
+
+      const finished = await Promise.race(running.values());
+      running.delete(finished.storyId);
+      const result = finished.result;
+
+      // Checkpoint before yielding: the caller may stop the loop at the yield
+      lastResult = result;
+      storyAttempts[finished.storyId] = (storyAttempts[finished.storyId] ?? 0) + 1;
+      if (result.verification?.verdict === "completed") {
+        storiesCompleted++;
+      }
+      totalCost += result.estimatedCost ?? 0;
+      const errorType = !result.success && result.error ? detectError(result.error) : null;
+      const retrying = errorType !== null && shouldRetry(errorType, retryCount);
+      retryCount = retrying ? retryCount + 1 : result.success ? 0 : retryCount;
+      checkpoint("running");
+
+      if (result.success && notifier) {
+        await notifyIterationComplete(notifier, result.iteration, finished.storyId, result.model);
+      }
+      if (result.budgetWarning && !budgetWarned.has(finished.storyId)) {
+        budgetWarned.add(finished.storyId);
+        log(config, `[BUDGET] ${finished.storyId}: ${result.budgetWarning}`);
+        if (notifier) await notifyBudget(notifier, result.budgetWarning, finished.storyId);
+      }
+      if (result.blockedReason && notifier) {
+        await notifyBlocked(notifier, finished.storyId, result.blockedReason);
+      }
+
+      yield result;
+
+      // Rate limits and the like: no new stories until the cooldown is over
+      if (retrying) {
+        const cooldown = getCooldownMs(errorType);
+        const cooldownSecs = Math.ceil(cooldown / 1000);
+        log(config, `[PARALLEL] Retry ${retryCount}: ${result.error} - no new stories for ${cooldownSecs}s`);
+        setRetry(cooldownSecs);
+        if (notifier) await notifyRetry(notifier, retryCount, cooldownSecs);
+
+        // ralph ctl retry cuts the cooldown short
+        await (control ? control.cooldown(cooldown) : sleep(cooldown));
+      }
+    }
+
+    // Let in-flight stories finish merging before returning
+    for (const pending of running.values()) {
+      yield (await pending).result;
+    }
+  } finally {
+    process.off("SIGINT", handleSignal);
+    process.off("SIGTERM", handleSignal);
+
+    if (interrupted) {
+      setInterrupted();
+      markInterrupted(config);
+    }
+    stopControlListeners();
+    await notifier?.close(); // Send any batched digest
+    if (ownsArchive) closeRunArchive(config, interrupted);
+  }
+}
@@ -3,12 +3,32 @@
  * Part of MP-006: Move iteration loop from zsh to TypeScript
  */
 
-import { existsSync, readFileSync, writeFileSync, unlinkSync } from "fs";
-import { join } from "path";
-import type { PRDIndex, Story, UpdateQueue, AcceptanceCriterion } from "./types";
+import { existsSync, readdirSync, readFileSync, renameSync, unlinkSync } from "fs";
+import { basename, dirname, join } from "path";
+import type { PRDIndex, PRDIndexStats, Story, UpdateQueue, AcceptanceCriterion, BlockedReason } from "./types";
+import { computeNextStory, rankReadyStories } from "./dependencies";
+import { withFileLock, writeFileAtomic } from "./file-lock";
+import { formatSchemaError, readValidatedJson, SchemaValidationError, validateAgainst } from "./schema";
+import { diffLines, formatFileDiffs, type FileDiff } from "./diff";
 
 // AIDEV-NOTE: PRD file operations must match the existing zsh behavior exactly
 // The tests in tests/prd.test.ts verify this behavior
+// This is the only PRD implementation: bun/core/stories.ts re-exports it and the UI
+// hooks read through it. Mutations throw on a missing story/index rather than
+// returning false, and keep both completed[] and the cached stats block current.
+// Every read-modify-write of index.json runs under withIndexLock(), and all writes
+// go through writeFileAtomic() so a crash or Ctrl+C never leaves a truncated file.
+// Reads return null only for a missing file - a file that isn't valid JSON or doesn't
+// match schemas/ throws SchemaValidationError naming the file and JSON path.
+
+export const INDEX_LOCK_FILE = ".index.lock";
+
+/**
+ * Run a read-modify-write of prd-json/ while holding its lock
+ */
+export function withIndexLock<T>(prdJsonDir: string, fn: () => T): T {
+  return withFileLock(join(prdJsonDir, INDEX_LOCK_FILE), fn);
+}
 
 export function readIndex(prdJsonDir: string): PRDIndex | null {
   const indexPath = join(prdJsonDir, "index.json");
@@ -17,17 +37,43 @@ export function readIndex(prdJsonDir: string): PRDIndex | null {
     return null;
   }
 
-  try {
-    const content = readFileSync(indexPath, "utf-8");
-    return JSON.parse(content) as PRDIndex;
-  } catch {
-    return null;
+  return readValidatedJson<PRDIndex>(indexPath, "prd-index");
+}
+
+/**
+ * Story counts derived from the index arrays
+ * Indexes without completed[] count everything not pending or blocked as completed.
+ */
+export function computeIndexStats(index: PRDIndex): PRDIndexStats {
+  const total = index.storyOrder.length;
+  const pending = index.pending.length;
+  const blocked = index.blocked.length;
+  // completed[] can lag behind: the agent protocol only removes a finished story from pending
+  const completed = index.storyOrder.filter((id) => !index.pending.includes(id) && !index.blocked.includes(id)).length;
+  return { total, completed, pending, blocked };
+}
+
+// Everything not pending/blocked is done - fill in what an index written before
+// completed[] existed, or by an agent that only edited pending, leaves out
+function ensureCompletedList(index: PRDIndex): string[] {
+  const completed = index.completed ?? [];
+  for (const id of index.storyOrder) {
+    if (!index.pending.includes(id) && !index.blocked.includes(id) && !completed.includes(id)) {
+      completed.push(id);
+    }
   }
+  index.completed = completed;
+  return completed;
+}
+
+function serializeIndex(index: PRDIndex): string {
+  // stats is a cache - recompute it here so no caller can let it drift
+  const content = index.stats ? { ...index, stats: computeIndexStats(index) } : index;
+  return JSON.stringify(content, null, 2) + "\n";
 }
 
 export function writeIndex(prdJsonDir: string, index: PRDIndex): void {
-  const indexPath = join(prdJsonDir, "index.json");
-  writeFileSync(indexPath, JSON.stringify(index, null, 2) + "\n");
+  writeFileAtomic(join(prdJsonDir, "index.json"), serializeIndex(index));
 }
 
 export function readStory(prdJsonDir: string, storyId: string): Story | null {
@@ -37,27 +83,81 @@ export function readStory(prdJsonDir: string, storyId: string): Story | null {
     return null;
   }
 
-  try {
-    const content = readFileSync(storyPath, "utf-8");
-    return JSON.parse(content) as Story;
-  } catch {
-    return null;
+  return readValidatedJson<Story>(storyPath, "story");
+}
+
+/**
+ * Schema-check index.json and every story file
+ * Returns one message per file that can't be read as valid JSON matching schemas/
+ */
+export function findInvalidPRDFiles(prdJsonDir: string): string[] {
+  const problems: string[] = [];
+  const check = (read: () => unknown) => {
+    try {
+      read();
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      problems.push(error.message);
+    }
+  };
+
+  check(() => readIndex(prdJsonDir));
+  for (const storyId of listStoryIds(prdJsonDir)) {
+    check(() => readStory(prdJsonDir, storyId));
   }
+  return problems;
+}
+
+function serializeStory(story: Story): string {
+  return JSON.stringify(story, null, 2) + "\n";
 }
 
 export function writeStory(prdJsonDir: string, story: Story): void {
   const storyPath = join(prdJsonDir, "stories", `${story.id}.json`);
-  writeFileSync(storyPath, JSON.stringify(story, null, 2) + "\n");
+  writeFileAtomic(storyPath, serializeStory(story));
 }
 
+export function listStoryIds(prdJsonDir: string): string[] {
+  const storiesDir = join(prdJsonDir, "stories");
+
+  if (!existsSync(storiesDir)) {
+    return [];
+  }
+
+  return readdirSync(storiesDir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length));
+}
+
+// Next story from the dependency graph - index.nextStory is only a cached copy
 export function getNextStory(prdJsonDir: string): Story | null {
   const index = readIndex(prdJsonDir);
 
-  if (!index || !index.nextStory) {
+  if (!index) {
     return null;
   }
 
-  return readStory(prdJsonDir, index.nextStory);
+  const nextStory = computeNextStory(prdJsonDir, index);
+  return nextStory ? readStory(prdJsonDir, nextStory) : null;
+}
+
+// Recompute index.nextStory (Claude reads it to find its story); returns the new value
+export function refreshNextStory(prdJsonDir: string, skip?: Set<string>): string | undefined {
+  return withIndexLock(prdJsonDir, () => {
+    const index = readIndex(prdJsonDir);
+
+    if (!index) {
+      return undefined;
+    }
+
+    const nextStory = computeNextStory(prdJsonDir, index, skip);
+    if (index.nextStory !== nextStory) {
+      index.nextStory = nextStory;
+      writeIndex(prdJsonDir, index);
+    }
+
+    return nextStory;
+  });
 }
 
 export function checkCriterion(
@@ -65,291 +165,695 @@ export function checkCriterion(
   storyId: string,
   criterionIndex: number
 ): void {
-  const story = readStory(prdJsonDir, storyId);
+  withIndexLock(prdJsonDir, () => {
+    const story = readStory(prdJsonDir, storyId);
 
-  if (!story) {
-    throw new Error(`Story not found: ${storyId}`);
-  }
+    if (!story) {
+      throw new Error(`Story not found: ${storyId}`);
+    }
 
-  if (criterionIndex < 0 || criterionIndex >= story.acceptanceCriteria.length) {
-    throw new Error(`Invalid criterion index: ${criterionIndex}`);
-  }
+    if (criterionIndex < 0 || criterionIndex >= story.acceptanceCriteria.length) {
+      throw new Error(`Invalid criterion index: ${criterionIndex}`);
+    }
 
-  story.acceptanceCriteria[criterionIndex].checked = true;
+    story.acceptanceCriteria[criterionIndex].checked = true;
 
-  // Check if all criteria are now checked
-  const allChecked = story.acceptanceCriteria.every((c) => c.checked);
-  if (allChecked) {
-    story.passes = true;
-  }
+    // Check if all criteria are now checked
+    const allChecked = story.acceptanceCriteria.every((c) => c.checked);
+    if (allChecked) {
+      story.passes = true;
+    }
 
-  writeStory(prdJsonDir, story);
+    writeStory(prdJsonDir, story);
+  });
 }
 
 export function completeStory(
   prdJsonDir: string,
   storyId: string,
-  completedBy: string = "opus"
+  completedBy?: string
 ): void {
-  // Update story
-  const story = readStory(prdJsonDir, storyId);
-
-  if (!story) {
-    throw new Error(`Story not found: ${storyId}`);
-  }
+  withIndexLock(prdJsonDir, () => {
+    // Update story
+    const story = readStory(prdJsonDir, storyId);
 
-  story.passes = true;
-  story.completedAt = new Date().toISOString();
-  story.completedBy = completedBy;
+    if (!story) {
+      throw new Error(`Story not found: ${storyId}`);
+    }
 
-  writeStory(prdJsonDir, story);
+    // A completed story has every criterion checked (`ralph prd doctor` flags passes:true otherwise)
+    for (const criterion of story.acceptanceCriteria) {
+      criterion.checked = true;
+    }
+    // Keep the completion time of a story the agent already finished
+    story.completedAt = story.passes && story.completedAt ? story.completedAt : new Date().toISOString();
+    story.passes = true;
+    if (completedBy) {
+      story.completedBy = completedBy;
+    }
 
-  // Update index
-  const index = readIndex(prdJsonDir);
+    writeStory(prdJsonDir, story);
 
-  if (!index) {
-    throw new Error("PRD index not found");
-  }
+    // Update index
+    const index = readIndex(prdJsonDir);
 
-  // Remove from pending
-  index.pending = index.pending.filter((id) => id !== storyId);
+    if (!index) {
+      throw new Error("PRD index not found");
+    }
 
-  // Add to completed
-  if (!index.completed) {
-    index.completed = [];
-  }
-  if (!index.completed.includes(storyId)) {
-    index.completed.push(storyId);
-  }
+    // Add to completed (before moving it, so a legacy index doesn't count it twice)
+    const completed = ensureCompletedList(index);
+    if (!completed.includes(storyId)) {
+      completed.push(storyId);
+    }
 
-  // Auto-unblock any stories that were blocked by this completed story
-  const storiesToUnblock: string[] = [];
-  for (const blockedId of index.blocked) {
-    const blockedStory = readStory(prdJsonDir, blockedId);
-    if (blockedStory?.blockedBy === storyId) {
-      storiesToUnblock.push(blockedId);
+    // Remove from pending (or blocked, when completed while blocked)
+    index.pending = index.pending.filter((id) => id !== storyId);
+    index.blocked = index.blocked.filter((id) => id !== storyId);
+    if (index.pinnedStory === storyId) {
+      delete index.pinnedStory;
     }
-  }
 
-  for (const unblockedId of storiesToUnblock) {
-    index.blocked = index.blocked.filter((id) => id !== unblockedId);
-    if (!index.pending.includes(unblockedId)) {
-      index.pending.push(unblockedId);
+    // Auto-unblock any stories that were blocked by this completed story
+    const storiesToUnblock: string[] = [];
+    for (const blockedId of index.blocked) {
+      const blockedStory = readStory(prdJsonDir, blockedId);
+      if (blockedStory?.blockedBy === storyId) {
+        storiesToUnblock.push(blockedId);
+      }
     }
-    const unblockedStory = readStory(prdJsonDir, unblockedId);
-    if (unblockedStory) {
-      delete unblockedStory.blockedBy;
-      writeStory(prdJsonDir, unblockedStory);
-      console.log(`[PRD] Auto-unblocked ${unblockedId}: blocker ${storyId} completed`);
+
+    for (const unblockedId of storiesToUnblock) {
+      index.blocked = index.blocked.filter((id) => id !== unblockedId);
+      if (!index.pending.includes(unblockedId)) {
+        index.pending.push(unblockedId);
+      }
+      const unblockedStory = readStory(prdJsonDir, unblockedId);
+      if (unblockedStory) {
+        delete unblockedStory.blockedBy;
+        writeStory(prdJsonDir, unblockedStory);
+        console.log(`[PRD] Auto-unblocked ${unblockedId}: blocker ${storyId} completed`);
+      }
     }
-  }
 
-  // Update nextStory
-  index.nextStory = index.pending.length > 0 ? index.pending[0] : undefined;
+    // Update nextStory
+    index.nextStory = computeNextStory(prdJsonDir, index);
 
-  writeIndex(prdJsonDir, index);
+    writeIndex(prdJsonDir, index);
+  });
 }
 
 export function blockStory(
   prdJsonDir: string,
   storyId: string,
-  reason: string
+  reason: string,
+  details?: BlockedReason
 ): void {
-  // Update story
-  const story = readStory(prdJsonDir, storyId);
+  withIndexLock(prdJsonDir, () => {
+    // Update story
+    const story = readStory(prdJsonDir, storyId);
 
-  if (!story) {
-    throw new Error(`Story not found: ${storyId}`);
-  }
+    if (!story) {
+      throw new Error(`Story not found: ${storyId}`);
+    }
 
-  story.blockedBy = reason;
+    story.blockedBy = reason;
+    if (details) {
+      story.blockedReason = details;
+    }
 
-  writeStory(prdJsonDir, story);
+    writeStory(prdJsonDir, story);
 
-  // Update index
-  const index = readIndex(prdJsonDir);
+    // Update index
+    const index = readIndex(prdJsonDir);
 
-  if (!index) {
-    throw new Error("PRD index not found");
-  }
+    if (!index) {
+      throw new Error("PRD index not found");
+    }
 
-  // Remove from pending
-  index.pending = index.pending.filter((id) => id !== storyId);
+    // Remove from pending
+    index.pending = index.pending.filter((id) => id !== storyId);
 
-  // Add to blocked
-  if (!index.blocked.includes(storyId)) {
-    index.blocked.push(storyId);
-  }
+    // Add to blocked
+    if (!index.blocked.includes(storyId)) {
+      index.blocked.push(storyId);
+    }
+    if (index.pinnedStory === storyId) {
+      delete index.pinnedStory;
+    }
 
-  // Update nextStory
-  index.nextStory = index.pending.length > 0 ? index.pending[0] : undefined;
+    // Update nextStory
+    index.nextStory = computeNextStory(prdJsonDir, index);
 
-  writeIndex(prdJsonDir, index);
+    writeIndex(prdJsonDir, index);
+  });
+}
+
+/**
+ * Count an iteration against a story: one more failed attempt, or a reset after progress
+ * Returns failedAttempts afterwards (0 when the story file is gone, e.g. archived)
+ */
+export function updateFailedAttempts(prdJsonDir: string, storyId: string, failed: boolean): number {
+  return withIndexLock(prdJsonDir, () => {
+    const story = readStory(prdJsonDir, storyId);
+    if (!story) {
+      return 0;
+    }
+
+    const attempts = failed ? (story.failedAttempts ?? 0) + 1 : 0;
+    if (attempts !== (story.failedAttempts ?? 0)) {
+      if (attempts > 0) {
+        story.failedAttempts = attempts;
+      } else {
+        delete story.failedAttempts;
+      }
+      writeStory(prdJsonDir, story);
+    }
+    return attempts;
+  });
 }
 
 export function unblockStory(prdJsonDir: string, storyId: string): void {
-  // Update story
-  const story = readStory(prdJsonDir, storyId);
+  withIndexLock(prdJsonDir, () => {
+    // Update story
+    const story = readStory(prdJsonDir, storyId);
 
-  if (!story) {
-    throw new Error(`Story not found: ${storyId}`);
-  }
+    if (!story) {
+      throw new Error(`Story not found: ${storyId}`);
+    }
 
-  delete story.blockedBy;
+    // A manually unblocked story gets a fresh set of attempts
+    delete story.blockedBy;
+    delete story.blockedReason;
+    delete story.failedAttempts;
 
-  writeStory(prdJsonDir, story);
+    writeStory(prdJsonDir, story);
 
-  // Update index
-  const index = readIndex(prdJsonDir);
+    // Update index
+    const index = readIndex(prdJsonDir);
 
-  if (!index) {
-    throw new Error("PRD index not found");
-  }
+    if (!index) {
+      throw new Error("PRD index not found");
+    }
 
-  // Remove from blocked
-  index.blocked = index.blocked.filter((id) => id !== storyId);
+    // Remove from blocked
+    index.blocked = index.blocked.filter((id) => id !== storyId);
 
-  // Add to pending
-  if (!index.pending.includes(storyId)) {
-    index.pending.push(storyId);
-  }
+    // Add to pending
+    if (!index.pending.includes(storyId)) {
+      index.pending.push(storyId);
+    }
+
+    // Update nextStory (the unblocked story may outrank the current one)
+    index.nextStory = computeNextStory(prdJsonDir, index);
 
-  writeIndex(prdJsonDir, index);
+    writeIndex(prdJsonDir, index);
+  });
 }
 
-export function applyUpdateQueue(prdJsonDir: string): { applied: boolean; changes: string[] } {
-  const updatePath = join(prdJsonDir, "update.json");
+export interface UpdateQueueOptions {
+  dryRun?: boolean; // Plan and diff the queue without writing or moving anything
+}
 
-  if (!existsSync(updatePath)) {
-    return { applied: false, changes: [] };
+export interface UpdateQueueResult {
+  applied: boolean;
+  changes: string[];
+  error?: string;
+  failedPath?: string; // Where a rejected queue was moved
+  diffs?: FileDiff[]; // Dry run: the writes the queue would make
+}
+
+// The PRD as update.json will leave it; null marks a story file the queue deletes
+export interface UpdatePreview {
+  index: PRDIndex;
+  stories: Map<string, Story | null>;
+  changes: string[];
+}
+
+// The queue applied to in-memory copies of the PRD
+interface UpdatePlan extends UpdatePreview {
+  dirty: Set<string>; // Story IDs whose files the queue changes
+}
+
+// A file the commit writes (content) or deletes (null)
+interface PlannedWrite {
+  path: string;
+  file: string; // Relative to prd-json/
+  content: string | null;
+}
+
+function planUpdateQueue(prdJsonDir: string, queue: UpdateQueue): UpdatePlan {
+  const index = readIndex(prdJsonDir);
+  if (!index) {
+    throw new Error("PRD index not found");
   }
 
+  const stories = new Map<string, Story | null>();
+  const dirty = new Set<string>();
   const changes: string[] = [];
 
-  try {
-    const queue = JSON.parse(readFileSync(updatePath, "utf-8")) as UpdateQueue;
-    const index = readIndex(prdJsonDir);
+  // A story as the plan has left it so far
+  const load = (storyId: string): Story | null => {
+    if (!stories.has(storyId)) {
+      stories.set(storyId, readStory(prdJsonDir, storyId));
+    }
+    return stories.get(storyId) ?? null;
+  };
+  const save = (story: Story) => {
+    stories.set(story.id, story);
+    dirty.add(story.id);
+  };
+  // Same auto-unblock as completeStory(): stories blocked on a completed story go back to pending
+  const unblockDependents = (storyId: string) => {
+    for (const blockedId of [...index.blocked]) {
+      const blockedStory = load(blockedId);
+      if (blockedStory?.blockedBy !== storyId) continue;
+      index.blocked = index.blocked.filter((id) => id !== blockedId);
+      if (!index.pending.includes(blockedId)) {
+        index.pending.push(blockedId);
+      }
+      delete blockedStory.blockedBy;
+      save(blockedStory);
+      changes.push(`Auto-unblocked ${blockedId}: blocker ${storyId} completed`);
+    }
+  };
 
-    if (!index) {
-      throw new Error("PRD index not found");
+  // Process newStories (full stories, or IDs of story files written beforehand)
+  for (const entry of queue.newStories ?? []) {
+    const storyId = typeof entry === "string" ? entry : entry.id;
+
+    if (typeof entry === "string") {
+      if (!load(storyId)) {
+        changes.push(`Skipped story: ${storyId} (story file not found)`);
+        continue;
+      }
+    } else {
+      save({ ...entry });
     }
 
-    // Process newStories
-    if (queue.newStories) {
-      for (const story of queue.newStories) {
-        writeStory(prdJsonDir, story);
+    if (!index.pending.includes(storyId)) {
+      index.pending.push(storyId);
+    }
+    if (!index.storyOrder.includes(storyId)) {
+      index.storyOrder.push(storyId);
+    }
 
-        if (!index.pending.includes(story.id)) {
-          index.pending.push(story.id);
-        }
-        if (!index.storyOrder.includes(story.id)) {
-          index.storyOrder.push(story.id);
-        }
+    changes.push(`Added story: ${storyId}`);
+  }
 
-        changes.push(`Added story: ${story.id}`);
-      }
+  // Process updateStories
+  for (const update of queue.updateStories ?? []) {
+    const story = load(update.id!);
+    if (!story) {
+      changes.push(`Skipped update: ${update.id} (story file not found)`);
+      continue;
     }
+    save(Object.assign(story, update));
+    changes.push(`Updated story: ${update.id}`);
+  }
 
-    // Process updateStories
-    if (queue.updateStories) {
-      for (const update of queue.updateStories) {
-        if (!update.id) continue;
+  // Process moveToPending
+  for (const storyId of queue.moveToPending ?? []) {
+    index.blocked = index.blocked.filter((id) => id !== storyId);
+    if (!index.pending.includes(storyId)) {
+      index.pending.push(storyId);
+    }
 
-        const story = readStory(prdJsonDir, update.id);
-        if (story) {
-          Object.assign(story, update);
-          writeStory(prdJsonDir, story);
-          changes.push(`Updated story: ${update.id}`);
-        }
-      }
+    const story = load(storyId);
+    if (story) {
+      delete story.blockedBy;
+      delete story.blockedReason;
+      delete story.failedAttempts;
+      save(story);
+    }
+
+    changes.push(`Unblocked story: ${storyId}`);
+  }
+
+  // Process moveToBlocked
+  for (const [storyId, reason] of queue.moveToBlocked ?? []) {
+    index.pending = index.pending.filter((id) => id !== storyId);
+    if (!index.blocked.includes(storyId)) {
+      index.blocked.push(storyId);
     }
 
-    // Process moveToPending
-    if (queue.moveToPending) {
-      for (const storyId of queue.moveToPending) {
-        index.blocked = index.blocked.filter((id) => id !== storyId);
+    const story = load(storyId);
+    if (story) {
+      story.blockedBy = reason;
+      save(story);
+    }
+
+    changes.push(`Blocked story: ${storyId} (${reason})`);
+  }
+
+  // Process checkCriteria - set against the story as it is now, so criteria the agent
+  // checked meanwhile survive; passes (and the story's list) follow the criteria
+  for (const [storyId, criterionIndex, checked] of queue.checkCriteria ?? []) {
+    const story = load(storyId);
+    const criterion = story?.acceptanceCriteria[criterionIndex];
+    if (!story || !criterion) {
+      changes.push(`Skipped criterion: ${storyId} #${criterionIndex + 1} (${story ? "no such criterion" : "story file not found"})`);
+      continue;
+    }
+    criterion.checked = checked;
+    changes.push(`${checked ? "Checked" : "Unchecked"} criterion ${criterionIndex + 1} of ${storyId}`);
+
+    const passes = story.acceptanceCriteria.every((c) => c.checked);
+    if (passes && !story.passes) {
+      story.passes = true;
+      story.completedAt = new Date().toISOString();
+      index.pending = index.pending.filter((id) => id !== storyId);
+      index.blocked = index.blocked.filter((id) => id !== storyId);
+      const completed = ensureCompletedList(index);
+      if (!completed.includes(storyId)) {
+        completed.push(storyId);
+      }
+      changes.push(`Completed story: ${storyId} (every criterion checked)`);
+      unblockDependents(storyId);
+    } else if (!passes && story.passes) {
+      story.passes = false;
+      delete story.completedAt;
+      if (index.completed?.includes(storyId)) {
+        index.completed = index.completed.filter((id) => id !== storyId);
         if (!index.pending.includes(storyId)) {
           index.pending.push(storyId);
         }
+      }
+      changes.push(`Reopened story: ${storyId} (criterion unchecked)`);
+    }
+    save(story);
+  }
 
-        const story = readStory(prdJsonDir, storyId);
-        if (story) {
-          delete story.blockedBy;
-          writeStory(prdJsonDir, story);
-        }
+  // Process removeStories - drops the ID everywhere and deletes the story file
+  for (const storyId of queue.removeStories ?? []) {
+    index.pending = index.pending.filter((id) => id !== storyId);
+    index.blocked = index.blocked.filter((id) => id !== storyId);
+    index.storyOrder = index.storyOrder.filter((id) => id !== storyId);
+    if (index.completed) {
+      index.completed = index.completed.filter((id) => id !== storyId);
+    }
 
-        changes.push(`Unblocked story: ${storyId}`);
-      }
+    stories.set(storyId, null);
+    dirty.add(storyId);
+    changes.push(`Removed story: ${storyId}`);
+  }
+
+  // BUG-029 fix: Process direct override format (storyOrder and pending arrays)
+  // This supports the format used by the /prd skill when adding stories to an existing PRD.
+  // New story IDs are merged in - existing ones are preserved.
+  for (const storyId of queue.storyOrder ?? []) {
+    if (!index.storyOrder.includes(storyId)) {
+      index.storyOrder.push(storyId);
+      changes.push(`Added to storyOrder: ${storyId}`);
     }
+  }
+  for (const storyId of queue.pending ?? []) {
+    if (!index.pending.includes(storyId)) {
+      index.pending.push(storyId);
+      changes.push(`Added to pending: ${storyId}`);
+    }
+  }
 
-    // Process moveToBlocked
-    if (queue.moveToBlocked) {
-      for (const [storyId, reason] of queue.moveToBlocked) {
-        index.pending = index.pending.filter((id) => id !== storyId);
-        if (!index.blocked.includes(storyId)) {
-          index.blocked.push(storyId);
-        }
+  // Process moveStories - storyOrder breaks ties between ready stories of equal priority
+  for (const [storyId, offset] of queue.moveStories ?? []) {
+    const from = index.storyOrder.indexOf(storyId);
+    if (from === -1) {
+      changes.push(`Skipped move: ${storyId} (not in storyOrder)`);
+      continue;
+    }
+    const to = Math.min(index.storyOrder.length - 1, Math.max(0, from + offset));
+    index.storyOrder.splice(from, 1);
+    index.storyOrder.splice(to, 0, storyId);
+
+    // Keep pending in storyOrder's order around the moved story
+    if (index.pending.includes(storyId)) {
+      index.pending = index.pending.filter((id) => id !== storyId);
+      const before = index.pending.findIndex((id) => {
+        const pos = index.storyOrder.indexOf(id);
+        return pos === -1 || pos > to;
+      });
+      index.pending.splice(before === -1 ? index.pending.length : before, 0, storyId);
+    }
 
-        const story = readStory(prdJsonDir, storyId);
-        if (story) {
-          story.blockedBy = reason;
-          writeStory(prdJsonDir, story);
-        }
+    changes.push(`Moved story: ${storyId} (${from + 1} → ${to + 1})`);
+  }
 
-        changes.push(`Blocked story: ${storyId} (${reason})`);
-      }
+  // Process pinStory - a human's pick for the next story
+  if (queue.pinStory !== undefined) {
+    if (!queue.pinStory) {
+      delete index.pinnedStory;
+      changes.push("Unpinned next story");
+    } else if (!index.pending.includes(queue.pinStory)) {
+      changes.push(`Skipped pin: ${queue.pinStory} (not pending)`);
+    } else {
+      index.pinnedStory = queue.pinStory;
+      changes.push(`Pinned next story: ${queue.pinStory}`);
     }
+  }
+  // A pin is spent once its story leaves pending (completed, blocked or removed)
+  if (index.pinnedStory && !index.pending.includes(index.pinnedStory)) {
+    delete index.pinnedStory;
+  }
 
-    // Process removeStories
-    if (queue.removeStories) {
-      for (const storyId of queue.removeStories) {
-        index.pending = index.pending.filter((id) => id !== storyId);
-        index.blocked = index.blocked.filter((id) => id !== storyId);
-        index.storyOrder = index.storyOrder.filter((id) => id !== storyId);
-        if (index.completed) {
-          index.completed = index.completed.filter((id) => id !== storyId);
-        }
+  // Update nextStory from the stories as they will be after the commit
+  const graph = new Map<string, Story>();
+  for (const storyId of new Set([...index.storyOrder, ...index.pending, ...index.blocked, ...(index.completed ?? [])])) {
+    const story = load(storyId);
+    if (story) graph.set(storyId, story);
+  }
+  index.nextStory = rankReadyStories(index, graph)[0]?.id;
+  if (index.newStories) {
+    index.newStories = []; // Announced by the last update - nothing new any more
+  }
 
-        changes.push(`Removed story: ${storyId}`);
-      }
+  return { index, stories, dirty, changes };
+}
+
+// Schema-check everything the plan would write, so a bad merge never reaches disk
+function validatePlan(plan: UpdatePlan): string | null {
+  for (const storyId of plan.dirty) {
+    const story = plan.stories.get(storyId);
+    if (!story) continue;
+    const issues = validateAgainst("story", story);
+    if (issues.length > 0) {
+      return `would write an invalid story: ${formatSchemaError(`stories/${storyId}.json`, issues)}`;
     }
+  }
+  const issues = validateAgainst("prd-index", plan.index);
+  return issues.length > 0 ? `would write an invalid index: ${formatSchemaError("index.json", issues)}` : null;
+}
 
-    // BUG-029 fix: Process direct override format (storyOrder and pending arrays)
-    // This supports the format used by the /prd skill when adding stories to an existing PRD
-    if (queue.storyOrder && Array.isArray(queue.storyOrder)) {
-      // Merge new story IDs into storyOrder (preserve existing, add new ones not already present)
-      for (const storyId of queue.storyOrder) {
-        if (!index.storyOrder.includes(storyId)) {
-          index.storyOrder.push(storyId);
-          changes.push(`Added to storyOrder: ${storyId}`);
-        }
-      }
+function plannedWrites(prdJsonDir: string, plan: UpdatePlan): PlannedWrite[] {
+  const writes: PlannedWrite[] = [...plan.dirty].map((storyId) => {
+    const story = plan.stories.get(storyId);
+    return {
+      path: join(prdJsonDir, "stories", `${storyId}.json`),
+      file: `stories/${storyId}.json`,
+      content: story ? serializeStory(story) : null,
+    };
+  });
+  writes.push({ path: join(prdJsonDir, "index.json"), file: "index.json", content: serializeIndex(plan.index) });
+  return writes;
+}
+
+function readIfExists(filePath: string): string | null {
+  return existsSync(filePath) ? readFileSync(filePath, "utf-8") : null;
+}
+
+function putFile(filePath: string, content: string | null): void {
+  if (content !== null) {
+    writeFileAtomic(filePath, content);
+  } else if (existsSync(filePath)) {
+    unlinkSync(filePath);
+  }
+}
+
+// Write every planned file; if any write fails, put back what was there before
+function commitWrites(writes: PlannedWrite[]): void {
+  const snapshot = writes.map((write) => ({ path: write.path, content: readIfExists(write.path) }));
+  try {
+    for (const write of writes) {
+      putFile(write.path, write.content);
     }
+  } catch (error) {
+    for (const saved of snapshot) {
+      putFile(saved.path, saved.content);
+    }
+    throw error;
+  }
+}
 
-    if (queue.pending && Array.isArray(queue.pending)) {
-      // Merge new story IDs into pending (preserve existing, add new ones not already present)
-      for (const storyId of queue.pending) {
-        if (!index.pending.includes(storyId)) {
-          index.pending.push(storyId);
-          changes.push(`Added to pending: ${storyId}`);
-        }
+function rejectUpdateQueue(updatePath: string, changes: string[], error: string): UpdateQueueResult {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const failedPath = join(dirname(updatePath), `update.failed-${stamp}.json`);
+  renameSync(updatePath, failedPath);
+  return { applied: false, changes, error, failedPath };
+}
+
+/**
+ * Apply prd-json/update.json as one transaction: snapshot, apply in memory,
+ * validate, then write everything or nothing. A queue that is itself invalid is
+ * moved to update.failed-<timestamp>.json; one that fails because the PRD can't
+ * be read or written stays in place for a retry. A dry run only reports changes.
+ */
+export function applyUpdateQueue(prdJsonDir: string, options: UpdateQueueOptions = {}): UpdateQueueResult {
+  const updatePath = join(prdJsonDir, "update.json");
+
+  if (!existsSync(updatePath)) {
+    return { applied: false, changes: [] };
+  }
+
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  return withIndexLock(prdJsonDir, () => {
+    let queue: UpdateQueue;
+    try {
+      queue = readValidatedJson<UpdateQueue>(updatePath, "update");
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      if (options.dryRun) {
+        return { applied: false, changes: [], error: error.message };
       }
+      return rejectUpdateQueue(updatePath, [], error.message);
     }
 
-    // Update nextStory
-    index.nextStory = index.pending.length > 0 ? index.pending[0] : undefined;
+    let plan: UpdatePlan;
+    try {
+      plan = planUpdateQueue(prdJsonDir, queue);
+    } catch (error) {
+      return { applied: false, changes: [], error: errorMessage(error) };
+    }
 
-    writeIndex(prdJsonDir, index);
+    const invalid = validatePlan(plan);
+    const writes = plannedWrites(prdJsonDir, plan);
+
+    if (options.dryRun) {
+      const diffs = writes
+        .map((write) => ({ file: write.file, lines: diffLines(readIfExists(write.path) ?? "", write.content ?? "") }))
+        .filter((diff) => diff.lines.length > 0);
+      return { applied: false, changes: plan.changes, diffs, ...(invalid && { error: invalid }) };
+    }
+
+    if (invalid) {
+      return rejectUpdateQueue(updatePath, plan.changes, invalid);
+    }
+
+    try {
+      commitWrites(writes);
+    } catch (error) {
+      return { applied: false, changes: plan.changes, error: `Rolled back: ${errorMessage(error)}` };
+    }
 
     // Delete update.json after processing
     unlinkSync(updatePath);
+    return { applied: true, changes: plan.changes };
+  });
+}
 
-    return { applied: true, changes };
-  } catch (error) {
-    return { applied: false, changes: [`Error: ${error}`] };
+/**
+ * Rejected queues left in prd-json/ for someone to fix (update.failed-<timestamp>.json)
+ */
+export function listFailedUpdateQueues(prdJsonDir: string): string[] {
+  if (!existsSync(prdJsonDir)) {
+    return [];
+  }
+  return readdirSync(prdJsonDir)
+    .filter((f) => f.startsWith("update.failed-") && f.endsWith(".json"))
+    .sort();
+}
+
+// Queued lists, with what was queued before first; undefined when both are empty
+function appendQueued<T>(queued: T[] | undefined, added: T[] | undefined): T[] | undefined {
+  const merged = [...(queued ?? []), ...(added ?? [])];
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * Add changes to prd-json/update.json for the runner to apply before its next
+ * iteration (or `ralph prd apply`), so edits never race a running agent. Lists
+ * are appended to what is already queued; blocking a story drops a queued unblock
+ * of it and vice versa, and the latest pin wins.
+ */
+export function queueUpdate(prdJsonDir: string, update: UpdateQueue): void {
+  const updatePath = join(prdJsonDir, "update.json");
+
+  withIndexLock(prdJsonDir, () => {
+    const queued = existsSync(updatePath) ? readValidatedJson<UpdateQueue>(updatePath, "update") : {};
+    const blocking = new Set((update.moveToBlocked ?? []).map(([storyId]) => storyId));
+    const unblocking = new Set(update.moveToPending ?? []);
+
+    const merged: UpdateQueue = {
+      ...queued,
+      newStories: appendQueued(queued.newStories, update.newStories),
+      updateStories: appendQueued(queued.updateStories, update.updateStories),
+      moveToPending: appendQueued(
+        queued.moveToPending?.filter((storyId) => !blocking.has(storyId)),
+        update.moveToPending
+      ),
+      moveToBlocked: appendQueued(
+        queued.moveToBlocked?.filter(([storyId]) => !unblocking.has(storyId)),
+        update.moveToBlocked
+      ),
+      removeStories: appendQueued(queued.removeStories, update.removeStories),
+      checkCriteria: appendQueued(queued.checkCriteria, update.checkCriteria),
+      moveStories: appendQueued(queued.moveStories, update.moveStories),
+      pinStory: update.pinStory ?? queued.pinStory,
+      storyOrder: appendQueued(queued.storyOrder, update.storyOrder),
+      pending: appendQueued(queued.pending, update.pending),
+    };
+
+    // Round-trip through JSON so empty lists (undefined) are dropped before validating
+    const content = JSON.stringify(merged, null, 2) + "\n";
+    const issues = validateAgainst("update", JSON.parse(content));
+    if (issues.length > 0) {
+      throw new SchemaValidationError(updatePath, issues);
+    }
+    writeFileAtomic(updatePath, content);
+  });
+}
+
+/**
+ * The PRD as it will be once update.json is applied (the story browser shows queued
+ * edits this way). Null when nothing is queued or the queue can't be applied.
+ */
+export function previewUpdateQueue(prdJsonDir: string): UpdatePreview | null {
+  const updatePath = join(prdJsonDir, "update.json");
+
+  if (!existsSync(updatePath)) {
+    return null;
+  }
+
+  try {
+    const { index, stories, changes } = planUpdateQueue(prdJsonDir, readValidatedJson<UpdateQueue>(updatePath, "update"));
+    return { index, stories, changes };
+  } catch {
+    return null;
   }
 }
 
+/**
+ * Human-readable summary for `ralph prd apply [--dry-run]`
+ */
+export function formatUpdateQueueResult(result: UpdateQueueResult, dryRun: boolean): string {
+  if (!result.error && result.changes.length === 0 && !result.applied) {
+    return "No update.json to apply";
+  }
+
+  const lines = [dryRun ? "📋 update.json would:" : result.applied ? "✅ Applied update.json:" : "❌ update.json not applied:"];
+  lines.push(...result.changes.map((change) => `  • ${change}`));
+  lines.push(...formatFileDiffs(result.diffs ?? []));
+
+  if (result.error) {
+    lines.push("", `⚠️  ${result.error}`);
+  }
+  if (result.failedPath) {
+    lines.push(`Moved to ${basename(result.failedPath)} - fix it and rename it to update.json to retry`);
+  } else if (dryRun && !result.error) {
+    lines.push("", "Run `ralph prd apply` to write these changes");
+  }
+  return lines.join("\n");
+}
+
 export function verifyPendingCount(prdJsonDir: string): boolean {
   const index = readIndex(prdJsonDir);
 
@@ -400,6 +904,20 @@ export function getCriteriaProgress(story: Story): {
   return { total, checked, percentage };
 }
 
+// Some criteria checked, but the story isn't done yet
+export function hasPartialProgress(story: Story): boolean {
+  const { checked, total } = getCriteriaProgress(story);
+  return checked > 0 && checked < total && !story.passes;
+}
+
+export function getUncheckedCriteria(story: Story): AcceptanceCriterion[] {
+  return story.acceptanceCriteria.filter((c) => !c.checked);
+}
+
+export function getCheckedCriteria(story: Story): AcceptanceCriterion[] {
+  return story.acceptanceCriteria.filter((c) => c.checked);
+}
+
 /**
  * Auto-block a story that has blockedBy field but is still in pending array
  * This fixes the bug where Ralph loops forever on such stories
@@ -407,41 +925,43 @@ export function getCriteriaProgress(story: Story): {
  * IMPORTANT: If the blocker is already completed, clear blockedBy instead of blocking
  */
 export function autoBlockStoryIfNeeded(prdJsonDir: string, storyId: string): boolean {
-  const story = readStory(prdJsonDir, storyId);
-  const index = readIndex(prdJsonDir);
+  return withIndexLock(prdJsonDir, () => {
+    const story = readStory(prdJsonDir, storyId);
+    const index = readIndex(prdJsonDir);
 
-  if (!story || !index) {
-    return false;
-  }
+    if (!story || !index) {
+      return false;
+    }
 
-  // Check if story has blockedBy but is in pending array
-  if (story.blockedBy && index.pending.includes(storyId)) {
-    // Check if the blocker is already completed
-    const blockerIsCompleted = (index.completed ?? []).includes(story.blockedBy);
+    // Check if story has blockedBy but is in pending array
+    if (story.blockedBy && index.pending.includes(storyId)) {
+      // Check if the blocker is already completed
+      const blockerIsCompleted = (index.completed ?? []).includes(story.blockedBy);
 
-    if (blockerIsCompleted) {
-      // Blocker is done - clear blockedBy and keep in pending
-      console.log(`[PRD] Auto-unblocked ${storyId}: blocker ${story.blockedBy} is completed`);
-      delete story.blockedBy;
-      writeStory(prdJsonDir, story);
-      return false; // Not blocked, can proceed
-    }
+      if (blockerIsCompleted) {
+        // Blocker is done - clear blockedBy and keep in pending
+        console.log(`[PRD] Auto-unblocked ${storyId}: blocker ${story.blockedBy} is completed`);
+        delete story.blockedBy;
+        writeStory(prdJsonDir, story);
+        return false; // Not blocked, can proceed
+      }
 
-    // Blocker is NOT completed - auto-block the story
-    console.log(`[PRD] Auto-blocked ${storyId}: ${story.blockedBy}`);
+      // Blocker is NOT completed - auto-block the story
+      console.log(`[PRD] Auto-blocked ${storyId}: ${story.blockedBy}`);
 
-    // Move from pending to blocked
-    index.pending = index.pending.filter((id) => id !== storyId);
-    if (!index.blocked.includes(storyId)) {
-      index.blocked.push(storyId);
-    }
+      // Move from pending to blocked
+      index.pending = index.pending.filter((id) => id !== storyId);
+      if (!index.blocked.includes(storyId)) {
+        index.blocked.push(storyId);
+      }
 
-    // Update nextStory to next pending story
-    index.nextStory = index.pending.length > 0 ? index.pending[0] : undefined;
+      // Update nextStory to next pending story
+      index.nextStory = computeNextStory(prdJsonDir, index);
 
-    writeIndex(prdJsonDir, index);
-    return true;
-  }
+      writeIndex(prdJsonDir, index);
+      return true;
+    }
 
-  return false;
+    return false;
+  });
 }
@@ -6,12 +6,13 @@
  * enabling live output streaming with TTY semantics preserved.
  */
 
-import type { SpawnOptions, SpawnResult, Model } from "./types";
+import type { SpawnOptions, SpawnResult, Model, StreamEvent } from "./types";
 import { DEFAULT_TIMEOUT_MS } from "./types";
 import { detectError, hasCompletionSignal, hasBlockedSignal } from "./errors";
 import { spawnPTY, createDualOutput, createEventEmitter, EventBatcher } from "./pty/index";
 import type { PTYProcess, PTYEvent, DualOutputStream } from "./pty/index";
 import { buildCliArgs } from "./claude";
+import { StreamJsonParser, summarizeStream } from "./stream-json";
 
 // AIDEV-NOTE: This module provides PTY-based Claude spawning.
 // It enables live output streaming while maintaining the same interface as claude.ts
@@ -21,6 +22,7 @@ export interface PTYSpawnCallbacks {
   onStrippedData?: (data: string) => void;
   onEvent?: (event: PTYEvent) => void;
   onBatchedEvents?: (events: PTYEvent[]) => void;
+  onStreamEvent?: (event: StreamEvent) => void;
 }
 
 /**
@@ -76,6 +78,12 @@ export async function spawnClaudePTY(
       eventEmitter.onPtyEvent(callbacks.onEvent);
     }
 
+    // Parse Claude's stream-json lines as they arrive
+    const streamParser = new StreamJsonParser();
+    if (callbacks.onStreamEvent) {
+      streamParser.onStreamEvent(callbacks.onStreamEvent);
+    }
+
     // Spawn Claude via PTY
     const pty = spawnPTY(cli, args, {
       cwd: options.workingDir,
@@ -95,6 +103,7 @@ export async function spawnClaudePTY(
     pty.onData((data) => {
       stdout += data;
       dualOutput.push(data);
+      streamParser.push(data);
 
       // Emit event
       eventEmitter.emitData(data);
@@ -124,6 +133,7 @@ export async function spawnClaudePTY(
 
       // Close dual output
       dualOutput.close();
+      streamParser.end();
 
       // Emit exit event
       eventEmitter.emitExit(exitCode);
@@ -137,13 +147,14 @@ export async function spawnClaudePTY(
           stdout,
           stderr: "Process timed out",
           durationMs,
+          events: streamParser.events,
         });
         return;
       }
 
       // Extract session ID if present
-      let sessionId: string | undefined;
-      const sessionMatch = stdout.match(/"session_id":\s*"([^"]+)"/);
+      let sessionId = summarizeStream(streamParser.events).sessionId;
+      const sessionMatch = sessionId ? null : stdout.match(/"session_id":\s*"([^"]+)"/);
       if (sessionMatch) {
         sessionId = sessionMatch[1];
       }
@@ -155,6 +166,7 @@ export async function spawnClaudePTY(
         stderr,
         durationMs,
         sessionId,
+        events: streamParser.events,
       });
     });
   });
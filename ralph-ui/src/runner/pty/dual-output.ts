@@ -9,8 +9,10 @@
 
 import { PassThrough, Transform } from "stream";
 import type { Writable } from "stream";
+import { join } from "path";
 import { stripAnsi } from "./ansi";
 import type { DualOutputStream } from "./types";
+import { getRunsDir, runTimestamp } from "../archive";
 
 // AIDEV-NOTE: This module implements the dual-stream architecture from the research.
 // It forks output to two destinations simultaneously:
@@ -158,11 +160,8 @@ export class LogFileWriter {
  * Creates log directory and returns log file path
  */
 export async function createLogDir(): Promise<string> {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const configDir =
-    process.env.XDG_CONFIG_HOME || `${process.env.HOME}/.config`;
-  const runsDir = `${configDir}/ralphtools/runs/${timestamp}`;
+  const runDir = join(getRunsDir(), runTimestamp());
 
-  await Bun.write(`${runsDir}/.keep`, "");
-  return `${runsDir}/output.log`;
+  await Bun.write(join(runDir, ".keep"), "");
+  return join(runDir, "output.log");
 }
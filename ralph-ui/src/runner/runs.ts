@@ -0,0 +1,278 @@
+/**
+ * Run History - List, inspect and search the run archive (runs/<timestamp>/)
+ * Backs `ralph runs`, so the overnight work can be reviewed without tmux scrollback
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { basename, join, resolve } from "path";
+import { getRunsDir, readRunMetadata, type IterationRecord, type RunMetadata } from "./archive";
+import { formatToolCalls } from "./stream-json";
+
+// AIDEV-NOTE: Runs from before the archive (createLogDir) only have output.log and
+// no run.json; they still list, with metadata null and that log as their transcript.
+
+export interface RunSummary {
+  dir: string;
+  name: string; // Directory name, the run's start timestamp
+  metadata: RunMetadata | null;
+  iterations: IterationRecord[]; // Ordered by iteration, then attempt
+  storiesCompleted: string[];
+  cost: number;
+  durationMs: number;
+}
+
+export interface StoryAttempt {
+  run: string; // Run directory name
+  record: IterationRecord;
+}
+
+export interface TranscriptMatch {
+  run: string; // Run directory name
+  file: string; // Transcript file name inside the run
+  lineNumber: number; // 1-based
+  line: string;
+}
+
+const LEGACY_TRANSCRIPT = "output.log";
+
+function readRecord(path: string): IterationRecord | null {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as IterationRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load one run's metadata and iteration records
+ */
+export function loadRun(dir: string): RunSummary {
+  const metadata = readRunMetadata(dir);
+  const iterations = readdirSync(dir)
+    .filter((file) => /^iteration-\d+(-\d+)?\.json$/.test(file))
+    .map((file) => readRecord(join(dir, file)))
+    .filter((record): record is IterationRecord => record !== null)
+    .sort((a, b) => a.iteration - b.iteration || a.attempt - b.attempt);
+
+  const storiesCompleted = [
+    ...new Set(iterations.filter((record) => record.verdict === "completed").map((record) => record.storyId)),
+  ];
+  const cost = iterations.reduce((sum, record) => sum + (record.estimatedCost ?? 0), 0);
+
+  // Wall-clock time when the run recorded its end, else up to the last finished iteration
+  let durationMs = iterations.reduce((sum, record) => sum + (record.durationMs ?? 0), 0);
+  if (metadata) {
+    const start = Date.parse(metadata.startedAt);
+    const last = iterations[iterations.length - 1];
+    const end = metadata.endedAt
+      ? Date.parse(metadata.endedAt)
+      : last
+        ? Date.parse(last.startedAt) + (last.durationMs ?? 0)
+        : start;
+    durationMs = Math.max(0, end - start);
+  }
+
+  return { dir, name: basename(dir), metadata, iterations, storiesCompleted, cost, durationMs };
+}
+
+/**
+ * All archived runs, newest first
+ */
+export function listRuns(runsDir: string = getRunsDir()): RunSummary[] {
+  if (!existsSync(runsDir)) return [];
+
+  return readdirSync(runsDir)
+    .filter((name) => statSync(join(runsDir, name)).isDirectory())
+    .sort()
+    .reverse()
+    .map((name) => loadRun(join(runsDir, name)));
+}
+
+/**
+ * Resolve a run by directory name, run ID, unique name prefix or "latest"
+ */
+export function findRun(query: string, runsDir: string = getRunsDir()): RunSummary | null {
+  if (existsSync(join(query, "run.json"))) return loadRun(query);
+
+  const runs = listRuns(runsDir);
+  if (query === "latest") return runs[0] ?? null;
+
+  const exact = runs.find((run) => run.name === query || run.metadata?.runId === query);
+  if (exact) return exact;
+
+  const prefixed = runs.filter((run) => run.name.startsWith(query));
+  return prefixed.length === 1 ? prefixed[0] : null;
+}
+
+/**
+ * Transcript files of a run, in iteration order
+ */
+export function listTranscripts(run: RunSummary): string[] {
+  const files = run.iterations.map((record) => record.transcript).filter((file) => existsSync(join(run.dir, file)));
+  if (files.length === 0 && existsSync(join(run.dir, LEGACY_TRANSCRIPT))) {
+    return [LEGACY_TRANSCRIPT];
+  }
+  return files;
+}
+
+/**
+ * Read a transcript as lines (empty when missing)
+ */
+export function readTranscript(run: RunSummary, file: string): string[] {
+  try {
+    const text = readFileSync(join(run.dir, file), "utf-8");
+    return text.endsWith("\n") ? text.slice(0, -1).split("\n") : text.split("\n");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Search every transcript in the archive, newest run first
+ */
+export function grepRuns(
+  pattern: string | RegExp,
+  runsDir: string = getRunsDir(),
+  options: { project?: string; limit?: number } = {}
+): TranscriptMatch[] {
+  const regex = typeof pattern === "string" ? new RegExp(pattern, "i") : pattern;
+  const limit = options.limit ?? 200;
+  const matches: TranscriptMatch[] = [];
+
+  for (const run of listRuns(runsDir)) {
+    if (options.project && run.metadata?.project !== options.project) continue;
+    for (const file of listTranscripts(run)) {
+      const lines = readTranscript(run, file);
+      for (let i = 0; i < lines.length; i++) {
+        if (!regex.test(lines[i])) continue;
+        matches.push({ run: run.name, file, lineNumber: i + 1, line: lines[i] });
+        if (matches.length >= limit) return matches;
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Every archived iteration on one story of this prd-json/, oldest first
+ */
+export function listStoryAttempts(prdJsonDir: string, storyId: string, runsDir: string = getRunsDir()): StoryAttempt[] {
+  const dir = resolve(prdJsonDir);
+  return listRuns(runsDir)
+    .filter((run) => run.metadata && resolve(run.metadata.prdJsonDir) === dir)
+    .reverse()
+    .flatMap((run) =>
+      run.iterations.filter((record) => record.storyId === storyId).map((record) => ({ run: run.name, record }))
+    );
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${mins}m`;
+  if (mins > 0) return `${mins}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function formatStartedAt(run: RunSummary): string {
+  const iso = run.metadata?.startedAt ?? run.iterations[0]?.startedAt;
+  return iso ? new Date(iso).toLocaleString() : run.name;
+}
+
+function describeOutcome(record: IterationRecord): string {
+  if (record.status === "running") return "⏳ unfinished";
+  if (record.blockedReason) return "🚫 blocked";
+  switch (record.verdict) {
+    case "completed":
+      return "✅ completed";
+    case "partial":
+      return "🔶 partial";
+    case "no_progress":
+      return "❌ no progress";
+    case "inconsistent":
+      return "⚠️  inconsistent";
+  }
+  return record.success ? "✅ success" : "❌ failed";
+}
+
+/**
+ * One line per run: date, project, stories completed, cost, duration
+ */
+export function formatRunList(runs: RunSummary[]): string {
+  if (runs.length === 0) {
+    return "No runs archived yet";
+  }
+
+  const lines = [`📼 ${runs.length} run${runs.length === 1 ? "" : "s"}:`];
+  for (const run of runs) {
+    const project = run.metadata?.project ?? "(legacy log)";
+    const stories = `${run.storiesCompleted.length} ${run.storiesCompleted.length === 1 ? "story" : "stories"}`;
+    const iterations = `${run.iterations.length} iteration${run.iterations.length === 1 ? "" : "s"}`;
+    const flags = run.metadata?.interrupted ? "  (interrupted)" : run.metadata && !run.metadata.endedAt ? "  (running or crashed)" : "";
+    lines.push(
+      `  ${run.name}  ${formatStartedAt(run)}  ${project}  ${stories} completed, ${iterations}, $${run.cost.toFixed(2)}, ${formatDuration(run.durationMs)}${flags}`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * A run's iteration timeline
+ */
+export function formatRunTimeline(run: RunSummary): string {
+  const lines = [`📼 Run ${run.name}${run.metadata ? `  ${run.metadata.project} (${run.metadata.runId})` : ""}`];
+  lines.push(
+    `   Started ${formatStartedAt(run)}, ${formatDuration(run.durationMs)}, $${run.cost.toFixed(2)}, ${run.storiesCompleted.length} completed${run.storiesCompleted.length > 0 ? `: ${run.storiesCompleted.join(", ")}` : ""}`
+  );
+  if (run.metadata) {
+    lines.push(`   ${run.metadata.workingDir}`);
+  }
+  lines.push("");
+
+  if (run.iterations.length === 0) {
+    lines.push(existsSync(join(run.dir, LEGACY_TRANSCRIPT)) ? `  No iteration records, see ${LEGACY_TRANSCRIPT}` : "  No iterations recorded");
+    return lines.join("\n");
+  }
+
+  for (const record of run.iterations) {
+    const label = `#${record.iteration}${record.attempt > 1 ? ` (attempt ${record.attempt})` : ""}`;
+    const time = new Date(record.startedAt).toLocaleTimeString();
+    const details = [
+      record.durationMs !== undefined ? formatDuration(record.durationMs) : null,
+      record.estimatedCost !== undefined ? `$${record.estimatedCost.toFixed(2)}` : null,
+      record.exitCode !== undefined && record.exitCode !== 0 ? `exit ${record.exitCode}` : null,
+      record.toolCalls && Object.keys(record.toolCalls).length > 0 ? formatToolCalls(record.toolCalls) : null,
+    ].filter(Boolean);
+
+    lines.push(`  ${label.padEnd(5)} ${time}  ${record.storyId}  ${record.model}  ${describeOutcome(record)}  ${details.join(", ")}`);
+    if (record.blockedReason) {
+      lines.push(`        ${record.blockedReason}`);
+    } else if (record.error) {
+      lines.push(`        ${record.error}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * One line per attempt for the story browser: when, model, outcome, duration, cost
+ */
+export function formatStoryAttempt({ run, record }: StoryAttempt): string {
+  const details = [
+    record.durationMs !== undefined ? formatDuration(record.durationMs) : null,
+    record.estimatedCost !== undefined ? `$${record.estimatedCost.toFixed(2)}` : null,
+  ].filter(Boolean);
+  const when = new Date(record.startedAt).toLocaleString();
+  return `${when}  ${run} #${record.iteration}  ${record.model}  ${describeOutcome(record)}${details.length > 0 ? `  ${details.join(", ")}` : ""}`;
+}
+
+/**
+ * grep-style output: run/file:line: text
+ */
+export function formatTranscriptMatches(matches: TranscriptMatch[]): string {
+  if (matches.length === 0) {
+    return "No matches";
+  }
+  return matches.map((match) => `${match.run}/${match.file}:${match.lineNumber}: ${match.line}`).join("\n");
+}
@@ -0,0 +1,250 @@
+/**
+ * Schema Validation - Check PRD, update queue and config files against schemas/
+ * A typo like "acceptanceCritera" must fail loudly, not read as zero criteria
+ */
+
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+
+// AIDEV-NOTE: This is a small validator for the JSON Schema keywords our schemas use
+// (type, enum, const, required, properties, additionalProperties, items - including
+// draft-07 tuples, where items is an array - pattern, minimum/maximum, minItems/maxItems,
+// anyOf/oneOf, and $refs to local definitions or to other
+// files in schemas/). Annotations like format, default and description are ignored.
+// If a schema needs another keyword, add it here - unknown keywords are silently
+// accepted, so a schema can't fail because of them.
+
+export type SchemaName = "story" | "prd-index" | "update" | "config";
+
+export interface SchemaIssue {
+  path: string; // JSON path into the document, e.g. $.acceptanceCriteria[0].checked
+  message: string; // What was expected, e.g. expected boolean, got string
+}
+
+type JsonSchema = {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[]; // An array checks each position (a tuple)
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+};
+
+export class SchemaValidationError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(formatSchemaError(file, issues));
+    this.name = "SchemaValidationError";
+  }
+}
+
+const schemaCache = new Map<SchemaName, JsonSchema>();
+
+function loadSchema(name: SchemaName): JsonSchema {
+  let schema = schemaCache.get(name);
+  if (!schema) {
+    const schemaPath = fileURLToPath(new URL(`../../../schemas/${name}.schema.json`, import.meta.url));
+    schema = JSON.parse(readFileSync(schemaPath, "utf-8")) as JsonSchema;
+    schemaCache.set(name, schema);
+  }
+  return schema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+// "#/$defs/x" within the current schema, or "x.schema.json" for another file in schemas/
+function resolveRef(root: JsonSchema, ref: string): { root: JsonSchema; schema: JsonSchema } {
+  const fileMatch = ref.match(/^([\w-]+)\.schema\.json$/);
+  if (fileMatch) {
+    const schema = loadSchema(fileMatch[1] as SchemaName);
+    return { root: schema, schema };
+  }
+
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  const resolved = match ? root[match[1] as "$defs" | "definitions"]?.[match[2]] : undefined;
+  if (!resolved) {
+    throw new Error(`Unsupported schema reference: ${ref}`);
+  }
+  return { root, schema: resolved };
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+// Levenshtein distance, for "did you mean" hints on misspelt property names
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function validateNode(root: JsonSchema, schema: JsonSchema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (schema.$ref) {
+    const target = resolveRef(root, schema.$ref);
+    validateNode(target.root, target.schema, value, path, issues);
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const branchIssues = alternatives.map((branch) => {
+      const found: SchemaIssue[] = [];
+      validateNode(root, branch, value, path, found);
+      return found;
+    });
+    if (!branchIssues.some((found) => found.length === 0)) {
+      // Report the branch the value's type matched - usually the one the author meant
+      const wrongType = (found: SchemaIssue[]) => found.length === 1 && found[0].path === path && found[0].message.endsWith(`, got ${typeOf(value)}`);
+      const closest = branchIssues.find((found) => !wrongType(found)) ?? branchIssues[0];
+      issues.push(...closest);
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({ path, message: `expected one of ${schema.enum.map(describeValue).join(", ")}, got ${describeValue(value)}` });
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    issues.push({ path, message: `expected ${describeValue(schema.const)}, got ${describeValue(value)}` });
+  }
+
+  if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, message: `expected a string matching ${schema.pattern}, got ${describeValue(value)}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `expected a number >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `expected a number <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `expected at least ${schema.minItems} item(s), got ${value.length}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `expected at most ${schema.maxItems} item(s), got ${value.length}` });
+    }
+    const items = schema.items;
+    if (Array.isArray(items)) {
+      value.forEach((item, i) => items[i] && validateNode(root, items[i], item, childPath(path, i), issues));
+    } else if (items) {
+      value.forEach((item, i) => validateNode(root, items, item, childPath(path, i), issues));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (key in object) continue;
+      const typo = Object.keys(object).find((other) => !(other in properties) && editDistance(other, key) <= 2);
+      issues.push({
+        path,
+        message: `missing required property "${key}"${typo ? ` (found "${typo}" - misspelt?)` : ""}`,
+      });
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      if (properties[key]) {
+        validateNode(root, properties[key], child, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: "unknown property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(root, schema.additionalProperties, child, childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a parsed JSON value against a schema; returns [] when it conforms
+ */
+export function validateSchema(schema: object, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(schema as JsonSchema, schema as JsonSchema, value, "$", issues);
+  return issues;
+}
+
+/**
+ * Validate a parsed JSON value against one of the schemas in schemas/
+ */
+export function validateAgainst(name: SchemaName, value: unknown): SchemaIssue[] {
+  return validateSchema(loadSchema(name), value);
+}
+
+/**
+ * One-line summary for logs and the dashboard's error banner
+ */
+export function formatSchemaError(file: string, issues: SchemaIssue[]): string {
+  const [first, ...rest] = issues;
+  const more = rest.length > 0 ? ` (and ${rest.length} more issue${rest.length === 1 ? "" : "s"})` : "";
+  return `${file}: ${first ? `${first.path}: ${first.message}` : "invalid"}${more}`;
+}
+
+/**
+ * Read and parse a JSON file, throwing SchemaValidationError if it is
+ * not valid JSON or does not match the schema
+ */
+export function readValidatedJson<T>(filePath: string, name: SchemaName): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code) throw error;
+    throw new SchemaValidationError(filePath, [{ path: "$", message: `invalid JSON (${(error as Error).message})` }]);
+  }
+
+  const issues = validateAgainst(name, value);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(filePath, issues);
+  }
+  return value as T;
+}
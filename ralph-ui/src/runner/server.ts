@@ -0,0 +1,254 @@
+/**
+ * Status Server - Localhost HTTP + Server-Sent Events API for a running loop
+ * For editor plugins and scripts, instead of polling /tmp/ralph-status-$PID.json
+ */
+
+import type { Server } from "bun";
+import type { IterationResult, RalphStatus, Story } from "./types";
+import { readIndex, readStory, computeIndexStats } from "./prd";
+import { readStatus, onStatusChange } from "./status";
+
+// AIDEV-NOTE: Endpoints (localhost only, read-only):
+//   GET /status      current RalphStatus (same as the status file)
+//   GET /prd         index stats plus per-story criteria progress
+//   GET /iterations  results so far (without the raw stream events)
+//   GET /events      SSE: "status", "prd", "iteration" and "output" events
+// Status events come from status.ts listeners. prd-json/ is polled (fs.watch is
+// unreliable on macOS, see useFileWatch.ts) and a "prd" event goes out when it changes.
+// Requests whose Host header isn't 127.0.0.1 or localhost (with our port) get a 403,
+// so a web page can't read the API through DNS rebinding.
+
+export const DEFAULT_STATUS_PORT = 7420;
+const PRD_POLL_MS = 1000;
+const KEEPALIVE_MS = 15000;
+
+export interface StoryProgress {
+  id: string;
+  title: string;
+  passes: boolean;
+  blocked: boolean;
+  criteriaDone: number;
+  criteriaTotal: number;
+}
+
+export interface PRDSnapshot {
+  stats: { total: number; completed: number; pending: number; blocked: number };
+  nextStory: string | null;
+  stories: StoryProgress[];
+  error?: string; // index.json or a story file couldn't be read
+}
+
+export type IterationSummary = Omit<IterationResult, "events">;
+
+export type ServerEvent =
+  | { type: "status"; status: RalphStatus }
+  | { type: "prd"; prd: PRDSnapshot }
+  | { type: "iteration"; iteration: IterationSummary }
+  | { type: "output"; data: string };
+
+export interface StatusServerOptions {
+  prdJsonDir: string;
+  port?: number; // 0 picks a free port (default: DEFAULT_STATUS_PORT)
+  hostname?: string; // Default: 127.0.0.1
+}
+
+/**
+ * Criteria progress for every story in index.json storyOrder
+ */
+export function readPRDSnapshot(prdJsonDir: string): PRDSnapshot {
+  const snapshot: PRDSnapshot = {
+    stats: { total: 0, completed: 0, pending: 0, blocked: 0 },
+    nextStory: null,
+    stories: [],
+  };
+
+  try {
+    const index = readIndex(prdJsonDir);
+    if (!index) return { ...snapshot, error: "index.json not found" };
+
+    const { total, completed, pending, blocked } = index.stats ?? computeIndexStats(index);
+    snapshot.stats = { total, completed, pending, blocked };
+    snapshot.nextStory = index.nextStory ?? null;
+
+    for (const id of index.storyOrder) {
+      const story: Story | null = readStory(prdJsonDir, id);
+      if (!story) continue;
+      snapshot.stories.push({
+        id,
+        title: story.title,
+        passes: story.passes === true,
+        blocked: index.blocked.includes(id),
+        criteriaDone: story.acceptanceCriteria.filter((criterion) => criterion.checked).length,
+        criteriaTotal: story.acceptanceCriteria.length,
+      });
+    }
+  } catch (error) {
+    snapshot.error = error instanceof Error ? error.message : String(error);
+  }
+  return snapshot;
+}
+
+/**
+ * One SSE message
+ */
+export function formatServerEvent(event: ServerEvent): string {
+  let data: unknown;
+  switch (event.type) {
+    case "status":
+      data = event.status;
+      break;
+    case "prd":
+      data = event.prd;
+      break;
+    case "iteration":
+      data = event.iteration;
+      break;
+    case "output":
+      data = event.data; // A JSON string, so newlines stay inside one data: line
+      break;
+  }
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export class StatusServer {
+  private server: Server<undefined> | null = null;
+  private readonly clients = new Set<ReadableStreamDefaultController<string>>();
+  private readonly iterations: IterationSummary[] = [];
+  private lastPrd = "";
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly options: StatusServerOptions) {}
+
+  /**
+   * Start listening; returns the base URL
+   */
+  start(): string {
+    this.server = Bun.serve({
+      hostname: this.options.hostname ?? "127.0.0.1",
+      port: this.options.port ?? DEFAULT_STATUS_PORT,
+      idleTimeout: 0, // SSE connections stay open
+      fetch: (request) => this.handle(request),
+    });
+
+    this.unsubscribe = onStatusChange((status) => this.broadcast({ type: "status", status }));
+    this.pollTimer = setInterval(() => this.pollPrd(), PRD_POLL_MS);
+    this.keepaliveTimer = setInterval(() => this.send(": keepalive\n\n"), KEEPALIVE_MS);
+    this.lastPrd = JSON.stringify(readPRDSnapshot(this.options.prdJsonDir));
+    return this.url;
+  }
+
+  get url(): string {
+    return this.server ? `http://${this.server.hostname}:${this.server.port}` : "";
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.keepaliveTimer) clearInterval(this.keepaliveTimer);
+    for (const client of this.clients) {
+      try {
+        client.close();
+      } catch {
+        // Already closed by the client
+      }
+    }
+    this.clients.clear();
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Forward a chunk of (ANSI-stripped) agent output
+   */
+  publishOutput(data: string): void {
+    if (this.clients.size > 0) {
+      this.broadcast({ type: "output", data });
+    }
+  }
+
+  /**
+   * Record a finished iteration for /iterations and the event stream
+   */
+  recordIteration(result: IterationResult): void {
+    const { events: _events, ...summary } = result;
+    this.iterations.push(summary);
+    this.broadcast({ type: "iteration", iteration: summary });
+    this.pollPrd();
+  }
+
+  private handle(request: Request): Response {
+    if (!this.isLocalHost(request.headers.get("host"))) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (request.method !== "GET") {
+      return Response.json({ error: "Method not allowed" }, { status: 405 });
+    }
+
+    switch (new URL(request.url).pathname) {
+      case "/status":
+        return Response.json(readStatus());
+      case "/prd":
+        return Response.json(readPRDSnapshot(this.options.prdJsonDir));
+      case "/iterations":
+        return Response.json(this.iterations);
+      case "/events":
+        return this.openEventStream();
+      default:
+        return Response.json({ error: "Not found" }, { status: 404 });
+    }
+  }
+
+  private isLocalHost(host: string | null): boolean {
+    const port = this.server?.port;
+    return host === `127.0.0.1:${port}` || host === `localhost:${port}`;
+  }
+
+  // New SSE clients get the current status and PRD right away
+  private openEventStream(): Response {
+    let controller: ReadableStreamDefaultController<string>;
+    const stream = new ReadableStream<string>({
+      start: (streamController) => {
+        controller = streamController;
+        this.clients.add(controller);
+        const status = readStatus();
+        if (status) controller.enqueue(formatServerEvent({ type: "status", status }));
+        controller.enqueue(formatServerEvent({ type: "prd", prd: readPRDSnapshot(this.options.prdJsonDir) }));
+      },
+      cancel: () => {
+        this.clients.delete(controller);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  private pollPrd(): void {
+    const prd = readPRDSnapshot(this.options.prdJsonDir);
+    const json = JSON.stringify(prd);
+    if (json === this.lastPrd) return;
+    this.lastPrd = json;
+    this.broadcast({ type: "prd", prd });
+  }
+
+  private broadcast(event: ServerEvent): void {
+    this.send(formatServerEvent(event));
+  }
+
+  private send(message: string): void {
+    for (const client of this.clients) {
+      try {
+        client.enqueue(message);
+      } catch {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
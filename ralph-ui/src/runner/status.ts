@@ -3,11 +3,25 @@
  * Part of MP-006: Move iteration loop from zsh to TypeScript
  */
 
-import { existsSync, writeFileSync, readFileSync, unlinkSync } from "fs";
-import type { RalphStatus } from "./types";
+import { existsSync, writeFileSync, readFileSync, unlinkSync, readdirSync } from "fs";
+import { join } from "path";
+import type { RalphStatus, ModelReason } from "./types";
+import { isProcessAlive } from "./file-lock";
 
 // AIDEV-NOTE: Status file path follows zsh convention of /tmp/ralph-status-$$.json
 // The $$ is replaced with actual PID in getStatusFilePath()
+// In-process listeners (the HTTP status server) get every update as it is written.
+
+type StatusListener = (status: RalphStatus) => void;
+const listeners = new Set<StatusListener>();
+
+/**
+ * Subscribe to status updates; returns the unsubscribe function
+ */
+export function onStatusChange(listener: StatusListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
 
 export function getStatusFilePath(pid?: number): string {
   const processId = pid ?? process.pid;
@@ -32,14 +46,24 @@ export function writeStatus(status: Partial<RalphStatus>): void {
     iteration: status.iteration ?? current.iteration ?? 0,
     storyId: status.storyId ?? current.storyId ?? "",
     model: status.model ?? current.model,
+    modelReason: status.modelReason ?? current.modelReason,
     startTime: status.startTime ?? current.startTime,
     lastActivity: Math.floor(Date.now() / 1000),
     error: status.error ?? null,
     retryIn: status.retryIn ?? 0,
     pid: process.pid,
+    project: status.project ?? current.project,
+    workingDir: status.workingDir ?? current.workingDir,
+    prdJsonDir: status.prdJsonDir ?? current.prdJsonDir,
+    runId: status.runId ?? current.runId,
+    cost: status.cost ?? current.cost,
+    controlSocket: status.controlSocket ?? current.controlSocket,
   };
 
   writeFileSync(filePath, JSON.stringify(updated, null, 2));
+  for (const listener of listeners) {
+    listener(updated);
+  }
 }
 
 export function readStatus(pid?: number): RalphStatus | null {
@@ -57,6 +81,45 @@ export function readStatus(pid?: number): RalphStatus | null {
   }
 }
 
+/**
+ * Every live Ralph instance on this machine, from the /tmp/ralph-status-<pid>.json files.
+ * Files whose process is gone are deleted unless cleanup is false.
+ */
+export function listInstances(options: { dir?: string; cleanup?: boolean } = {}): RalphStatus[] {
+  const dir = options.dir ?? "/tmp";
+  const instances: RalphStatus[] = [];
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => /^ralph-status-\d+\.json$/.test(file));
+  } catch {
+    return instances;
+  }
+
+  for (const file of files) {
+    const path = join(dir, file);
+    const pid = parseInt(file.slice("ralph-status-".length), 10);
+    if (!isProcessAlive(pid)) {
+      if (options.cleanup !== false) {
+        try {
+          unlinkSync(path);
+        } catch {
+          // Another dashboard got there first
+        }
+      }
+      continue;
+    }
+
+    try {
+      instances.push(JSON.parse(readFileSync(path, "utf-8")) as RalphStatus);
+    } catch {
+      // Mid-write - picked up on the next poll
+    }
+  }
+
+  return instances.sort((a, b) => (a.project ?? "").localeCompare(b.project ?? "") || a.pid - b.pid);
+}
+
 export function cleanupStatus(): void {
   const filePath = getStatusFilePath();
 
@@ -78,19 +141,36 @@ export function touchStatus(): void {
 export function setRunning(
   iteration: number,
   storyId: string,
-  options?: { model?: string; startTime?: number }
+  options?: {
+    model?: string;
+    modelReason?: ModelReason;
+    startTime?: number;
+    project?: string;
+    workingDir?: string;
+    prdJsonDir?: string;
+    runId?: string;
+  }
 ): void {
   writeStatus({
+    ...options,
     state: "running",
     iteration,
     storyId,
-    model: options?.model,
-    startTime: options?.startTime,
     error: null,
     retryIn: 0,
   });
 }
 
+// Record the run's spend so far (shown in the fleet view)
+export function setCost(cost: number): void {
+  writeStatus({ cost });
+}
+
+// Record where the run's control socket listens (found by `ralph ctl`)
+export function setControlSocket(controlSocket: string): void {
+  writeStatus({ controlSocket });
+}
+
 export function setCodeRabbit(iteration: number, storyId: string): void {
   writeStatus({
     state: "cr_review",
@@ -121,6 +201,18 @@ export function setComplete(): void {
   });
 }
 
+export function setBudgetExceeded(error: string): void {
+  writeStatus({
+    state: "budget_exceeded",
+    error,
+    retryIn: 0,
+  });
+}
+
+export function setPaused(): void {
+  writeStatus({ state: "paused" });
+}
+
 export function setInterrupted(): void {
   writeStatus({ state: "interrupted" });
 }
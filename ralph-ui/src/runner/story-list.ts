@@ -0,0 +1,120 @@
+/**
+ * Story List - One row per story in storyOrder, for the story browser
+ * Status comes from index.json, so the list agrees with the runner about what is left
+ */
+
+import { readIndex, readStory, type UpdatePreview } from "./prd";
+import { extractTaskType } from "./models";
+import type { Story, StoryPriority, UpdateQueue } from "./types";
+
+export type StoryRowStatus = "completed" | "blocked" | "pending";
+
+export interface StoryRow {
+  id: string;
+  title: string;
+  status: StoryRowStatus;
+  next: boolean; // index.json nextStory
+  pinned: boolean; // index.json pinnedStory - marked next by a human
+  type: string; // Task type from the ID prefix (US, BUG, V, ...), as used for model routing
+  priority?: StoryPriority;
+  criteriaDone: number;
+  criteriaTotal: number;
+  story: Story | null; // null when the story file is missing or unreadable
+}
+
+export interface StoryFilter {
+  status?: StoryRowStatus;
+  type?: string;
+}
+
+// A change made from the story browser
+export type StoryEdit =
+  | { type: "toggle-criterion"; criterion: number }
+  | { type: "block"; reason: string }
+  | { type: "unblock" }
+  | { type: "move"; offset: number } // In storyOrder; negative moves it earlier
+  | { type: "pin" }; // Mark it next, or clear the mark
+
+export const STORY_STATUSES: StoryRowStatus[] = ["pending", "blocked", "completed"];
+
+/**
+ * Rows for every story in storyOrder (empty when index.json is missing)
+ * With a preview (previewUpdateQueue), rows show the PRD as update.json will leave it
+ */
+export function listStoryRows(prdJsonDir: string, preview?: UpdatePreview | null): StoryRow[] {
+  const index = preview?.index ?? readIndex(prdJsonDir);
+  if (!index) return [];
+
+  const completed = new Set(index.completed ?? []);
+  const blocked = new Set(index.blocked);
+
+  return index.storyOrder.map((id) => {
+    let story: Story | null = null;
+    try {
+      story = preview?.stories.has(id) ? (preview.stories.get(id) ?? null) : readStory(prdJsonDir, id);
+    } catch {
+      // Invalid story file - the dashboard's ErrorBanner reports it
+    }
+
+    const criteria = story?.acceptanceCriteria ?? [];
+    return {
+      id,
+      title: story?.title ?? "(missing story file)",
+      status: completed.has(id) || story?.passes ? "completed" : blocked.has(id) ? "blocked" : "pending",
+      next: index.nextStory === id,
+      pinned: index.pinnedStory === id,
+      type: extractTaskType(id),
+      priority: story?.priority,
+      criteriaDone: criteria.filter((criterion) => criterion.checked).length,
+      criteriaTotal: criteria.length,
+      story,
+    };
+  });
+}
+
+export function filterStoryRows(rows: StoryRow[], filter: StoryFilter): StoryRow[] {
+  return rows.filter(
+    (row) => (!filter.status || row.status === filter.status) && (!filter.type || row.type === filter.type)
+  );
+}
+
+/**
+ * Task types present in the rows, in first-seen order (for the type filter)
+ */
+export function listStoryTypes(rows: StoryRow[]): string[] {
+  return [...new Set(rows.map((row) => row.type))];
+}
+
+/**
+ * The update.json entry for a story browser edit (queueUpdate() it)
+ * Throws when the story can't take the edit, e.g. unblocking a pending story
+ */
+export function storyEditUpdate(row: StoryRow, edit: StoryEdit): UpdateQueue {
+  switch (edit.type) {
+    case "toggle-criterion": {
+      if (!row.story) throw new Error(`${row.id} has no story file`);
+      if (row.status === "completed") throw new Error(`${row.id} is completed - its criteria are final`);
+      const criterion = row.story.acceptanceCriteria[edit.criterion];
+      if (!criterion) {
+        throw new Error(`Invalid criterion index: ${edit.criterion}`);
+      }
+      // One criterion, applied to the story as it is then - not a stale copy of the list
+      return { checkCriteria: [[row.id, edit.criterion, !criterion.checked]] };
+    }
+    case "block": {
+      if (row.status !== "pending") throw new Error(`${row.id} is ${row.status}`);
+      const reason = edit.reason.trim();
+      if (!reason) throw new Error("Blocking needs a reason");
+      return { moveToBlocked: [[row.id, reason]] };
+    }
+    case "unblock":
+      if (row.status !== "blocked") throw new Error(`${row.id} is not blocked`);
+      return { moveToPending: [row.id] };
+    case "move":
+      return { moveStories: [[row.id, edit.offset]] };
+    case "pin":
+      if (row.pinned) return { pinStory: "" };
+      if (row.status !== "pending") throw new Error(`Only a pending story can go next - ${row.id} is ${row.status}`);
+      return { pinStory: row.id };
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Stream JSON - Parse Claude's --output-format stream-json output into typed events
+ * Replaces regexes over raw stdout for token counts, tool calls and completion detection
+ */
+
+import { EventEmitter } from "events";
+import type { StreamEvent, TokenUsage, ResultStreamEvent } from "./types";
+import { addTokenUsage, toTokenUsage } from "./costs";
+import { stripAnsi } from "./pty/ansi";
+
+// AIDEV-NOTE: Claude writes one JSON object per line: a "system" init line, then
+// "assistant" lines (text and tool_use content blocks), "user" lines carrying
+// tool_result blocks, and a final "result" line with the session totals. Claude
+// repeats a message's usage on every content block line, so usage deltas are
+// emitted once per message id. Non-JSON lines (other CLIs, PTY noise) are skipped.
+
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+type StreamLine = {
+  type?: string;
+  subtype?: string;
+  session_id?: string;
+  model?: string;
+  message?: { id?: string; content?: unknown; usage?: Record<string, number | undefined> };
+  content?: unknown; // Older output put content at the top level
+  usage?: Record<string, number | undefined>;
+  is_error?: boolean;
+  result?: string;
+  num_turns?: number;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  cost_usd?: number;
+};
+
+type ContentBlock = {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+};
+
+function contentBlocks(content: unknown): ContentBlock[] {
+  if (typeof content === "string") return [{ type: "text", text: content }];
+  return Array.isArray(content) ? (content as ContentBlock[]) : [];
+}
+
+// tool_result content is a string or a list of text blocks
+function toolResultText(content: unknown): string {
+  const text = typeof content === "string"
+    ? content
+    : contentBlocks(content).map((block) => block.text ?? "").join("\n");
+  return text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}…` : text;
+}
+
+/**
+ * Stream Event Emitter - emits typed events as stream-json lines arrive
+ * Mirrors PTYEventEmitter's API
+ */
+export class StreamEventEmitter extends EventEmitter {
+  /**
+   * Emit a stream event
+   */
+  emitStreamEvent(payload: StreamEvent): boolean {
+    return this.emit("stream-event", payload);
+  }
+
+  /**
+   * Listen for stream events
+   */
+  onStreamEvent(listener: (payload: StreamEvent) => void): this {
+    return this.on("stream-event", listener);
+  }
+
+  /**
+   * Listen for a stream event once
+   */
+  onceStreamEvent(listener: (payload: StreamEvent) => void): this {
+    return this.once("stream-event", listener);
+  }
+}
+
+/**
+ * Incremental stream-json parser - feed it stdout chunks as they arrive
+ */
+export class StreamJsonParser extends StreamEventEmitter {
+  readonly events: StreamEvent[] = [];
+  private buffer = "";
+  private seenMessages = new Set<string>();
+
+  /**
+   * Parse every complete line in the chunk; a partial line waits for the next chunk
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+  }
+
+  /**
+   * Parse whatever is left once the process has exited
+   */
+  end(): void {
+    const rest = this.buffer;
+    this.buffer = "";
+    this.parseLine(rest);
+  }
+
+  private emitEvent(event: StreamEvent): void {
+    this.events.push(event);
+    this.emitStreamEvent(event);
+  }
+
+  private parseLine(rawLine: string): void {
+    const line = stripAnsi(rawLine).replace(/\r/g, "").trim();
+    if (!line.startsWith("{")) return;
+
+    let data: StreamLine;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      return; // Not a stream-json line
+    }
+    if (data == null || typeof data !== "object") return;
+
+    const timestamp = new Date().toISOString();
+
+    switch (data.type) {
+      case "system":
+        if (data.subtype === "init" && data.session_id) {
+          this.emitEvent({ type: "init", timestamp, sessionId: data.session_id, model: data.model });
+        }
+        return;
+
+      case "assistant": {
+        for (const block of contentBlocks(data.message?.content ?? data.content)) {
+          if (block.type === "text" && block.text) {
+            this.emitEvent({ type: "assistant_text", timestamp, text: block.text });
+          } else if (block.type === "tool_use" && block.name) {
+            this.emitEvent({ type: "tool_use", timestamp, id: block.id ?? "", name: block.name, input: block.input ?? {} });
+          }
+        }
+        const usage = data.message?.usage;
+        const messageId = data.message?.id;
+        if (usage && !(messageId && this.seenMessages.has(messageId))) {
+          if (messageId) this.seenMessages.add(messageId);
+          this.emitEvent({ type: "usage", timestamp, usage: toTokenUsage(usage) });
+        }
+        return;
+      }
+
+      case "user":
+        for (const block of contentBlocks(data.message?.content ?? data.content)) {
+          if (block.type === "tool_result") {
+            this.emitEvent({
+              type: "tool_result",
+              timestamp,
+              toolUseId: block.tool_use_id ?? "",
+              content: toolResultText(block.content),
+              isError: block.is_error === true,
+            });
+          }
+        }
+        return;
+
+      case "result":
+        this.emitEvent({
+          type: "result",
+          timestamp,
+          sessionId: data.session_id,
+          isError: data.is_error === true,
+          subtype: data.subtype,
+          text: data.result,
+          numTurns: data.num_turns,
+          durationMs: data.duration_ms,
+          costUsd: data.total_cost_usd ?? data.cost_usd,
+          usage: data.usage ? toTokenUsage(data.usage) : undefined,
+        });
+        return;
+
+      case undefined:
+        // A bare usage block
+        if (data.usage) {
+          this.emitEvent({ type: "usage", timestamp, usage: toTokenUsage(data.usage) });
+        }
+        return;
+    }
+  }
+}
+
+/**
+ * Parse complete stream-json output (e.g. a saved stdout) into events
+ */
+export function parseStreamJson(output: string): StreamEvent[] {
+  const parser = new StreamJsonParser();
+  parser.push(output);
+  parser.end();
+  return parser.events;
+}
+
+export interface StreamSummary {
+  sessionId?: string;
+  model?: string;
+  assistantText: string; // All assistant text blocks, in order
+  toolCalls: Record<string, number>; // Tool name -> number of calls
+  toolErrors: number;
+  tokens: TokenUsage | null; // The result's session total, else the summed deltas
+  result?: ResultStreamEvent; // Missing when the process died before finishing
+}
+
+/**
+ * Fold a run's events into the numbers the runner records
+ */
+export function summarizeStream(events: StreamEvent[]): StreamSummary {
+  const summary: StreamSummary = { assistantText: "", toolCalls: {}, toolErrors: 0, tokens: null };
+  const text: string[] = [];
+  let summed: TokenUsage | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case "init":
+        summary.sessionId = event.sessionId;
+        summary.model = event.model;
+        break;
+      case "assistant_text":
+        text.push(event.text);
+        break;
+      case "tool_use":
+        summary.toolCalls[event.name] = (summary.toolCalls[event.name] ?? 0) + 1;
+        break;
+      case "tool_result":
+        if (event.isError) summary.toolErrors++;
+        break;
+      case "usage":
+        summed = summed ? addTokenUsage(summed, event.usage) : event.usage;
+        break;
+      case "result":
+        summary.result = event;
+        summary.sessionId = event.sessionId ?? summary.sessionId;
+        break;
+    }
+  }
+
+  summary.assistantText = text.join("\n");
+  summary.tokens = summary.result?.usage ?? summed;
+  return summary;
+}
+
+/**
+ * One-line tool-call summary, most used first: "Edit×3, Read×2, Bash"
+ */
+export function formatToolCalls(toolCalls: Record<string, number>): string {
+  return Object.entries(toolCalls)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([name, count]) => (count > 1 ? `${name}×${count}` : name))
+    .join(", ");
+}
+
+// The input field that says what a tool call was about
+function describeToolInput(input: Record<string, unknown>): string {
+  for (const key of ["file_path", "path", "command", "pattern", "url", "description"]) {
+    const value = input[key];
+    if (typeof value === "string" && value) {
+      const firstLine = value.split("\n")[0];
+      return firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine;
+    }
+  }
+  return "";
+}
+
+/**
+ * Readable line for live output; null for events not worth showing
+ */
+export function formatStreamEvent(event: StreamEvent): string | null {
+  switch (event.type) {
+    case "init":
+      return `[session] ${event.sessionId}${event.model ? ` (${event.model})` : ""}`;
+    case "assistant_text":
+      return event.text;
+    case "tool_use": {
+      const detail = describeToolInput(event.input);
+      return `→ ${event.name}${detail ? ` ${detail}` : ""}`;
+    }
+    case "tool_result":
+      return event.isError ? `✗ ${event.content.split("\n")[0]}` : null;
+    case "usage":
+      return null;
+    case "result": {
+      const parts = [event.isError ? `failed (${event.subtype ?? "error"})` : "done"];
+      if (event.numTurns !== undefined) parts.push(`${event.numTurns} turns`);
+      if (event.costUsd !== undefined) parts.push(`$${event.costUsd.toFixed(2)}`);
+      return `[result] ${parts.join(", ")}`;
+    }
+  }
+}
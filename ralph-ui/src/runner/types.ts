@@ -10,18 +10,191 @@ export interface RunnerConfig {
   workingDir: string;
   iterations: number;
   gapSeconds: number;
-  model: Model;
+  model: Model; // Fallback model when no routing config is given
+  modelOverride?: Model; // Explicit --model flag, beats task-type routing
+  routing?: ModelRoutingConfig; // Smart routing settings from config.json
+  pricing?: Record<string, { input: number; output: number }>; // Per-million-token pricing from config.json
+  costsFile?: string; // Cost ledger path (default: ~/.config/ralphtools/costs.jsonl)
+  runsDir?: string; // Run archive root (default: ~/.config/ralphtools/runs)
+  runDir?: string; // This run's archive directory (created by runIterations when unset)
+  runId?: string; // Identifies this run's entries in the cost ledger
+  resume?: RunCheckpoint; // Continue this checkpointed run (--resume) instead of starting fresh
+  budget?: BudgetConfig; // Spend limits checked before every iteration
+  escalation?: EscalationConfig; // Model escalation and auto-blocking for stories that keep failing
+  project?: string; // Project name for the cost ledger (default: basename of workingDir)
+  parallel?: number; // Max stories run at once, each in its own git worktree (default: 1)
   notify: boolean;
-  ntfyTopic?: string;
+  ntfyTopic?: string; // Legacy single ntfy.sh topic, gets every event
+  notifiers?: NotifierConfig[]; // Providers from config.json notifications.providers
+  notificationRouting?: NotificationRoutingConfig; // Event filter, priorities, quiet hours, dedupe, digest
+  control?: RunControl; // Pause/stop/skip/model commands for the running loop
+  remoteControl?: RemoteControlConfig; // ntfy control topic feeding `control`
   quiet: boolean;
   verbose: boolean;
   usePty?: boolean; // Use PTY-based spawning (MP-007)
   onOutput?: (data: string) => void; // Callback for live output (PTY mode)
   onStrippedOutput?: (data: string) => void; // Callback for stripped output (PTY mode)
+  onStreamEvent?: (event: StreamEvent) => void; // Callback for parsed stream-json events (Claude models)
 }
 
 export type Model = "haiku" | "sonnet" | "opus" | "gemini-flash" | "gemini-flash-lite" | "gemini-3-flash" | "gemini-pro" | "kiro" | "ollama";
 
+export const MODELS: Model[] = ["haiku", "sonnet", "opus", "gemini-flash", "gemini-flash-lite", "gemini-3-flash", "gemini-pro", "kiro", "ollama"];
+
+// Subset of config.json used for per-story model routing
+export interface ModelRoutingConfig {
+  modelStrategy?: "single" | "smart";
+  defaultModel?: string;
+  unknownTaskType?: string;
+  models?: Partial<Record<string, string>>;
+}
+
+// Why a model was picked for an iteration
+export type ModelReason =
+  | "story_override"
+  | "cli_override"
+  | "task_type"
+  | "unknown_task_type"
+  | "default"
+  | "escalation"
+  | "budget_downgrade"
+  | "remote_control";
+
+// Spend limits (USD) from config.json "budget"
+export type BudgetLimit = "run" | "story" | "day";
+export type BudgetAction = "warn" | "downgrade" | "stop";
+
+export interface BudgetConfig {
+  perRun?: number;
+  perStory?: number; // Total across all runs for one story in this project
+  perDay?: number; // Total across all projects for the local calendar day
+  action?: BudgetAction; // What to do once a limit is hit (default: stop)
+  downgrade?: Record<string, string>; // Model ladder for "downgrade" (default: opus→sonnet→haiku)
+  warnAt?: number; // Warn-only run threshold (costEstimation.warnThreshold)
+}
+
+// Notification events a provider can subscribe to (config.json notifications.providers[].events)
+export type NotificationEvent =
+  | "iteration_complete"
+  | "story_complete"
+  | "all_complete"
+  | "blocked"
+  | "all_blocked"
+  | "error"
+  | "retry"
+  | "max_iterations"
+  | "budget";
+
+export type NotificationPriority = "min" | "low" | "default" | "high" | "urgent";
+
+export interface Notification {
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  priority: NotificationPriority;
+  tags: string[]; // ntfy emoji shortcodes
+  storyId?: string;
+  project?: string;
+}
+
+// One notification channel (ntfy, webhook, Slack, Discord, desktop)
+export interface Notifier {
+  readonly name: string;
+  send(notification: Notification): Promise<boolean>;
+}
+
+// A provider entry in config.json notifications.providers; events unset = every event
+export type NotifierConfig =
+  | { type: "ntfy"; topic: string; baseUrl?: string; token?: string; events?: NotificationEvent[] }
+  | { type: "webhook"; url: string; headers?: Record<string, string>; events?: NotificationEvent[] }
+  | { type: "slack" | "discord"; url: string; events?: NotificationEvent[] }
+  | { type: "desktop"; command?: string; events?: NotificationEvent[] };
+
+// How notifications are filtered and shaped before they reach the providers (config.json notifications)
+export interface NotificationRoutingConfig {
+  events?: NotificationEvent[]; // Only these events are sent (default: all); a provider's own events narrow it further
+  priorities?: Partial<Record<NotificationEvent, NotificationPriority>>;
+  tags?: Partial<Record<NotificationEvent, string[]>>;
+  quietHours?: { start: string; end: string; minPriority?: NotificationPriority }; // "HH:MM" local time; below minPriority (default: urgent) is dropped
+  dedupeSeconds?: number; // Drop an identical alert sent within this window (default: 300, 0 = off)
+  digest?: { intervalMinutes: number; events?: NotificationEvent[] }; // Batch these events (default: iteration_complete) into one message
+}
+
+// Commands for a running loop (ntfy control topic)
+export type ControlCommand =
+  | { type: "pause" } // Hold the loop after the current iteration
+  | { type: "resume" }
+  | { type: "stop" } // End the loop after the current iteration (resumable with --resume)
+  | { type: "skip"; storyId?: string } // Pass over a story for the rest of the run (default: the current one)
+  | { type: "model"; model: Model | null } // Model for the following iterations (null: back to routing)
+  | { type: "retry" } // Cut a retry cooldown short
+  | { type: "verbose" } // Toggle [verbose] logging
+  | { type: "status" };
+
+export interface ControlReply {
+  ok: boolean;
+  message: string;
+}
+
+// What the loop reads between iterations (control.ts RunController)
+export interface RunControl {
+  readonly paused: boolean;
+  readonly stopRequested: boolean;
+  readonly skippedStories: string[];
+  readonly model: Model | null;
+  readonly verbose: boolean; // Overrides RunnerConfig.verbose
+  apply(command: ControlCommand): ControlReply;
+  waitUntilResumed(): Promise<void>;
+  cooldown(ms: number): Promise<void>; // Retry cooldown; "retry" and "stop" end it early
+}
+
+// config.json notifications.control: commands arrive on an ntfy topic, prefixed with the secret
+export interface RemoteControlConfig {
+  topic: string;
+  secret: string;
+  baseUrl?: string; // Default: DEFAULT_NTFY_URL
+  token?: string; // Access token for a self-hosted server
+  replyTopic?: string; // Where replies go (default: the notification topic)
+}
+
+// Where a run stands after each iteration (runs/<timestamp>/checkpoint.json)
+export type CheckpointStatus = "running" | "interrupted" | "finished";
+
+export interface RunCheckpoint {
+  runId: string;
+  runDir: string;
+  project: string;
+  workingDir: string;
+  prdJsonDir: string;
+  status: CheckpointStatus;
+  iteration: number; // Next iteration to run
+  iterations: number; // The run's iteration limit
+  retryCount: number;
+  runStartedAt: string; // ISO-8601, from the first start (not the resume)
+  storiesCompleted: number;
+  totalCost: number; // Estimated spend so far (same numbers as costs.jsonl)
+  budgetRemaining?: number; // budget.perRun minus this run's spend, when perRun is set
+  storyAttempts: Record<string, number>; // Iterations spent on each story in this run
+  lastStoryId?: string;
+  lastSessionId?: string;
+  updatedAt: string;
+}
+
+// Failed-attempt handling from config.json "escalation"
+export interface EscalationConfig {
+  ladder?: Record<string, string>; // Next model up after failed attempts (default: haiku→sonnet→opus)
+  escalateAfter?: number; // Failed attempts per step up the ladder (default: 1)
+  maxFailedAttempts?: number; // Auto-block the story after this many (unset or 0 = never)
+}
+
+// Per-iteration adjustments decided by the loop
+export interface IterationOptions {
+  budgetDowngrade?: boolean; // Swap the routed model for a cheaper one (budget.downgrade)
+  storyId?: string; // Run this story instead of index.json nextStory (parallel mode)
+  skipStories?: string[]; // Pass over these while another story is ready (remote "skip")
+  modelOverride?: Model; // Model set by a remote "model" command, beats all routing
+}
+
 export interface IterationResult {
   iteration: number;
   storyId: string;
@@ -30,8 +203,101 @@ export interface IterationResult {
   hasBlocked: boolean;
   durationMs: number;
   error?: string;
+  model?: Model; // Model the story was routed to
+  modelReason?: ModelReason;
+  sessionId?: string;
+  tokens?: TokenUsage;
+  estimatedCost?: number; // USD, from tokens and model pricing
+  budgetExceeded?: boolean; // Loop stopped before spawning because a budget limit was hit
+  budgetWarning?: string; // The story ran although it is past budget.perStory (warn / downgrade)
+  failedAttempts?: number; // Story's consecutive attempts without progress, after this iteration
+  blockedReason?: string; // Set when this iteration auto-blocked the story (failed attempts, story budget)
+  verification?: IterationVerification; // What the iteration changed on disk (see verify.ts)
+  toolCalls?: Record<string, number>; // Tool name -> number of calls, from the stream events
+  events?: StreamEvent[]; // Claude's stream-json output as typed events
+}
+
+// Post-iteration check of the story file, index.json and git
+export type IterationVerdict = "completed" | "partial" | "no_progress" | "inconsistent";
+
+export interface IterationVerification {
+  verdict: IterationVerdict;
+  criteriaChecked: string[]; // Criteria this iteration checked
+  criteriaTotal: number;
+  criteriaDone: number; // Checked after the iteration
+  passes: boolean;
+  completedAt?: string;
+  removedFromPending: boolean;
+  commits: string[]; // "<short hash> <subject>", newest first
+  issues: string[]; // Why the state is inconsistent
+}
+
+// Token usage for one iteration
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheCreate?: number;
+  cacheRead?: number;
+}
+
+// Typed events parsed from Claude's --output-format stream-json output
+export type StreamEventType = "init" | "assistant_text" | "tool_use" | "tool_result" | "usage" | "result";
+
+interface StreamEventBase {
+  type: StreamEventType;
+  timestamp: string; // ISO-8601, when the line was parsed
+}
+
+export interface InitStreamEvent extends StreamEventBase {
+  type: "init";
+  sessionId: string;
+  model?: string;
+}
+
+export interface AssistantTextStreamEvent extends StreamEventBase {
+  type: "assistant_text";
+  text: string;
 }
 
+export interface ToolUseStreamEvent extends StreamEventBase {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultStreamEvent extends StreamEventBase {
+  type: "tool_result";
+  toolUseId: string;
+  content: string; // Truncated - tool output can be whole files
+  isError: boolean;
+}
+
+export interface UsageStreamEvent extends StreamEventBase {
+  type: "usage";
+  usage: TokenUsage; // Delta for one assistant message
+}
+
+export interface ResultStreamEvent extends StreamEventBase {
+  type: "result";
+  sessionId?: string;
+  isError: boolean;
+  subtype?: string; // "success", "error_max_turns", ...
+  text?: string; // Final assistant message
+  numTurns?: number;
+  durationMs?: number;
+  costUsd?: number;
+  usage?: TokenUsage; // Session total
+}
+
+export type StreamEvent =
+  | InitStreamEvent
+  | AssistantTextStreamEvent
+  | ToolUseStreamEvent
+  | ToolResultStreamEvent
+  | UsageStreamEvent
+  | ResultStreamEvent;
+
 export type RunnerState =
   | "init"
   | "load_story"
@@ -44,15 +310,22 @@ export type RunnerState =
 
 // Status file for UI communication
 export interface RalphStatus {
-  state: "running" | "cr_review" | "error" | "retry" | "complete" | "interrupted" | "terminated";
+  state: "running" | "cr_review" | "error" | "retry" | "complete" | "interrupted" | "terminated" | "budget_exceeded" | "paused";
   iteration: number;
   storyId: string;
   model?: string; // Model being used (haiku, sonnet, opus)
+  modelReason?: ModelReason; // Why the model was picked
   startTime?: number; // Start time in milliseconds (for elapsed time calculation)
   lastActivity: number; // Unix timestamp in seconds
   error: string | null;
   retryIn: number; // Seconds until retry (0 if not retrying)
   pid: number;
+  project?: string; // Project name (basename of the working dir unless configured)
+  workingDir?: string;
+  prdJsonDir?: string;
+  runId?: string;
+  cost?: number; // Estimated spend of this run so far (USD)
+  controlSocket?: string; // Unix socket taking control commands (see control-socket.ts)
 }
 
 // Error types for detection and retry logic
@@ -81,30 +354,63 @@ export interface SpawnResult {
   stderr: string;
   durationMs: number;
   sessionId?: string;
+  events?: StreamEvent[]; // Parsed while the process ran (empty for non-Claude CLIs)
 }
 
-// PRD types (extending existing types.ts)
+// PRD types - the one Story/PRDIndex shape for the runner, the UI and bun/core
 export interface AcceptanceCriterion {
   text: string;
   checked: boolean;
+  completedAt?: string;
+}
+
+export type StoryPriority = "critical" | "high" | "medium" | "low";
+export type StoryType = "feature" | "bug" | "test" | "audit" | "verification" | "meta";
+export type StoryStatus = "pending" | "in_progress" | "completed" | "blocked";
+
+// Why the runner blocked a story itself (blockedBy carries the readable version)
+export interface BlockedReason {
+  type: "failed_attempts";
+  attempts: number;
+  lastModel?: string;
+  lastVerdict?: IterationVerdict;
+  blockedAt: string; // ISO-8601
 }
 
 export interface Story {
   id: string;
   title: string;
   description?: string;
+  type?: StoryType;
+  priority?: StoryPriority; // Tiebreaker between stories whose dependencies are met
+  storyPoints?: number;
+  status?: StoryStatus;
   acceptanceCriteria: AcceptanceCriterion[];
   dependencies?: string[];
   blockedBy?: string;
+  blockedReason?: BlockedReason; // Set when the runner auto-blocked the story
   passes?: boolean;
+  failedAttempts?: number; // Consecutive iterations without criteria progress
+  notes?: string;
   completedAt?: string;
   completedBy?: string;
+  commitHash?: string;
+  model?: string; // Story-level model override
+}
+
+export interface PRDIndexStats {
+  total: number;
+  completed: number;
+  pending: number;
+  blocked: number;
 }
 
 export interface PRDIndex {
   $schema?: string;
   generatedAt?: string;
+  stats?: PRDIndexStats; // Cached counts - recomputed on every writeIndex()
   nextStory?: string;
+  pinnedStory?: string; // Marked next by a human - runs first once its dependencies are met
   storyOrder: string[];
   pending: string[];
   blocked: string[];
@@ -114,11 +420,14 @@ export interface PRDIndex {
 
 export interface UpdateQueue {
   // Standard queue operations
-  newStories?: Story[];
+  newStories?: (Story | string)[]; // A bare ID adds a story file that already exists
   updateStories?: Partial<Story>[];
   moveToPending?: string[];
   moveToBlocked?: [string, string][];
   removeStories?: string[];
+  checkCriteria?: [string, number, boolean][]; // [storyId, criterionIndex, checked] - passes follows
+  moveStories?: [string, number][]; // [storyId, offset] in storyOrder - negative moves it earlier
+  pinStory?: string; // Set index.pinnedStory ("" clears it)
   // Direct override format (BUG-029 fix)
   // These allow update.json to directly specify new values for index arrays
   storyOrder?: string[];
@@ -0,0 +1,176 @@
+/**
+ * Iteration Verification - Check what an iteration actually changed on disk
+ * Exit code 0 only means Claude stopped cleanly, not that the story moved
+ */
+
+import type { Story, IterationVerification } from "./types";
+import { readIndex, readStory } from "./prd";
+import { git } from "./worktree";
+
+// AIDEV-NOTE: The runner snapshots the story, its index lists and git HEAD before
+// spawning Claude, and again afterwards. verifyIteration() compares the two:
+// - completed: passes=true, every criterion checked, out of pending, new commit
+// - partial: criteria checked or commits made, story not done yet
+// - no_progress: nothing changed
+// - inconsistent: the files contradict each other (e.g. passes=true with unchecked
+//   criteria, criteria deleted, story dropped from pending without passing)
+// Commits are only required when the working dir is a git repo. A story file that
+// disappears into index.json completed counts as archived, not deleted.
+
+export interface StorySnapshot {
+  storyId: string;
+  story: Story | null;
+  error?: string; // Why the story file couldn't be read
+  inPending: boolean;
+  inBlocked: boolean;
+  inCompleted: boolean;
+  head: string | null; // git HEAD of the working dir (null outside a repo)
+}
+
+function readHead(workingDir: string): string | null {
+  try {
+    return git(workingDir, ["rev-parse", "HEAD"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snapshot a story's state before or after an iteration
+ */
+export function captureStorySnapshot(prdJsonDir: string, workingDir: string, storyId: string): StorySnapshot {
+  let story: Story | null = null;
+  let error: string | undefined;
+  try {
+    story = readStory(prdJsonDir, storyId);
+  } catch (readError) {
+    error = readError instanceof Error ? readError.message : String(readError);
+  }
+
+  let index = null;
+  try {
+    index = readIndex(prdJsonDir);
+  } catch {
+    // An invalid index is reported by checkPRDFiles before the next iteration
+  }
+
+  return {
+    storyId,
+    story,
+    error,
+    inPending: index?.pending.includes(storyId) ?? false,
+    inBlocked: index?.blocked.includes(storyId) ?? false,
+    inCompleted: index?.completed?.includes(storyId) ?? false,
+    head: readHead(workingDir),
+  };
+}
+
+/**
+ * Commits made between two HEADs, as "<short hash> <subject>", newest first
+ */
+export function listNewCommits(workingDir: string, from: string | null, to: string | null): string[] {
+  if (!from || !to || from === to) return [];
+  try {
+    const log = git(workingDir, ["log", "--format=%h %s", `${from}..${to}`]);
+    return log ? log.split("\n") : [];
+  } catch {
+    return [];
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function criteria(count: number): string {
+  return `${count} criteri${count === 1 ? "on" : "a"}`;
+}
+
+/**
+ * Classify an iteration from the before/after snapshots and the commits it made
+ */
+export function verifyIteration(before: StorySnapshot, after: StorySnapshot, commits: string[] = []): IterationVerification {
+  const issues: string[] = [];
+  const criteriaBefore = before.story?.acceptanceCriteria ?? [];
+  const criteriaAfter = after.story?.acceptanceCriteria ?? [];
+  const wasChecked = new Map(criteriaBefore.map((criterion) => [criterion.text, criterion.checked]));
+
+  const newlyChecked = criteriaAfter
+    .filter((criterion) => criterion.checked && wasChecked.get(criterion.text) !== true)
+    .map((criterion) => criterion.text);
+  const unchecked = criteriaAfter
+    .filter((criterion) => !criterion.checked && wasChecked.get(criterion.text) === true)
+    .map((criterion) => criterion.text);
+  const checkedCount = criteriaAfter.filter((criterion) => criterion.checked).length;
+  const allChecked = criteriaAfter.length > 0 && checkedCount === criteriaAfter.length;
+  const archived = !after.story && !after.error && after.inCompleted;
+  const passes = after.story?.passes === true || archived;
+  const removedFromPending = before.inPending && !after.inPending;
+
+  if (archived) {
+    if (after.head !== null && commits.length === 0) {
+      issues.push("marked complete without a commit");
+    }
+  } else if (!after.story) {
+    issues.push(after.error ?? "story file was deleted");
+  } else {
+    if (criteriaAfter.length < criteriaBefore.length) {
+      issues.push(`${criteria(criteriaBefore.length - criteriaAfter.length)} removed`);
+    }
+    for (const text of unchecked) {
+      issues.push(`criterion was unchecked: ${text}`);
+    }
+    if (passes && !allChecked) {
+      issues.push(`passes=true with ${criteria(criteriaAfter.length - checkedCount)} unchecked`);
+    }
+    if (passes && after.inPending) {
+      issues.push("passes=true but still in index.json pending");
+    }
+    if (removedFromPending && !passes && !after.inBlocked) {
+      issues.push("removed from index.json pending without passing");
+    }
+    if (passes && !before.story?.passes && after.head !== null && commits.length === 0) {
+      issues.push("marked complete without a commit");
+    }
+  }
+
+  let verdict: IterationVerification["verdict"];
+  if (issues.length > 0) {
+    verdict = "inconsistent";
+  } else if (archived || (passes && allChecked)) {
+    verdict = "completed";
+  } else if (newlyChecked.length > 0 || commits.length > 0) {
+    verdict = "partial";
+  } else {
+    verdict = "no_progress";
+  }
+
+  return {
+    verdict,
+    criteriaChecked: newlyChecked,
+    criteriaTotal: criteriaAfter.length,
+    criteriaDone: checkedCount,
+    passes,
+    completedAt: after.story?.completedAt,
+    removedFromPending,
+    commits,
+    issues,
+  };
+}
+
+/**
+ * One-line summary for logs and result errors
+ */
+export function describeVerification(verification: IterationVerification): string {
+  const commits = verification.commits.length > 0 ? plural(verification.commits.length, "commit") : "no commit";
+  switch (verification.verdict) {
+    case "completed":
+      return `completed (${verification.criteriaDone}/${verification.criteriaTotal} criteria, ${commits})`;
+    case "partial":
+      return `partial progress (${verification.criteriaDone}/${verification.criteriaTotal} criteria, ${verification.criteriaChecked.length} newly checked, ${commits})`;
+    case "no_progress":
+      return `no progress (no criteria checked, ${commits})`;
+    case "inconsistent":
+      return `inconsistent story state: ${verification.issues.join("; ")}`;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Story Worktrees - One git worktree per story for parallel execution
+ * Uses the same ~/worktrees/<repo>/ layout as lib/ralph-worktrees.zsh
+ */
+
+import { spawnSync } from "bun";
+import { cpSync, existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { basename, join, relative } from "path";
+import { homedir } from "os";
+
+// AIDEV-NOTE: The main checkout owns PRD state while stories run in parallel.
+// Claude edits (and commits) the worktree's prd-json copy as usual; before merging,
+// mergeStoryWorktree() restores prd-json on the story branch to its base commit so
+// parallel branches never conflict there. The scheduler applies each story's
+// result to the main PRD itself (see parallel.ts). Every worktree gets its own PRD
+// copy - a PRD outside the repo is copied next to the worktree, never shared, so
+// agents running side by side can't race on index.json nextStory.
+
+// Append-only files whose conflicts are resolved by keeping both sides
+const UNION_MERGE_FILES = ["progress.txt"];
+
+export interface StoryWorktree {
+  storyId: string;
+  path: string;
+  branch: string;
+  base: string; // Commit the branch was created from
+  prdJsonDir: string; // PRD directory inside the worktree
+}
+
+export interface MergeResult {
+  merged: boolean;
+  error?: string;
+}
+
+/**
+ * Run a git command, returning trimmed stdout (throws on non-zero exit)
+ */
+export function git(cwd: string, args: string[]): string {
+  const proc = spawnSync(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" });
+  if (proc.exitCode !== 0) {
+    const stderr = proc.stderr.toString().trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || `exit ${proc.exitCode}`}`);
+  }
+  return proc.stdout.toString().trim();
+}
+
+// PRD directory relative to the repo root, or null when it lives outside the repo
+function prdPathInRepo(repoRoot: string, prdJsonDir: string): string | null {
+  const rel = relative(repoRoot, prdJsonDir);
+  return rel.startsWith("..") ? null : rel;
+}
+
+/**
+ * Get the top-level directory of the git repo containing dir (null if not a repo)
+ */
+export function getRepoRoot(dir: string): string | null {
+  try {
+    return git(dir, ["rev-parse", "--show-toplevel"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Base directory for story worktrees of a repo
+ */
+export function getWorktreeBase(repoRoot: string): string {
+  return join(process.env.HOME || homedir(), "worktrees", basename(repoRoot));
+}
+
+/**
+ * Create a worktree + branch for a story from the current HEAD
+ * The PRD directory is copied in (or next to the worktree when it lives outside the repo)
+ */
+export function createStoryWorktree(
+  repoRoot: string,
+  prdJsonDir: string,
+  storyId: string,
+  runId: string
+): StoryWorktree {
+  const base = git(repoRoot, ["rev-parse", "HEAD"]);
+  const worktreeBase = getWorktreeBase(repoRoot);
+  const path = join(worktreeBase, `${runId}-${storyId}`);
+  const branch = `ralph/${runId}/${storyId}`;
+
+  if (!existsSync(worktreeBase)) {
+    mkdirSync(worktreeBase, { recursive: true });
+  }
+
+  git(repoRoot, ["worktree", "add", "-b", branch, path, base]);
+
+  // Outside the worktree itself, so Claude can't commit the copy onto the branch
+  const prdRel = prdPathInRepo(repoRoot, prdJsonDir);
+  const worktreePrd = prdRel === null ? `${path}-prd-json` : join(path, prdRel);
+  cpSync(prdJsonDir, worktreePrd, { recursive: true });
+
+  return { storyId, path, branch, base, prdJsonDir: worktreePrd };
+}
+
+// Tracked files with staged or unstaged changes in the main checkout
+// The runner's own uncommitted prd-json writes don't count: the merge never touches them
+function uncommittedChanges(repoRoot: string, prdRel: string | null): string[] {
+  const exclude = prdRel ? ["--", ".", `:(exclude)${prdRel}`] : [];
+  const staged = git(repoRoot, ["diff", "--cached", "--name-only"]);
+  const unstaged = git(repoRoot, ["diff", "--name-only", ...exclude]);
+  return [...new Set([staged, unstaged].join("\n").split("\n").filter(Boolean))];
+}
+
+// Resolve a conflicted append-only file by keeping both sides
+function unionMerge(repoRoot: string, file: string): void {
+  const show = (stage: number) => {
+    const proc = spawnSync(["git", "show", `:${stage}:${file}`], { cwd: repoRoot, stdout: "pipe", stderr: "pipe" });
+    return proc.exitCode === 0 ? proc.stdout.toString() : "";
+  };
+
+  const tmp = join(git(repoRoot, ["rev-parse", "--absolute-git-dir"]), "ralph-union");
+  mkdirSync(tmp, { recursive: true });
+  const [ours, baseFile, theirs] = ["ours", "base", "theirs"].map((name) => join(tmp, name));
+  writeFileSync(ours, show(2));
+  writeFileSync(baseFile, show(1));
+  writeFileSync(theirs, show(3));
+
+  const merged = spawnSync(["git", "merge-file", "-p", "--union", ours, baseFile, theirs], {
+    cwd: repoRoot,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  writeFileSync(join(repoRoot, file), merged.stdout.toString());
+  git(repoRoot, ["add", "--", file]);
+}
+
+/**
+ * Merge a story branch into the main checkout
+ * prd-json changes on the branch are dropped; any conflict outside
+ * UNION_MERGE_FILES aborts the merge and leaves the branch for manual review.
+ * The merge is skipped while the main checkout has uncommitted changes, so
+ * they are never swept into the merge commit or lost to `git merge --abort`.
+ */
+export function mergeStoryWorktree(
+  repoRoot: string,
+  prdJsonDir: string,
+  worktree: StoryWorktree
+): MergeResult {
+  try {
+    // Nothing committed on the branch - nothing to merge
+    if (git(repoRoot, ["rev-list", "--count", `${worktree.base}..${worktree.branch}`]) === "0") {
+      return { merged: true };
+    }
+
+    const prdRel = prdPathInRepo(repoRoot, prdJsonDir);
+    const dirty = uncommittedChanges(repoRoot, prdRel);
+    if (dirty.length > 0) {
+      return { merged: false, error: `main checkout has uncommitted changes (${dirty.join(", ")})` };
+    }
+
+    // Hand PRD state back to the runner: reset prd-json on the branch
+    if (prdRel !== null && git(repoRoot, ["ls-tree", "-d", worktree.base, "--", prdRel])) {
+      git(worktree.path, ["restore", `--source=${worktree.base}`, "--staged", "--worktree", "--", prdRel]);
+      if (git(worktree.path, ["diff", "--cached", "--name-only"])) {
+        git(worktree.path, ["commit", "--no-verify", "-m", `chore: [${worktree.storyId}] leave PRD state to the runner`]);
+      }
+    }
+  } catch (error) {
+    return { merged: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const merge = spawnSync(["git", "merge", "--no-ff", "--no-commit", worktree.branch], {
+    cwd: repoRoot,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  try {
+    if (merge.exitCode !== 0) {
+      const conflicts = git(repoRoot, ["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+      if (conflicts.length === 0) {
+        throw new Error(merge.stderr.toString().trim() || "git merge failed");
+      }
+
+      const unresolved = conflicts.filter((file) => !UNION_MERGE_FILES.includes(file));
+      if (unresolved.length > 0) {
+        throw new Error(`merge conflict in ${unresolved.join(", ")}`);
+      }
+      conflicts.forEach((file) => unionMerge(repoRoot, file));
+    }
+
+    git(repoRoot, ["commit", "--no-verify", "-m", `Merge ${worktree.storyId} (${worktree.branch})`]);
+    return { merged: true };
+  } catch (error) {
+    spawnSync(["git", "merge", "--abort"], { cwd: repoRoot, stdout: "pipe", stderr: "pipe" });
+    return { merged: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Remove a story worktree, and its branch unless it still holds unmerged work
+ */
+export function removeStoryWorktree(repoRoot: string, worktree: StoryWorktree, keepBranch = false): void {
+  try {
+    git(repoRoot, ["worktree", "remove", "--force", worktree.path]);
+  } catch {
+    // Already gone
+  }
+  // A PRD copy kept next to the worktree (PRD outside the repo)
+  if (relative(worktree.path, worktree.prdJsonDir).startsWith("..")) {
+    rmSync(worktree.prdJsonDir, { recursive: true, force: true });
+  }
+  if (!keepBranch) {
+    try {
+      git(repoRoot, ["branch", "-D", worktree.branch]);
+    } catch {
+      // Branch already deleted
+    }
+  }
+  try {
+    git(repoRoot, ["worktree", "prune"]);
+  } catch {
+    // Non-critical
+  }
+}
@@ -1,38 +1,7 @@
-export interface StoryData {
-  id: string;
-  title: string;
-  description?: string;
-  type?: string;
-  priority?: string;
-  storyPoints?: number;
-  status: string;
-  model?: string;
-  acceptanceCriteria: AcceptanceCriterion[];
-  dependencies?: string[];
-  passes: boolean;
-  blockedBy?: string;
-}
+import type { RunControl, Story } from './runner/types.js';
 
-export interface AcceptanceCriterion {
-  text: string;
-  checked: boolean;
-}
-
-export interface PRDIndex {
-  generatedAt: string;
-  // stats field is optional - compute from arrays if missing
-  stats?: {
-    total: number;
-    completed: number;
-    pending: number;
-    blocked: number;
-  };
-  nextStory: string;
-  storyOrder: string[];
-  pending: string[];
-  blocked: string[];
-  newStories: string[];
-}
+// Story/PRD index shapes live in runner/types.ts (shared with bun/core)
+export type { Story, PRDIndex, AcceptanceCriterion } from './runner/types.js';
 
 export interface DashboardProps {
   mode: 'startup' | 'iteration' | 'live';
@@ -42,6 +11,9 @@ export interface DashboardProps {
   startTime?: number;
   ntfyTopic?: string;
   onExitRequest?: () => void;  // Called when user requests exit (q key or Ctrl+C)
+  pid?: number;  // Live mode: follow this Ralph instance's status file (fleet drill-down)
+  onBack?: () => void;  // q/Esc returns here instead of exiting (fleet drill-down)
+  control?: RunControl;  // Runner mode: p/s/r/m/v keys steer the loop
 }
 
 export interface PRDStats {
@@ -51,19 +23,27 @@ export interface PRDStats {
   blockedStories: number;
   totalCriteria: number;
   checkedCriteria: number;
-  currentStory: StoryData | null;
+  currentStory: Story | null;
   nextStoryId: string;
+  error?: string; // index/story/update.json files that failed schema validation
 }
 
 // Status file written by ralph.zsh at /tmp/ralph-status-$$.json
 export interface RalphStatus {
-  state: 'running' | 'cr_review' | 'error' | 'retry' | 'complete' | 'interrupted' | 'terminated';
+  state: 'running' | 'cr_review' | 'error' | 'retry' | 'complete' | 'interrupted' | 'terminated' | 'budget_exceeded' | 'paused';
   iteration: number;
   storyId: string;
   model?: string; // Model being used (haiku, sonnet, opus)
+  modelReason?: string; // Why the model was picked (task_type, cli_override, ...)
   startTime?: number; // Start time in milliseconds (for elapsed time calculation)
   lastActivity: number; // Unix timestamp in seconds
   error: string | null;
   retryIn: number; // Seconds until retry (0 if not retrying)
   pid: number;
+  project?: string; // Project name (basename of the working dir unless configured)
+  workingDir?: string;
+  prdJsonDir?: string;
+  runId?: string;
+  cost?: number; // Estimated spend of this run so far (USD)
+  controlSocket?: string; // Unix socket taking control commands (ralph ctl)
 }
@@ -6,6 +6,8 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { formatSchemaError, validateAgainst } from '../runner/schema.js';
+import type { NotifierConfig, NotificationRoutingConfig, RemoteControlConfig } from '../runner/types.js';
 
 // Types
 export type Model = 'haiku' | 'sonnet' | 'opus' | 'gemini-flash' | 'gemini-pro' | 'kiro' | string;
@@ -23,10 +25,12 @@ export interface RalphConfig {
   models?: Record<string, Model>;
   parallelVerification?: boolean;
   parallelAgents?: number;
-  notifications?: {
+  // events, priorities, tags, quietHours, dedupeSeconds and digest are applied by the runner's notification router
+  notifications?: NotificationRoutingConfig & {
     enabled?: boolean;
     ntfyTopic?: string;
-    events?: string[];
+    providers?: NotifierConfig[];  // Extra channels: self-hosted ntfy, webhook, slack, discord, desktop
+    control?: RemoteControlConfig;  // ntfy topic the runner takes commands from (pause, stop, skip, ...)
   };
   defaults?: {
     maxIterations?: number;
@@ -42,6 +46,18 @@ export interface RalphConfig {
     avgTokensPerStory?: { input?: number; output?: number };
     warnThreshold?: number;
   };
+  budget?: {
+    perRun?: number;
+    perStory?: number;
+    perDay?: number;
+    action?: 'warn' | 'downgrade' | 'stop';
+    downgrade?: Record<string, Model>;
+  };
+  escalation?: {
+    ladder?: Record<string, Model>;
+    escalateAfter?: number;
+    maxFailedAttempts?: number;
+  };
   errorHandling?: {
     maxRetries?: number;
     noMessagesMaxRetries?: number;
@@ -72,25 +88,44 @@ const DEFAULT_CONFIG: Partial<RalphConfig> = {
 const RALPH_CONFIG_DIR = join(homedir(), '.config', 'ralphtools');
 const RALPH_CONFIG_FILE = join(RALPH_CONFIG_DIR, 'config.json');
 
+export interface LoadedConfig {
+  config: RalphConfig;
+  error: string | null; // config.json problems, for the dashboard's ErrorBanner
+}
+
 /**
- * Load config from config.json with defaults
+ * Load config from config.json with defaults, reporting schema problems
+ * An unparseable file falls back to the defaults; a file that parses but breaks
+ * config.schema.json is still used, with the problem reported in `error`.
  */
-export function loadConfig(configPath?: string): RalphConfig {
+export function loadConfigChecked(configPath?: string): LoadedConfig {
   const filePath = configPath ?? RALPH_CONFIG_FILE;
 
   if (!existsSync(filePath)) {
-    return { ...DEFAULT_CONFIG } as RalphConfig;
+    return { config: { ...DEFAULT_CONFIG } as RalphConfig, error: null };
   }
 
+  let userConfig: Partial<RalphConfig>;
   try {
-    const content = readFileSync(filePath, 'utf-8');
-    const userConfig: Partial<RalphConfig> = JSON.parse(content);
-
-    // Merge with defaults
-    return { ...DEFAULT_CONFIG, ...userConfig } as RalphConfig;
-  } catch {
-    return { ...DEFAULT_CONFIG } as RalphConfig;
+    userConfig = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    return {
+      config: { ...DEFAULT_CONFIG } as RalphConfig,
+      error: formatSchemaError(filePath, [{ path: '$', message: `invalid JSON (${(error as Error).message})` }]),
+    };
   }
+
+  // Merge with defaults
+  const config = { ...DEFAULT_CONFIG, ...userConfig } as RalphConfig;
+  const issues = validateAgainst('config', config);
+  return { config, error: issues.length > 0 ? formatSchemaError(filePath, issues) : null };
+}
+
+/**
+ * Load config from config.json with defaults
+ */
+export function loadConfig(configPath?: string): RalphConfig {
+  return loadConfigChecked(configPath).config;
 }
 
 /**
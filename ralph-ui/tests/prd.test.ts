@@ -6,7 +6,15 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { existsSync, mkdirSync, rmSync, writeFileSync, readFileSync, unlinkSync } from "fs";
 import { join } from "path";
-import { applyUpdateQueue } from "../src/runner/prd";
+import {
+  applyUpdateQueue,
+  blockStory,
+  completeStory,
+  readIndex,
+  readStory,
+  refreshNextStory,
+  writeIndex,
+} from "../src/runner/prd";
 
 // Types
 interface AcceptanceCriterion {
@@ -381,6 +389,94 @@ describe("Update Queue Processing", () => {
   });
 });
 
+describe("Transactional Update Queue", () => {
+  beforeEach(setupTestPRD);
+  afterEach(cleanupTestPRD);
+
+  const updatePath = join(PRD_JSON_DIR, "update.json");
+  const newStory = (id: string): Story => ({ id, title: id, acceptanceCriteria: [{ text: "Do it", checked: false }] });
+
+  it("should apply every operation and delete update.json", () => {
+    writeFileSync(
+      updatePath,
+      JSON.stringify({ newStories: [newStory("US-003")], moveToPending: ["BUG-001"], removeStories: ["US-002"] })
+    );
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+
+    expect(result.applied).toBe(true);
+    expect(result.changes).toEqual(["Added story: US-003", "Unblocked story: BUG-001", "Removed story: US-002"]);
+    expect(readIndex(PRD_JSON_DIR)?.pending).toEqual(["US-001", "US-003", "BUG-001"]);
+    expect(readStory(PRD_JSON_DIR, "BUG-001")?.blockedBy).toBeUndefined();
+    expect(existsSync(join(STORIES_DIR, "US-002.json"))).toBe(false);
+    expect(existsSync(updatePath)).toBe(false);
+  });
+
+  it("should unblock stories blocked on a story the queue completes", () => {
+    const blocked = readStory(PRD_JSON_DIR, "BUG-001")!;
+    writeFileSync(join(STORIES_DIR, "BUG-001.json"), JSON.stringify({ ...blocked, blockedBy: "US-002" }, null, 2));
+    writeFileSync(updatePath, JSON.stringify({ checkCriteria: [["US-002", 0, true]] }));
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+
+    expect(result.changes).toEqual([
+      "Checked criterion 1 of US-002",
+      "Completed story: US-002 (every criterion checked)",
+      "Auto-unblocked BUG-001: blocker US-002 completed",
+    ]);
+    expect(readIndex(PRD_JSON_DIR)).toMatchObject({ pending: ["US-001", "BUG-001"], blocked: [], completed: ["US-002"] });
+    expect(readStory(PRD_JSON_DIR, "BUG-001")?.blockedBy).toBeUndefined();
+  });
+
+  it("should only report changes on a dry run", () => {
+    writeFileSync(updatePath, JSON.stringify({ newStories: [newStory("US-003")], removeStories: ["US-002"] }));
+    const indexBefore = readFileSync(join(PRD_JSON_DIR, "index.json"), "utf-8");
+
+    const result = applyUpdateQueue(PRD_JSON_DIR, { dryRun: true });
+
+    expect(result.applied).toBe(false);
+    expect(result.changes).toEqual(["Added story: US-003", "Removed story: US-002"]);
+    expect(result.diffs?.map((diff) => diff.file)).toEqual(["stories/US-003.json", "stories/US-002.json", "index.json"]);
+    expect(result.diffs?.[0].lines).toContain('+  "id": "US-003",');
+    expect(readFileSync(join(PRD_JSON_DIR, "index.json"), "utf-8")).toBe(indexBefore);
+    expect(existsSync(join(STORIES_DIR, "US-003.json"))).toBe(false);
+    expect(existsSync(join(STORIES_DIR, "US-002.json"))).toBe(true);
+    expect(existsSync(updatePath)).toBe(true);
+  });
+
+  it("should write nothing and keep the queue when the result would be invalid", () => {
+    writeFileSync(
+      updatePath,
+      JSON.stringify({ newStories: [newStory("US-003")], updateStories: [{ id: "US-001", title: 42 }] })
+    );
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+
+    expect(result.applied).toBe(false);
+    expect(result.error).toBe("would write an invalid story: stories/US-001.json: $.title: expected string, got integer");
+    expect(result.failedPath).toMatch(/update\.failed-.+\.json$/);
+    expect(JSON.parse(readFileSync(result.failedPath!, "utf-8")).updateStories[0].title).toBe(42);
+    expect(existsSync(updatePath)).toBe(false);
+    expect(existsSync(join(STORIES_DIR, "US-003.json"))).toBe(false);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.title).toBe("Feature Story");
+  });
+
+  it("should roll back earlier writes when a later one fails", () => {
+    // A directory where the second story file would go makes its write fail
+    mkdirSync(join(STORIES_DIR, "US-009.json"));
+    writeFileSync(updatePath, JSON.stringify({ newStories: [newStory("US-003"), newStory("US-009")] }));
+    const indexBefore = readFileSync(join(PRD_JSON_DIR, "index.json"), "utf-8");
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+
+    expect(result.applied).toBe(false);
+    expect(result.error).toStartWith("Rolled back:");
+    expect(existsSync(join(STORIES_DIR, "US-003.json"))).toBe(false);
+    expect(readFileSync(join(PRD_JSON_DIR, "index.json"), "utf-8")).toBe(indexBefore);
+    expect(existsSync(updatePath)).toBe(true);
+  });
+});
+
 describe("Verify Pending Count", () => {
   beforeEach(setupTestPRD);
   afterEach(cleanupTestPRD);
@@ -568,3 +664,90 @@ describe("BUG-029: Direct Override Format", () => {
     expect(existsSync(updatePath)).toBe(true);
   });
 });
+
+// ═══════════════════════════════════════════════════════════════════
+// Shared PRD repository (behaviour merged from bun/core/stories.ts)
+// ═══════════════════════════════════════════════════════════════════
+
+describe("Shared PRD Repository", () => {
+  beforeEach(setupTestPRD);
+  afterEach(cleanupTestPRD);
+
+  it("should recompute stats on every index write", () => {
+    const index = readIndex(PRD_JSON_DIR)!;
+    writeIndex(PRD_JSON_DIR, { ...index, stats: { total: 99, completed: 99, pending: 99, blocked: 99 } });
+
+    expect(readIndex(PRD_JSON_DIR)?.stats).toEqual({ total: 3, completed: 0, pending: 2, blocked: 1 });
+  });
+
+  it("should count stories the agent finished by only removing them from pending", () => {
+    // The agent protocol: story passes, removed from pending, completed[] left alone
+    const story = readStory(PRD_JSON_DIR, "US-001")!;
+    writeFileSync(join(STORIES_DIR, "US-001.json"), JSON.stringify({ ...story, passes: true, completedAt: "2026-01-01T00:00:00.000Z" }));
+    writeFileSync(
+      join(PRD_JSON_DIR, "index.json"),
+      JSON.stringify({
+        storyOrder: ["US-001", "US-002", "BUG-001"],
+        pending: ["US-002"],
+        blocked: ["BUG-001"],
+        completed: [],
+        stats: { total: 3, completed: 1, pending: 1, blocked: 1 },
+      })
+    );
+
+    refreshNextStory(PRD_JSON_DIR);
+    expect(readIndex(PRD_JSON_DIR)?.stats).toEqual({ total: 3, completed: 1, pending: 1, blocked: 1 });
+
+    // Recording the completion fills in completed[] and keeps the agent's timestamp
+    completeStory(PRD_JSON_DIR, "US-001", "sonnet");
+    expect(readIndex(PRD_JSON_DIR)?.completed).toEqual(["US-001"]);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.completedAt).toBe("2026-01-01T00:00:00.000Z");
+
+    completeStory(PRD_JSON_DIR, "US-002");
+    expect(readIndex(PRD_JSON_DIR)?.stats).toEqual({ total: 3, completed: 2, pending: 0, blocked: 1 });
+  });
+
+  it("should not add stats to an index that has none", () => {
+    blockStory(PRD_JSON_DIR, "US-002", "Waiting on design");
+
+    expect(readIndex(PRD_JSON_DIR)?.stats).toBeUndefined();
+  });
+
+  it("should complete a blocked story and check its criteria", () => {
+    completeStory(PRD_JSON_DIR, "BUG-001", "haiku");
+
+    const index = readIndex(PRD_JSON_DIR)!;
+    expect(index.blocked).toEqual([]);
+    expect(index.completed).toEqual(["BUG-001"]);
+    const story = readStory(PRD_JSON_DIR, "BUG-001")!;
+    expect(story.acceptanceCriteria.every((c) => c.checked)).toBe(true);
+    expect(story.completedBy).toBe("haiku");
+  });
+
+  it("should throw for a missing story", () => {
+    expect(() => completeStory(PRD_JSON_DIR, "US-404")).toThrow("Story not found: US-404");
+    expect(() => blockStory(PRD_JSON_DIR, "US-404", "x")).toThrow("Story not found: US-404");
+  });
+
+  it("should accept story IDs in newStories and delete removed story files", () => {
+    writeFileSync(
+      join(STORIES_DIR, "US-003.json"),
+      JSON.stringify({ id: "US-003", title: "Pre-written", acceptanceCriteria: [] })
+    );
+    writeFileSync(
+      join(PRD_JSON_DIR, "update.json"),
+      JSON.stringify({ newStories: ["US-003", "US-404"], removeStories: ["US-002"] })
+    );
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+
+    expect(result.changes).toEqual([
+      "Added story: US-003",
+      "Skipped story: US-404 (story file not found)",
+      "Removed story: US-002",
+    ]);
+    const index = readIndex(PRD_JSON_DIR)!;
+    expect(index.pending).toEqual(["US-001", "US-003"]);
+    expect(existsSync(join(STORIES_DIR, "US-002.json"))).toBe(false);
+  });
+});
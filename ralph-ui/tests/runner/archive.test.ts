@@ -0,0 +1,116 @@
+/**
+ * Run Archive Tests
+ * Tests for ralph-ui/src/runner/archive.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  createRunDir,
+  readRunMetadata,
+  updateRunMetadata,
+  startIterationRecord,
+  finishIterationRecord,
+  runTimestamp,
+  type RunMetadata,
+} from "../../src/runner/archive";
+import type { IterationResult } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-archive-test";
+
+const metadata: RunMetadata = {
+  runId: "run-1",
+  project: "demo",
+  workingDir: "/tmp/demo",
+  prdJsonDir: "/tmp/demo/prd-json",
+  pid: 1234,
+  startedAt: "2026-01-01T02:03:04.567Z",
+};
+
+const started = {
+  iteration: 3,
+  storyId: "US-001",
+  model: "sonnet",
+  startedAt: "2026-01-01T02:05:00.000Z",
+  prompt: "Work on US-001",
+  systemContext: "You are Ralph",
+};
+
+function readJson(path: string) {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+describe("run archive", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should name run directories by start time and avoid collisions", () => {
+    const first = createRunDir(metadata, TEST_DIR);
+    const second = createRunDir(metadata, TEST_DIR);
+
+    expect(first).toBe(join(TEST_DIR, "2026-01-01T02-03-04-567Z"));
+    expect(second).toBe(`${first}-2`);
+    expect(runTimestamp(new Date(metadata.startedAt))).toBe("2026-01-01T02-03-04-567Z");
+    expect(readRunMetadata(first)).toEqual(metadata);
+  });
+
+  it("should record when the run ended", () => {
+    const runDir = createRunDir(metadata, TEST_DIR);
+    updateRunMetadata(runDir, { endedAt: "2026-01-01T03:00:00.000Z", interrupted: false });
+
+    expect(readRunMetadata(runDir)).toMatchObject({ runId: "run-1", endedAt: "2026-01-01T03:00:00.000Z" });
+    expect(readRunMetadata(join(TEST_DIR, "missing"))).toBeNull();
+  });
+
+  it("should write the prompt before Claude runs and give retries their own files", () => {
+    const first = startIterationRecord(TEST_DIR, started);
+    const retry = startIterationRecord(TEST_DIR, started);
+
+    expect(first.transcript).toBe("iteration-3.log");
+    expect(retry.attempt).toBe(2);
+    expect(retry.transcript).toBe("iteration-3-2.log");
+    expect(readJson(join(TEST_DIR, "iteration-3.json"))).toMatchObject({
+      status: "running",
+      prompt: "Work on US-001",
+      systemContext: "You are Ralph",
+    });
+  });
+
+  it("should rewrite the record with the outcome and append stderr to the transcript", () => {
+    const record = startIterationRecord(TEST_DIR, started);
+    writeFileSync(join(TEST_DIR, record.transcript), "Reading the story\n");
+
+    const result: IterationResult = {
+      iteration: 3,
+      storyId: "US-001",
+      success: false,
+      hasComplete: false,
+      hasBlocked: false,
+      durationMs: 4200,
+      error: "Claude stopped: error_max_turns",
+      tokens: { input: 100, output: 20, cacheCreate: 0, cacheRead: 0 },
+      toolCalls: { Read: 1 },
+    };
+    finishIterationRecord(TEST_DIR, record, result, 1, "rate limited");
+
+    expect(readJson(join(TEST_DIR, "iteration-3.json"))).toMatchObject({
+      status: "finished",
+      exitCode: 1,
+      durationMs: 4200,
+      success: false,
+      error: "Claude stopped: error_max_turns",
+      tokens: { input: 100, output: 20 },
+      toolCalls: { Read: 1 },
+    });
+    expect(readFileSync(join(TEST_DIR, "iteration-3.log"), "utf-8")).toBe(
+      "Reading the story\n\n--- stderr ---\nrate limited"
+    );
+  });
+});
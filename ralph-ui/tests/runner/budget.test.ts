@@ -0,0 +1,153 @@
+/**
+ * Budget Guardrail Tests
+ * Tests for ralph-ui/src/runner/budget.ts and the per-story check in runSingleIteration()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  getBudgetSpend,
+  checkBudget,
+  resolveBudgetConfig,
+  downgradeModel,
+  describeViolation,
+} from "../../src/runner/budget";
+import { logCost, type CostEntry } from "../../src/runner/costs";
+import { createConfig, evaluateBudget, runSingleIteration } from "../../src/runner/index";
+import { readIndex, readStory } from "../../src/runner/prd";
+
+const now = new Date(2026, 0, 27, 12, 0, 0);
+
+function entry(overrides: Partial<CostEntry>): CostEntry {
+  return {
+    timestamp: now.toISOString(),
+    storyId: "US-001",
+    model: "sonnet",
+    taskType: "US",
+    durationSeconds: 10,
+    status: "success",
+    project: "app",
+    runId: "run-1",
+    estimatedCost: 1,
+    ...overrides,
+  };
+}
+
+describe("getBudgetSpend", () => {
+  const entries = [
+    entry({}),
+    entry({ storyId: "US-002", estimatedCost: 2 }),
+    entry({ runId: "run-0", estimatedCost: 4 }),
+    entry({ project: "other", runId: "run-x", estimatedCost: 8 }),
+    entry({ timestamp: new Date(2026, 0, 26, 12).toISOString(), runId: "run-old", estimatedCost: 16 }),
+  ];
+
+  it("should sum run, story and day spend separately", () => {
+    expect(getBudgetSpend(entries, { runId: "run-1", storyId: "US-001", project: "app", now })).toEqual({
+      run: 3,
+      story: 21, // includes earlier runs and days, but not other projects
+      day: 15,
+    });
+  });
+
+  it("should report zero story spend without a story", () => {
+    expect(getBudgetSpend(entries, { runId: "run-1", project: "app", now }).story).toBe(0);
+  });
+});
+
+describe("checkBudget", () => {
+  it("should return every limit that has been reached", () => {
+    const violations = checkBudget({ perRun: 3, perStory: 50, perDay: 10 }, { run: 3, story: 21, day: 15 });
+    expect(violations.map((v) => v.limit)).toEqual(["run", "day"]);
+  });
+
+  it("should ignore unset limits", () => {
+    expect(checkBudget({}, { run: 100, story: 100, day: 100 })).toEqual([]);
+  });
+});
+
+describe("resolveBudgetConfig", () => {
+  it("should warn at costEstimation.warnThreshold without a budget block", () => {
+    expect(resolveBudgetConfig(undefined, 5)).toEqual({ warnAt: 5 });
+    expect(checkBudget(resolveBudgetConfig(undefined, 5)!, { run: 10, story: 10, day: 10 })).toEqual([]);
+  });
+
+  it("should combine the limits with the warning threshold", () => {
+    expect(resolveBudgetConfig({ perRun: 10, action: "warn" }, 5)).toEqual({ perRun: 10, action: "warn", warnAt: 5 });
+    expect(resolveBudgetConfig({ perRun: 10 })).toEqual({ perRun: 10, warnAt: undefined });
+    expect(resolveBudgetConfig()).toBeUndefined();
+  });
+});
+
+describe("downgradeModel", () => {
+  it("should step down the default ladder", () => {
+    expect(downgradeModel("opus")).toBe("sonnet");
+    expect(downgradeModel("sonnet")).toBe("haiku");
+    expect(downgradeModel("haiku")).toBe("haiku");
+  });
+
+  it("should use a configured ladder", () => {
+    expect(downgradeModel("opus", { opus: "haiku" })).toBe("haiku");
+  });
+});
+
+describe("describeViolation", () => {
+  it("should format spend against the limit", () => {
+    expect(describeViolation({ limit: "day", spent: 20.5, max: 20 })).toBe(
+      "Daily budget exceeded: $20.50 of $20.00"
+    );
+  });
+});
+
+describe("per-story budget", () => {
+  const testDir = "/tmp/ralph-budget-test";
+  const prdJsonDir = join(testDir, "prd-json");
+  const costsFile = join(testDir, "costs.jsonl");
+  const config = createConfig({
+    prdJsonDir,
+    workingDir: testDir,
+    project: "app",
+    costsFile,
+    runId: "run-1",
+    quiet: true,
+    budget: { perStory: 2, action: "stop" },
+  });
+
+  beforeEach(() => {
+    if (existsSync(testDir)) rmSync(testDir, { recursive: true });
+    mkdirSync(join(prdJsonDir, "stories"), { recursive: true });
+    for (const id of ["US-001", "US-002"]) {
+      writeFileSync(
+        join(prdJsonDir, "stories", `${id}.json`),
+        JSON.stringify({ id, title: id, acceptanceCriteria: [{ text: "Done", checked: false }] })
+      );
+    }
+    writeFileSync(
+      join(prdJsonDir, "index.json"),
+      JSON.stringify({ storyOrder: ["US-001", "US-002"], pending: ["US-001", "US-002"], blocked: [], nextStory: "US-001" })
+    );
+    logCost(entry({ storyId: "US-002", runId: "run-0", estimatedCost: 3 }), costsFile);
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) rmSync(testDir, { recursive: true });
+  });
+
+  it("should leave the per-story limit out of the run-wide check", () => {
+    expect(evaluateBudget(config).violations).toEqual([]);
+    expect(evaluateBudget(config, "US-002").violations.map((v) => v.limit)).toEqual(["story"]);
+  });
+
+  it("should check the story that was picked and block only that story", async () => {
+    // nextStory is US-001, but it is skipped - US-002 is the one over budget
+    const result = await runSingleIteration(config, 1, undefined, { skipStories: ["US-001"] });
+
+    expect(result.storyId).toBe("US-002");
+    expect(result.hasBlocked).toBe(true);
+    expect(result.budgetExceeded).toBeUndefined();
+    expect(result.blockedReason).toBe("Story budget exceeded: $3.00 of $2.00");
+    expect(readStory(prdJsonDir, "US-002")?.blockedBy).toBe("Story budget exceeded: $3.00 of $2.00");
+    expect(readIndex(prdJsonDir)?.pending).toEqual(["US-001"]);
+  });
+});
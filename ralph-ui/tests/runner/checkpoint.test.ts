@@ -0,0 +1,103 @@
+/**
+ * Run Checkpoint Tests
+ * Tests for ralph-ui/src/runner/checkpoint.ts and resuming runIterations() from it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { writeCheckpoint, readCheckpoint, findResumableRun } from "../../src/runner/checkpoint";
+import { createRunDir, readRunMetadata } from "../../src/runner/archive";
+import { createConfig, runAllIterations } from "../../src/runner/index";
+import { cleanupStatus } from "../../src/runner/status";
+import type { RunCheckpoint } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-checkpoint-test";
+const RUNS_DIR = join(TEST_DIR, "runs");
+const PRD_JSON_DIR = join(TEST_DIR, "project", "prd-json");
+
+function archiveRun(startedAt: string, overrides: Partial<RunCheckpoint> = {}): RunCheckpoint {
+  const runDir = createRunDir(
+    { runId: `run-${startedAt}`, project: "project", workingDir: join(TEST_DIR, "project"), prdJsonDir: PRD_JSON_DIR, pid: 1, startedAt },
+    RUNS_DIR
+  );
+  const checkpoint: RunCheckpoint = {
+    runId: `run-${startedAt}`,
+    runDir,
+    project: "project",
+    workingDir: join(TEST_DIR, "project"),
+    prdJsonDir: PRD_JSON_DIR,
+    status: "interrupted",
+    iteration: 5,
+    iterations: 10,
+    retryCount: 1,
+    runStartedAt: startedAt,
+    storiesCompleted: 2,
+    totalCost: 1.5,
+    storyAttempts: { "US-001": 2, "US-002": 2 },
+    lastStoryId: "US-002",
+    lastSessionId: "sess-4",
+    updatedAt: startedAt,
+    ...overrides,
+  };
+  writeCheckpoint(checkpoint);
+  return checkpoint;
+}
+
+describe("run checkpoints", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+  });
+
+  afterEach(() => {
+    cleanupStatus();
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should round-trip a checkpoint", () => {
+    const checkpoint = archiveRun("2026-01-01T01:00:00.000Z");
+    expect(readCheckpoint(checkpoint.runDir)).toEqual(checkpoint);
+    expect(readCheckpoint(TEST_DIR)).toBeNull();
+  });
+
+  it("should only resume the project's newest run while it is unfinished", () => {
+    archiveRun("2026-01-01T01:00:00.000Z");
+    const newest = archiveRun("2026-01-02T01:00:00.000Z", { status: "running" });
+    archiveRun("2026-01-03T01:00:00.000Z", { prdJsonDir: "/elsewhere/prd-json" });
+
+    expect(findResumableRun(PRD_JSON_DIR, RUNS_DIR)?.runId).toBe(newest.runId);
+
+    writeCheckpoint({ ...newest, status: "finished" });
+    expect(findResumableRun(PRD_JSON_DIR, RUNS_DIR)).toBeNull();
+  });
+
+  it("should continue the run's counters, totals and archive when resumed", async () => {
+    writeFileSync(join(PRD_JSON_DIR, "stories", "US-001.json"), JSON.stringify({ id: "US-001", title: "One", acceptanceCriteria: [], passes: true }));
+    writeFileSync(
+      join(PRD_JSON_DIR, "index.json"),
+      JSON.stringify({ storyOrder: ["US-001"], pending: [], blocked: [], completed: ["US-001"] })
+    );
+    const checkpoint = archiveRun("2026-01-01T01:00:00.000Z");
+
+    const results = await runAllIterations(
+      createConfig({ prdJsonDir: PRD_JSON_DIR, workingDir: join(TEST_DIR, "project"), quiet: true, gapSeconds: 0, resume: checkpoint })
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ iteration: 5, hasComplete: true });
+
+    const after = readCheckpoint(checkpoint.runDir)!;
+    expect(after).toMatchObject({
+      runId: checkpoint.runId,
+      status: "finished",
+      iteration: 6,
+      runStartedAt: "2026-01-01T01:00:00.000Z",
+      storiesCompleted: 2,
+      totalCost: 1.5,
+      storyAttempts: { "US-001": 2, "US-002": 2 },
+      lastSessionId: "sess-4",
+    });
+    expect(readRunMetadata(checkpoint.runDir)).toMatchObject({ resumedAt: expect.any(String), endedAt: expect.any(String) });
+  });
+});
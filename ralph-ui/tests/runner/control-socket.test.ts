@@ -0,0 +1,68 @@
+/**
+ * Control Socket Tests
+ * Tests for ralph-ui/src/runner/control-socket.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, statSync } from "fs";
+import { ControlSocketServer, sendControlCommand } from "../../src/runner/control-socket";
+import { RunController } from "../../src/runner/control";
+
+const SOCKET_PATH = `/tmp/ralph-control-socket-test-${process.pid}.sock`;
+
+describe("ControlSocketServer", () => {
+  let control: RunController;
+  let server: ControlSocketServer;
+
+  beforeEach(() => {
+    control = new RunController();
+    server = new ControlSocketServer({ control, path: SOCKET_PATH });
+    server.start();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("should only let the owner connect", () => {
+    expect(statSync(SOCKET_PATH).mode & 0o777).toBe(0o600);
+  });
+
+  it("should apply commands and reply", async () => {
+    expect(await sendControlCommand(SOCKET_PATH, { type: "pause" })).toEqual({
+      ok: true,
+      message: "Pausing after the current iteration",
+    });
+    await sendControlCommand(SOCKET_PATH, { type: "model", model: "opus" });
+
+    expect(control.paused).toBe(true);
+    expect(control.model).toBe("opus");
+  });
+
+  it("should cut a retry cooldown short", async () => {
+    const start = Date.now();
+    const cooldown = control.cooldown(60_000);
+
+    expect(await sendControlCommand(SOCKET_PATH, { type: "retry" })).toMatchObject({ ok: true });
+    await cooldown;
+    expect(Date.now() - start).toBeLessThan(5000);
+    expect((await sendControlCommand(SOCKET_PATH, { type: "retry" })).ok).toBe(false);
+  });
+
+  it("should reject invalid commands", () => {
+    expect(server.handleLine("pause").ok).toBe(false);
+    expect(server.handleLine('{"type":"reboot"}').ok).toBe(false);
+    expect(server.handleLine('{"type":"model","model":"gpt-4"}').ok).toBe(false);
+    expect(control.model).toBeNull();
+  });
+
+  it("should remove the socket when stopped", () => {
+    server.stop();
+    expect(existsSync(SOCKET_PATH)).toBe(false);
+  });
+
+  it("should fail when no loop is listening", async () => {
+    server.stop();
+    await expect(sendControlCommand(SOCKET_PATH, { type: "status" }, 500)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Remote Control Tests
+ * Tests for ralph-ui/src/runner/control.ts and ntfy-control.ts against a local ntfy stand-in
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import { RunController, parseControlCommand, toControlCommand } from "../../src/runner/control";
+import { NtfyControlListener } from "../../src/runner/ntfy-control";
+
+interface Published {
+  topic: string;
+  title: string | null;
+  body: string;
+}
+
+describe("parseControlCommand", () => {
+  it("should parse every command", () => {
+    expect(parseControlCommand("pause")).toEqual({ type: "pause" });
+    expect(parseControlCommand("Resume")).toEqual({ type: "resume" });
+    expect(parseControlCommand("stop-after-iteration")).toEqual({ type: "stop" });
+    expect(parseControlCommand("skip")).toEqual({ type: "skip", storyId: undefined });
+    expect(parseControlCommand("skip US-003")).toEqual({ type: "skip", storyId: "US-003" });
+    expect(parseControlCommand("model opus")).toEqual({ type: "model", model: "opus" });
+    expect(parseControlCommand("model auto")).toEqual({ type: "model", model: null });
+    expect(parseControlCommand("retry")).toEqual({ type: "retry" });
+    expect(parseControlCommand("verbose")).toEqual({ type: "verbose" });
+    expect(parseControlCommand(" status ")).toEqual({ type: "status" });
+  });
+
+  it("should reject unknown commands and arguments", () => {
+    expect(parseControlCommand("rm -rf")).toBeNull();
+    expect(parseControlCommand("pause now")).toBeNull();
+    expect(parseControlCommand("model gpt-4")).toBeNull();
+    expect(parseControlCommand("skip US-001 US-002")).toBeNull();
+  });
+});
+
+describe("RunController", () => {
+  it("should hold waiters until resumed", async () => {
+    const control = new RunController();
+    control.apply({ type: "pause" });
+
+    let resumed = false;
+    const waiting = control.waitUntilResumed().then(() => (resumed = true));
+    await Promise.resolve();
+    expect(resumed).toBe(false);
+
+    expect(control.apply({ type: "resume" })).toEqual({ ok: true, message: "Resumed" });
+    await waiting;
+    expect(control.paused).toBe(false);
+  });
+
+  it("should wake a paused run when stopped", async () => {
+    const control = new RunController();
+    control.apply({ type: "pause" });
+    const waiting = control.waitUntilResumed();
+
+    control.apply({ type: "stop" });
+    await waiting;
+    expect(control.stopRequested).toBe(true);
+  });
+
+  it("should record skipped stories and model overrides", () => {
+    const control = new RunController();
+
+    control.apply({ type: "skip", storyId: "US-002" });
+    control.apply({ type: "model", model: "haiku" });
+    expect(control.skippedStories).toEqual(["US-002"]);
+    expect(control.model).toBe("haiku");
+
+    control.apply({ type: "model", model: null });
+    expect(control.model).toBeNull();
+  });
+
+  it("should toggle verbose logging from the --verbose default", () => {
+    const control = new RunController({ verbose: true });
+
+    expect(control.apply({ type: "verbose" })).toEqual({ ok: true, message: "Verbose logging off" });
+    expect(control.verbose).toBe(false);
+  });
+
+  it("should end a cooldown early on stop", async () => {
+    const control = new RunController();
+    const cooldown = control.cooldown(60_000);
+
+    control.apply({ type: "stop" });
+    await cooldown;
+    expect(control.apply({ type: "retry" }).ok).toBe(false);
+  });
+});
+
+describe("toControlCommand", () => {
+  it("should accept valid JSON commands", () => {
+    expect(toControlCommand({ type: "retry" })).toEqual({ type: "retry" });
+    expect(toControlCommand({ type: "skip" })).toEqual({ type: "skip", storyId: undefined });
+    expect(toControlCommand({ type: "skip", storyId: "US-003" })).toEqual({ type: "skip", storyId: "US-003" });
+    expect(toControlCommand({ type: "model", model: null })).toEqual({ type: "model", model: null });
+  });
+
+  it("should reject anything else", () => {
+    expect(toControlCommand("pause")).toBeNull();
+    expect(toControlCommand({ type: "skip", storyId: 3 })).toBeNull();
+    expect(toControlCommand({ type: "model" })).toBeNull();
+    expect(toControlCommand({ type: "shutdown" })).toBeNull();
+  });
+});
+
+describe("NtfyControlListener", () => {
+  let server: Server<undefined>;
+  let baseUrl: string;
+  let published: Published[];
+  let stream: ReadableStreamDefaultController<Uint8Array> | null;
+  let subscribed: () => void;
+
+  const send = (id: string, message: string) => {
+    stream?.enqueue(new TextEncoder().encode(`${JSON.stringify({ id, event: "message", message })}\n`));
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      hostname: "127.0.0.1",
+      port: 0,
+      fetch: async (request) => {
+        const path = new URL(request.url).pathname;
+        if (request.method === "GET" && path.endsWith("/json")) {
+          const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+              stream = controller;
+              controller.enqueue(new TextEncoder().encode(`${JSON.stringify({ id: "open", event: "open" })}\n`));
+              subscribed();
+            },
+          });
+          return new Response(body, { headers: { "Content-Type": "application/x-ndjson" } });
+        }
+        published.push({ topic: path.slice(1), title: request.headers.get("title"), body: await request.text() });
+        return new Response("ok");
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    published = [];
+    stream = null;
+  });
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) {
+      await Bun.sleep(10);
+    }
+  };
+
+  it("should drop messages without the secret", async () => {
+    const control = new RunController();
+    const listener = new NtfyControlListener({ topic: "ctl", secret: "s3cret", baseUrl, replyTopic: "ralph", control });
+
+    expect(await listener.handleMessage("pause")).toBeNull();
+    expect(await listener.handleMessage("wrong pause")).toBeNull();
+    expect(control.paused).toBe(false);
+    expect(published).toHaveLength(0);
+  });
+
+  it("should reply to unknown commands", async () => {
+    const listener = new NtfyControlListener({
+      topic: "ctl",
+      secret: "s3cret",
+      baseUrl,
+      replyTopic: "ralph",
+      control: new RunController(),
+    });
+
+    const reply = await listener.handleMessage("s3cret reboot");
+    expect(reply?.ok).toBe(false);
+    expect(published[0].body).toContain('Unknown command "reboot"');
+  });
+
+  it("should apply commands from the control topic and reply on the notification topic", async () => {
+    const control = new RunController();
+    const listener = new NtfyControlListener({ topic: "ctl", secret: "s3cret", baseUrl, replyTopic: "ralph", control });
+    const ready = new Promise<void>((resolve) => (subscribed = resolve));
+
+    listener.start();
+    await ready;
+    send("m1", "s3cret pause");
+    send("m2", "nope resume");
+    send("m3", "s3cret skip US-004");
+    await waitFor(() => published.length >= 2);
+    listener.stop();
+
+    expect(control.paused).toBe(true);
+    expect(control.skippedStories).toEqual(["US-004"]);
+    expect(published.map((reply) => reply.topic)).toEqual(["ralph", "ralph"]);
+    expect(published[0]).toMatchObject({ title: "[Ralph] Control", body: "Pausing after the current iteration" });
+  });
+
+  it("should not start without a secret", () => {
+    const logs: string[] = [];
+    const listener = new NtfyControlListener({
+      topic: "ctl",
+      secret: "",
+      baseUrl,
+      control: new RunController(),
+      onLog: (message) => logs.push(message),
+    });
+
+    listener.start();
+    expect(logs[0]).toContain("remote control disabled");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Cost Tracking Tests
+ * Tests for ralph-ui/src/runner/costs.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, rmSync, readFileSync, appendFileSync, mkdirSync, writeFileSync, utimesSync } from "fs";
+import { join } from "path";
+import {
+  calculateCost,
+  parseUsageFromOutput,
+  addTokenUsage,
+  logCost,
+  readCosts,
+  findRecentSessionId,
+  getSessionTokens,
+  type CostEntry,
+} from "../../src/runner/costs";
+
+const TEST_DIR = "/tmp/ralph-costs-test";
+const COSTS_FILE = join(TEST_DIR, "nested", "costs.jsonl");
+
+describe("calculateCost", () => {
+  it("should price input and output tokens per million", () => {
+    // sonnet: $3 in, $15 out per million
+    expect(calculateCost("sonnet", { input: 1_000_000, output: 100_000 })).toBeCloseTo(4.5);
+  });
+
+  it("should include cache tokens", () => {
+    // opus cache read: $1.50 per million
+    expect(calculateCost("opus", { input: 0, output: 0, cacheRead: 2_000_000 })).toBeCloseTo(3);
+  });
+
+  it("should prefer pricing from config", () => {
+    const pricing = { haiku: { input: 10, output: 0 } };
+    expect(calculateCost("haiku", { input: 1_000_000, output: 1_000_000 }, pricing)).toBeCloseTo(10);
+  });
+
+  it("should be free for kiro and ollama", () => {
+    expect(calculateCost("kiro", { input: 1_000_000, output: 1_000_000 })).toBe(0);
+    expect(calculateCost("ollama", { input: 1_000_000, output: 1_000_000 })).toBe(0);
+  });
+});
+
+describe("parseUsageFromOutput", () => {
+  it("should return null for plain text output", () => {
+    expect(parseUsageFromOutput("Working on US-001...\nDone")).toBeNull();
+  });
+
+  it("should read usage from the final result message", () => {
+    const stdout = [
+      JSON.stringify({ type: "assistant", message: { usage: { input_tokens: 5, output_tokens: 5 } } }),
+      JSON.stringify({
+        type: "result",
+        session_id: "abc",
+        usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 300 },
+      }),
+    ].join("\n");
+
+    expect(parseUsageFromOutput(stdout)).toEqual({
+      input: 100,
+      output: 20,
+      cacheCreate: 0,
+      cacheRead: 300,
+    });
+  });
+
+  it("should sum per-message usage when there is no result message", () => {
+    const stdout = [
+      JSON.stringify({ type: "assistant", message: { usage: { input_tokens: 10, output_tokens: 1 } } }),
+      "not json",
+      JSON.stringify({ type: "assistant", message: { usage: { input_tokens: 5, output_tokens: 2 } } }),
+    ].join("\n");
+
+    expect(parseUsageFromOutput(stdout)).toMatchObject({ input: 15, output: 3 });
+  });
+});
+
+describe("session files", () => {
+  const PROJECT = "/work/my-app";
+  const PROJECTS_DIR = join(TEST_DIR, "projects");
+  const SESSION_DIR = join(PROJECTS_DIR, "-work-my-app");
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(SESSION_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should find the session a text-output iteration wrote", () => {
+    const start = Date.now();
+    const usage = { message: { usage: { input_tokens: 100, output_tokens: 20 } } };
+    writeFileSync(join(SESSION_DIR, "old.jsonl"), "");
+    utimesSync(join(SESSION_DIR, "old.jsonl"), new Date(start - 60_000), new Date(start - 60_000));
+    writeFileSync(join(SESSION_DIR, "s-new.jsonl"), JSON.stringify({ sessionId: "s-new", ...usage }) + "\n");
+
+    const sessionId = findRecentSessionId(PROJECT, start - 1000, PROJECTS_DIR);
+    expect(sessionId).toBe("s-new");
+    expect(getSessionTokens(sessionId!, PROJECT, PROJECTS_DIR)).toMatchObject({ input: 100, output: 20 });
+  });
+
+  it("should find nothing when no session was written since", () => {
+    writeFileSync(join(SESSION_DIR, "old.jsonl"), "");
+    expect(findRecentSessionId(PROJECT, Date.now() + 60_000, PROJECTS_DIR)).toBeNull();
+    expect(findRecentSessionId("/work/other", 0, PROJECTS_DIR)).toBeNull();
+  });
+});
+
+describe("addTokenUsage", () => {
+  it("should add all token fields", () => {
+    expect(
+      addTokenUsage({ input: 1, output: 2, cacheRead: 3 }, { input: 1, output: 1, cacheCreate: 4 })
+    ).toEqual({ input: 2, output: 3, cacheCreate: 4, cacheRead: 3 });
+  });
+});
+
+describe("cost ledger", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  const entry: CostEntry = {
+    timestamp: "2026-01-27T00:00:00.000Z",
+    storyId: "US-001",
+    model: "sonnet",
+    taskType: "US",
+    durationSeconds: 42,
+    status: "success",
+    tokens: { input: 100, output: 10 },
+    estimatedCost: 0.01,
+  };
+
+  it("should create the ledger directory and append JSONL lines", () => {
+    logCost(entry, COSTS_FILE);
+    logCost({ ...entry, storyId: "US-002", status: "error" }, COSTS_FILE);
+
+    const lines = readFileSync(COSTS_FILE, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).status).toBe("error");
+  });
+
+  it("should read entries back and skip malformed lines", () => {
+    logCost(entry, COSTS_FILE);
+    appendFileSync(COSTS_FILE, "{broken\n");
+
+    const entries = readCosts(COSTS_FILE);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].storyId).toBe("US-001");
+  });
+
+  it("should return an empty list when the ledger does not exist", () => {
+    expect(readCosts(COSTS_FILE)).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Story Dependency Tests
+ * Tests for ralph-ui/src/runner/dependencies.ts and nextStory selection in prd.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  getReadyStories,
+  computeNextStory,
+  validateDependencies,
+  describeDependencyIssue,
+} from "../../src/runner/dependencies";
+import { readIndex, getNextStory, completeStory, refreshNextStory } from "../../src/runner/prd";
+import type { PRDIndex, Story } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-dependencies-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+function setupPRD(stories: Partial<Story>[], index: Partial<PRDIndex> = {}) {
+  mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+  for (const story of stories) {
+    writeFileSync(
+      join(PRD_JSON_DIR, "stories", `${story.id}.json`),
+      JSON.stringify({ title: story.id, acceptanceCriteria: [], ...story }, null, 2)
+    );
+  }
+  const ids = stories.map((s) => s.id!);
+  writeFileSync(
+    join(PRD_JSON_DIR, "index.json"),
+    JSON.stringify({ storyOrder: ids, pending: ids, blocked: [], completed: [], nextStory: ids[0], ...index }, null, 2)
+  );
+}
+
+describe("next story selection", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should skip stories whose dependencies are unmet", () => {
+    setupPRD([{ id: "US-002", dependencies: ["US-001"] }, { id: "US-001" }]);
+
+    expect(getNextStory(PRD_JSON_DIR)?.id).toBe("US-001");
+  });
+
+  it("should treat completed or passing dependencies as met", () => {
+    setupPRD(
+      [
+        { id: "US-001", passes: true },
+        { id: "US-003", dependencies: ["US-001", "US-000"] },
+      ],
+      { pending: ["US-003"], completed: ["US-000"] }
+    );
+
+    expect(computeNextStory(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!)).toBe("US-003");
+  });
+
+  it("should use priority as a tiebreaker, then storyOrder", () => {
+    setupPRD([
+      { id: "V-001", priority: "low" },
+      { id: "V-002" },
+      { id: "BUG-001", priority: "critical" },
+      { id: "V-003" },
+    ]);
+
+    expect(getReadyStories(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!).map((s) => s.id)).toEqual([
+      "BUG-001",
+      "V-002",
+      "V-003",
+      "V-001",
+    ]);
+  });
+
+  it("should put a pinned story first once its dependencies are met", () => {
+    setupPRD([{ id: "BUG-001", priority: "critical" }, { id: "V-001", priority: "low" }, { id: "V-002", dependencies: ["V-001"] }], {
+      pinnedStory: "V-001",
+    });
+    expect(computeNextStory(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!)).toBe("V-001");
+
+    completeStory(PRD_JSON_DIR, "V-001");
+    expect(readIndex(PRD_JSON_DIR)?.pinnedStory).toBeUndefined();
+    expect(readIndex(PRD_JSON_DIR)?.nextStory).toBe("BUG-001");
+  });
+
+  it("should return null when every pending story is waiting on a dependency", () => {
+    setupPRD([{ id: "US-002", dependencies: ["US-001"] }, { id: "US-001", blockedBy: "x" }], {
+      pending: ["US-002"],
+      blocked: ["US-001"],
+    });
+
+    expect(getNextStory(PRD_JSON_DIR)).toBeNull();
+  });
+
+  it("should point nextStory at a newly unlocked story on completion", () => {
+    setupPRD([
+      { id: "US-001" },
+      { id: "US-002" },
+      { id: "US-003", dependencies: ["US-001"], priority: "high" },
+    ]);
+
+    completeStory(PRD_JSON_DIR, "US-001");
+
+    expect(readIndex(PRD_JSON_DIR)?.nextStory).toBe("US-003");
+  });
+
+  it("should rewrite a stale nextStory in index.json", () => {
+    setupPRD([{ id: "US-002", dependencies: ["US-001"] }, { id: "US-001" }]);
+
+    expect(refreshNextStory(PRD_JSON_DIR)).toBe("US-001");
+    expect(readIndex(PRD_JSON_DIR)?.nextStory).toBe("US-001");
+  });
+
+  it("should pass over skipped stories unless nothing else is ready", () => {
+    setupPRD([{ id: "US-001" }, { id: "US-002" }]);
+    const index = readIndex(PRD_JSON_DIR)!;
+
+    expect(computeNextStory(PRD_JSON_DIR, index, new Set(["US-001"]))).toBe("US-002");
+    expect(computeNextStory(PRD_JSON_DIR, index, new Set(["US-001", "US-002"]))).toBe("US-001");
+  });
+});
+
+describe("validateDependencies", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should accept a valid graph", () => {
+    setupPRD([{ id: "US-001" }, { id: "US-002", dependencies: ["US-001", "US-000"] }], { completed: ["US-000"] });
+
+    expect(validateDependencies(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!)).toEqual([]);
+  });
+
+  it("should report missing dependency IDs", () => {
+    setupPRD([{ id: "US-001", dependencies: ["US-404"] }]);
+
+    const issues = validateDependencies(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!);
+    expect(issues).toEqual([{ type: "missing", storyId: "US-001", dependencyId: "US-404" }]);
+    expect(describeDependencyIssue(issues[0])).toBe("US-001 depends on unknown story US-404");
+  });
+
+  it("should report dependency cycles", () => {
+    setupPRD([
+      { id: "US-001", dependencies: ["US-003"] },
+      { id: "US-002", dependencies: ["US-001"] },
+      { id: "US-003", dependencies: ["US-002"] },
+    ]);
+
+    const issues = validateDependencies(PRD_JSON_DIR, readIndex(PRD_JSON_DIR)!);
+    expect(issues).toHaveLength(1);
+    expect(describeDependencyIssue(issues[0])).toBe("Dependency cycle: US-001 -> US-003 -> US-002 -> US-001");
+  });
+});
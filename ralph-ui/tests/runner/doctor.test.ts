@@ -0,0 +1,161 @@
+/**
+ * PRD Doctor Tests
+ * Tests for ralph-ui/src/runner/doctor.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync, unlinkSync } from "fs";
+import { join } from "path";
+import { runDoctor, formatDoctorReport } from "../../src/runner/doctor";
+import { readIndex, readStory } from "../../src/runner/prd";
+import type { PRDIndex, Story } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-doctor-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+function story(id: string, overrides: Partial<Story> = {}): Story {
+  return { id, title: id, acceptanceCriteria: [{ text: "Done", checked: false }], ...overrides };
+}
+
+function done(id: string): Story {
+  return story(id, { acceptanceCriteria: [{ text: "Done", checked: true }], passes: true });
+}
+
+function setupPRD(stories: Story[], index: Partial<PRDIndex> = {}) {
+  mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+  for (const s of stories) {
+    writeFileSync(join(PRD_JSON_DIR, "stories", `${s.id}.json`), JSON.stringify(s, null, 2));
+  }
+  const ids = stories.map((s) => s.id);
+  writeFileSync(
+    join(PRD_JSON_DIR, "index.json"),
+    JSON.stringify({ storyOrder: ids, pending: ids, blocked: [], completed: [], nextStory: ids[0], ...index }, null, 2)
+  );
+}
+
+describe("runDoctor", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should report nothing for a consistent PRD", () => {
+    setupPRD([story("US-001"), story("US-002")], {
+      stats: { total: 2, completed: 0, pending: 2, blocked: 0 },
+    });
+
+    const report = runDoctor(PRD_JSON_DIR);
+    expect(report.issues).toEqual([]);
+    expect(formatDoctorReport(report, false)).toBe("✅ prd-json is consistent");
+  });
+
+  it("should find index/story mismatches without touching the files", () => {
+    setupPRD([story("US-001"), story("US-002", { blockedBy: "Needs API key" }), done("US-003")], {
+      storyOrder: ["US-001", "US-002", "US-003", "US-404"],
+      pending: ["US-001", "US-002", "US-003", "US-404"],
+      blocked: ["US-002"],
+      nextStory: "US-003",
+      stats: { total: 4, completed: 0, pending: 4, blocked: 1 },
+    });
+    writeFileSync(join(PRD_JSON_DIR, "stories", "US-005.json"), JSON.stringify(story("US-005")));
+
+    const report = runDoctor(PRD_JSON_DIR);
+
+    expect(report.issues.map((issue) => [issue.type, issue.storyId])).toEqual([
+      ["missing_story_file", "US-404"],
+      ["orphan_story_file", "US-005"],
+      ["completed_still_listed", "US-003"],
+      ["pending_and_blocked", "US-002"],
+      ["stale_next_story", "US-003"],
+      ["stats_mismatch", undefined],
+    ]);
+    expect(report.fixed).toBe(false);
+    expect(report.diffs.map((diff) => diff.file)).toEqual(["index.json"]);
+    expect(report.diffs[0].lines).toContain('-    "US-404"');
+    expect(readIndex(PRD_JSON_DIR)?.pending).toContain("US-404");
+  });
+
+  it("should write the repairs with fix", () => {
+    setupPRD([story("US-001"), story("US-002", { blockedBy: "US-404" }), done("US-003")], {
+      pending: ["US-001", "US-003"],
+      blocked: ["US-002"],
+      completed: [],
+      nextStory: "US-003",
+    });
+
+    const report = runDoctor(PRD_JSON_DIR, { fix: true });
+    expect(report.fixed).toBe(true);
+    expect(report.diffs.map((diff) => diff.file)).toEqual(["index.json", "stories/US-002.json"]);
+
+    const index = readIndex(PRD_JSON_DIR)!;
+    expect(index.pending).toEqual(["US-001", "US-002"]);
+    expect(index.blocked).toEqual([]);
+    expect(index.completed).toEqual(["US-003"]);
+    expect(index.nextStory).toBe("US-001");
+    expect(readStory(PRD_JSON_DIR, "US-002")?.blockedBy).toBeUndefined();
+
+    expect(runDoctor(PRD_JSON_DIR).issues).toEqual([]);
+  });
+
+  it("should reopen stories that pass with unchecked criteria", () => {
+    setupPRD([story("US-001", { passes: true })], { pending: [], completed: ["US-001"], nextStory: undefined });
+
+    const report = runDoctor(PRD_JSON_DIR, { fix: true });
+    expect(report.issues.map((issue) => issue.type)).toEqual(["passes_with_unchecked", "stale_next_story"]);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.passes).toBe(false);
+    expect(readIndex(PRD_JSON_DIR)?.pending).toEqual(["US-001"]);
+  });
+
+  it("should not need story files for archived completed stories", () => {
+    setupPRD([story("US-002", { dependencies: ["US-001"] })], {
+      storyOrder: ["US-001", "US-002"],
+      pending: ["US-002"],
+      completed: ["US-001"],
+      nextStory: "US-002",
+    });
+
+    expect(runDoctor(PRD_JSON_DIR).issues).toEqual([]);
+  });
+
+  it("should accept stories the agent finished by only removing them from pending", () => {
+    // A legacy index without completed[], and one where the agent left completed[] empty
+    for (const completed of [undefined, []]) {
+      if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+      setupPRD([done("US-001"), story("US-002", { dependencies: ["US-001"] })], {
+        pending: ["US-002"],
+        completed,
+        nextStory: "US-002",
+        stats: { total: 2, completed: 1, pending: 1, blocked: 0 },
+      });
+
+      expect(runDoctor(PRD_JSON_DIR).issues).toEqual([]);
+    }
+  });
+
+  it("should report files that break the schema as needing a manual fix", () => {
+    setupPRD([story("US-001")]);
+    writeFileSync(join(PRD_JSON_DIR, "stories", "US-001.json"), JSON.stringify({ id: "US-001", title: "One" }));
+
+    const report = runDoctor(PRD_JSON_DIR);
+    expect(report.issues.map((issue) => [issue.type, issue.storyId])).toEqual([
+      ["unreadable_story", "US-001"],
+      ["stale_next_story", "US-001"],
+    ]);
+    expect(report.issues[0].message).toContain('missing required property "acceptanceCriteria"');
+
+    writeFileSync(join(PRD_JSON_DIR, "index.json"), JSON.stringify({ storyOrder: ["US-001"] }));
+    expect(runDoctor(PRD_JSON_DIR).issues.map((issue) => issue.type)).toEqual(["invalid_index"]);
+  });
+
+  it("should report a missing index as needing a manual fix", () => {
+    setupPRD([story("US-001")]);
+    unlinkSync(join(PRD_JSON_DIR, "index.json"));
+
+    const report = runDoctor(PRD_JSON_DIR, { fix: true });
+    expect(report.issues.map((issue) => issue.type)).toEqual(["missing_index"]);
+    expect(formatDoctorReport(report, true)).toContain("1 issue needs a manual fix");
+  });
+});
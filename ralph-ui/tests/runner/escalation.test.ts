@@ -0,0 +1,109 @@
+/**
+ * Failed-Attempt Escalation Tests
+ * Tests for ralph-ui/src/runner/escalation.ts and the failedAttempts bookkeeping in prd.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { escalateModel, shouldAutoBlock, describeFailedAttempts } from "../../src/runner/escalation";
+import { updateFailedAttempts, blockStory, unblockStory, applyUpdateQueue, readIndex, readStory } from "../../src/runner/prd";
+
+const TEST_DIR = "/tmp/ralph-escalation-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+describe("escalateModel", () => {
+  it("should step up the default ladder once per failed attempt", () => {
+    expect(escalateModel("haiku", 0)).toBe("haiku");
+    expect(escalateModel("haiku", 1)).toBe("sonnet");
+    expect(escalateModel("haiku", 2)).toBe("opus");
+    expect(escalateModel("haiku", 5)).toBe("opus");
+  });
+
+  it("should honour escalateAfter and a custom ladder", () => {
+    const escalation = { ladder: { "gemini-flash": "sonnet", sonnet: "opus" }, escalateAfter: 2 };
+    expect(escalateModel("gemini-flash", 1, escalation)).toBe("gemini-flash");
+    expect(escalateModel("gemini-flash", 2, escalation)).toBe("sonnet");
+    expect(escalateModel("gemini-flash", 4, escalation)).toBe("opus");
+  });
+
+  it("should stop at a loop in the ladder", () => {
+    expect(escalateModel("sonnet", 10, { ladder: { sonnet: "opus", opus: "sonnet" } })).toBe("opus");
+  });
+});
+
+describe("shouldAutoBlock", () => {
+  it("should block at the configured maximum", () => {
+    expect(shouldAutoBlock(2, { maxFailedAttempts: 3 })).toBe(false);
+    expect(shouldAutoBlock(3, { maxFailedAttempts: 3 })).toBe(true);
+    expect(shouldAutoBlock(5, { maxFailedAttempts: 6 })).toBe(false);
+    expect(shouldAutoBlock(50, { maxFailedAttempts: 0 })).toBe(false);
+  });
+
+  it("should never block when maxFailedAttempts isn't set", () => {
+    expect(shouldAutoBlock(50)).toBe(false);
+    expect(shouldAutoBlock(50, { ladder: { haiku: "sonnet" } })).toBe(false);
+  });
+
+  it("should describe the last attempt", () => {
+    expect(describeFailedAttempts(3, "opus", "no_progress")).toBe("Failed 3 attempts without progress (last: opus, no progress)");
+  });
+});
+
+describe("failedAttempts bookkeeping", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+    writeFileSync(
+      join(PRD_JSON_DIR, "stories", "US-001.json"),
+      JSON.stringify({ id: "US-001", title: "One", acceptanceCriteria: [{ text: "Done", checked: false }] })
+    );
+    writeFileSync(
+      join(PRD_JSON_DIR, "index.json"),
+      JSON.stringify({ storyOrder: ["US-001"], pending: ["US-001"], blocked: [], nextStory: "US-001" })
+    );
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should count failures and reset on progress", () => {
+    expect(updateFailedAttempts(PRD_JSON_DIR, "US-001", true)).toBe(1);
+    expect(updateFailedAttempts(PRD_JSON_DIR, "US-001", true)).toBe(2);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.failedAttempts).toBe(2);
+
+    expect(updateFailedAttempts(PRD_JSON_DIR, "US-001", false)).toBe(0);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.failedAttempts).toBeUndefined();
+    expect(updateFailedAttempts(PRD_JSON_DIR, "US-404", true)).toBe(0);
+  });
+
+  it("should record a structured reason and clear it on unblock", () => {
+    updateFailedAttempts(PRD_JSON_DIR, "US-001", true);
+    blockStory(PRD_JSON_DIR, "US-001", describeFailedAttempts(1, "opus"), {
+      type: "failed_attempts",
+      attempts: 1,
+      lastModel: "opus",
+      blockedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(readStory(PRD_JSON_DIR, "US-001")?.blockedReason).toMatchObject({ type: "failed_attempts", attempts: 1 });
+    expect(readIndex(PRD_JSON_DIR)?.blocked).toEqual(["US-001"]);
+
+    unblockStory(PRD_JSON_DIR, "US-001");
+    const story = readStory(PRD_JSON_DIR, "US-001")!;
+    expect(story.blockedBy).toBeUndefined();
+    expect(story.blockedReason).toBeUndefined();
+    expect(story.failedAttempts).toBeUndefined();
+  });
+
+  it("should reset attempts when update.json moves the story back to pending", () => {
+    updateFailedAttempts(PRD_JSON_DIR, "US-001", true);
+    blockStory(PRD_JSON_DIR, "US-001", "Failed 1 attempt without progress");
+    writeFileSync(join(PRD_JSON_DIR, "update.json"), JSON.stringify({ moveToPending: ["US-001"] }));
+
+    expect(applyUpdateQueue(PRD_JSON_DIR).applied).toBe(true);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.failedAttempts).toBeUndefined();
+    expect(readIndex(PRD_JSON_DIR)?.pending).toEqual(["US-001"]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * File Lock Tests
+ * Tests for ralph-ui/src/runner/file-lock.ts and the index lock in prd.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  writeFileAtomic,
+  acquireLock,
+  releaseLock,
+  withFileLock,
+  removeStaleLock,
+  LockTimeoutError,
+} from "../../src/runner/file-lock";
+import { INDEX_LOCK_FILE, completeStory, readIndex, writeIndex } from "../../src/runner/prd";
+
+const TEST_DIR = "/tmp/ralph-file-lock-test";
+const LOCK_PATH = join(TEST_DIR, "test.lock");
+
+function writeLock(pid: number, createdAt = Date.now()) {
+  writeFileSync(LOCK_PATH, JSON.stringify({ pid, createdAt }));
+}
+
+describe("file locking", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should write atomically without leaving temp files", () => {
+    const file = join(TEST_DIR, "index.json");
+    writeFileAtomic(file, "first");
+    writeFileAtomic(file, "second");
+
+    expect(readFileSync(file, "utf-8")).toBe("second");
+    expect(readdirSync(TEST_DIR)).toEqual(["index.json"]);
+  });
+
+  it("should be re-entrant and remove the lock file on release", () => {
+    const result = withFileLock(LOCK_PATH, () => withFileLock(LOCK_PATH, () => existsSync(LOCK_PATH)));
+
+    expect(result).toBe(true);
+    expect(existsSync(LOCK_PATH)).toBe(false);
+  });
+
+  it("should reclaim a lock held by a dead process", () => {
+    writeLock(999999);
+
+    acquireLock(LOCK_PATH, { timeoutMs: 100 });
+    expect(JSON.parse(readFileSync(LOCK_PATH, "utf-8")).pid).toBe(process.pid);
+    releaseLock(LOCK_PATH);
+  });
+
+  it("should reclaim a lock older than staleMs", () => {
+    writeLock(process.ppid, Date.now() - 60_000);
+
+    expect(withFileLock(LOCK_PATH, () => "ok", { timeoutMs: 100, staleMs: 1000 })).toBe("ok");
+  });
+
+  it("should leave a fresh lock that replaced the stale one in place", () => {
+    // Another process took over the dead holder's lock between our read and our removal
+    const stale = { pid: 999999, createdAt: Date.now() - 60_000 };
+    writeLock(process.ppid);
+
+    removeStaleLock(LOCK_PATH, stale);
+    expect(JSON.parse(readFileSync(LOCK_PATH, "utf-8")).pid).toBe(process.ppid);
+    expect(readdirSync(TEST_DIR)).toEqual(["test.lock"]);
+
+    writeLock(999999, stale.createdAt);
+    removeStaleLock(LOCK_PATH, stale);
+    expect(readdirSync(TEST_DIR)).toEqual([]);
+  });
+
+  it("should time out while a live process holds the lock", () => {
+    writeLock(process.ppid);
+
+    expect(() => acquireLock(LOCK_PATH, { timeoutMs: 100 })).toThrow(LockTimeoutError);
+    expect(JSON.parse(readFileSync(LOCK_PATH, "utf-8")).pid).toBe(process.ppid);
+  });
+
+  it("should release the lock when the critical section throws", () => {
+    expect(() =>
+      withFileLock(LOCK_PATH, () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(existsSync(LOCK_PATH)).toBe(false);
+  });
+});
+
+describe("PRD index lock", () => {
+  const prdJsonDir = join(TEST_DIR, "prd-json");
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(prdJsonDir, "stories"), { recursive: true });
+    writeFileSync(
+      join(prdJsonDir, "stories", "US-001.json"),
+      JSON.stringify({ id: "US-001", title: "One", acceptanceCriteria: [{ text: "Done", checked: false }] })
+    );
+    writeIndex(prdJsonDir, { storyOrder: ["US-001"], pending: ["US-001"], blocked: [], completed: [] });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should update the index and leave no lock behind", () => {
+    completeStory(prdJsonDir, "US-001");
+
+    expect(readIndex(prdJsonDir)?.completed).toEqual(["US-001"]);
+    expect(existsSync(join(prdJsonDir, INDEX_LOCK_FILE))).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Model Routing Tests
+ * Tests for ralph-ui/src/runner/models.ts and selectModel() in runner/index.ts
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  extractTaskType,
+  getModelForStory,
+  describeModelChoice,
+} from "../../src/runner/models";
+import { createConfig, selectModel } from "../../src/runner/index";
+import type { ModelRoutingConfig } from "../../src/runner/types";
+
+const smartRouting: ModelRoutingConfig = {
+  modelStrategy: "smart",
+  models: { US: "sonnet", V: "opus", AUDIT: "sonnet" },
+  unknownTaskType: "haiku",
+};
+
+describe("extractTaskType", () => {
+  it("should extract the ID prefix", () => {
+    expect(extractTaskType("AUDIT-001")).toBe("AUDIT");
+    expect(extractTaskType("V-12")).toBe("V");
+  });
+
+  it("should default to US for IDs without a prefix", () => {
+    expect(extractTaskType("story")).toBe("US");
+  });
+});
+
+describe("getModelForStory", () => {
+  it("should route by task type from config", () => {
+    expect(getModelForStory({ id: "AUDIT-001" }, smartRouting)).toEqual({
+      model: "sonnet",
+      reason: "task_type",
+    });
+    expect(getModelForStory({ id: "V-001" }, smartRouting)).toEqual({
+      model: "opus",
+      reason: "task_type",
+    });
+  });
+
+  it("should fall back to built-in task models when config omits a type", () => {
+    expect(getModelForStory({ id: "TEST-001" }, smartRouting)).toEqual({
+      model: "haiku",
+      reason: "task_type",
+    });
+  });
+
+  it("should use unknownTaskType for unrecognized prefixes", () => {
+    expect(getModelForStory({ id: "SPIKE-001" }, smartRouting)).toEqual({
+      model: "haiku",
+      reason: "unknown_task_type",
+    });
+  });
+
+  it("should prefer the CLI model over routing", () => {
+    expect(getModelForStory({ id: "V-001" }, smartRouting, "haiku")).toEqual({
+      model: "haiku",
+      reason: "cli_override",
+    });
+  });
+
+  it("should prefer the story-level model over everything", () => {
+    expect(getModelForStory({ id: "V-001", model: "sonnet" }, smartRouting, "haiku")).toEqual({
+      model: "sonnet",
+      reason: "story_override",
+    });
+  });
+
+  it("should use the default model for the single strategy", () => {
+    expect(
+      getModelForStory({ id: "V-001" }, { modelStrategy: "single", defaultModel: "opus" })
+    ).toEqual({ model: "opus", reason: "default" });
+  });
+});
+
+describe("describeModelChoice", () => {
+  it("should explain task-type routing", () => {
+    expect(describeModelChoice("AUDIT-001", { model: "sonnet", reason: "task_type" })).toBe(
+      "sonnet (routed by AUDIT task type)"
+    );
+  });
+});
+
+describe("selectModel", () => {
+  const base = { prdJsonDir: "/tmp/prd-json", workingDir: "/tmp" };
+
+  it("should use config.model when no routing is configured", () => {
+    const config = createConfig({ ...base, model: "haiku" });
+    expect(selectModel(config, { id: "AUDIT-001", title: "", acceptanceCriteria: [] })).toEqual({
+      model: "haiku",
+      reason: "default",
+    });
+  });
+
+  it("should route per story when routing is configured", () => {
+    const config = createConfig({ ...base, routing: smartRouting });
+    expect(selectModel(config, { id: "V-001", title: "", acceptanceCriteria: [] }).model).toBe("opus");
+    expect(selectModel(config, { id: "US-001", title: "", acceptanceCriteria: [] }).model).toBe("sonnet");
+  });
+
+  it("should apply modelOverride on top of routing", () => {
+    const config = createConfig({ ...base, routing: smartRouting, modelOverride: "haiku" });
+    expect(selectModel(config, { id: "V-001", title: "", acceptanceCriteria: [] })).toEqual({
+      model: "haiku",
+      reason: "cli_override",
+    });
+  });
+});
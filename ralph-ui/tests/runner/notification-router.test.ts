@@ -0,0 +1,132 @@
+/**
+ * Notification Router Tests
+ * Tests for ralph-ui/src/runner/notification-router.ts
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { NotificationRouter, isQuietTime, parseClockTime } from "../../src/runner/notification-router";
+import type { Notification, NotificationRoutingConfig, Notifier } from "../../src/runner/types";
+
+class RecordingNotifier implements Notifier {
+  readonly name = "recording";
+  readonly sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<boolean> {
+    this.sent.push(notification);
+    return true;
+  }
+}
+
+function note(event: Notification["event"], message: string, priority: Notification["priority"] = "default"): Notification {
+  return { event, title: `[Ralph] ${event}`, message, priority, tags: ["robot"] };
+}
+
+describe("NotificationRouter", () => {
+  let recorder: RecordingNotifier;
+  let clock: Date;
+
+  const router = (routing: NotificationRoutingConfig) => new NotificationRouter(recorder, routing, () => clock);
+
+  beforeEach(() => {
+    recorder = new RecordingNotifier();
+    clock = new Date(2026, 0, 1, 12, 0, 0);
+  });
+
+  it("should only send the configured events", async () => {
+    const notifications = router({ events: ["all_complete", "error"] });
+
+    expect(await notifications.send(note("iteration_complete", "1 US-001"))).toBe(false);
+    expect(await notifications.send(note("error", "rate limited"))).toBe(true);
+
+    expect(recorder.sent.map((sent) => sent.event)).toEqual(["error"]);
+  });
+
+  it("should apply per-event priorities and tags", async () => {
+    const notifications = router({ priorities: { retry: "min" }, tags: { retry: ["hourglass"] } });
+
+    await notifications.send(note("retry", "Retry 1", "low"));
+    await notifications.send(note("error", "boom", "urgent"));
+
+    expect(recorder.sent[0]).toMatchObject({ priority: "min", tags: ["hourglass"] });
+    expect(recorder.sent[1]).toMatchObject({ priority: "urgent", tags: ["robot"] });
+  });
+
+  it("should drop identical alerts within the dedupe window", async () => {
+    const notifications = router({ dedupeSeconds: 60 });
+
+    await notifications.send(note("error", "rate limited"));
+    await notifications.send(note("error", "rate limited"));
+    await notifications.send(note("error", "other error"));
+    clock = new Date(clock.getTime() + 61_000);
+    await notifications.send(note("error", "rate limited"));
+
+    expect(recorder.sent.map((sent) => sent.message)).toEqual(["rate limited", "other error", "rate limited"]);
+  });
+
+  it("should hold back all but urgent alerts during quiet hours", async () => {
+    const notifications = router({ quietHours: { start: "22:00", end: "07:00" } });
+    clock = new Date(2026, 0, 1, 23, 30);
+
+    expect(await notifications.send(note("story_complete", "US-001", "high"))).toBe(false);
+    expect(await notifications.send(note("all_blocked", "All stories blocked", "urgent"))).toBe(true);
+    clock = new Date(2026, 0, 2, 7, 0);
+    expect(await notifications.send(note("story_complete", "US-002", "high"))).toBe(true);
+
+    expect(recorder.sent.map((sent) => sent.message)).toEqual(["All stories blocked", "US-002"]);
+  });
+
+  it("should batch iteration events into a periodic digest", async () => {
+    const notifications = router({ digest: { intervalMinutes: 30 } });
+
+    await notifications.send(note("iteration_complete", "demo\n1 US-001 sonnet"));
+    clock = new Date(clock.getTime() + 10 * 60_000);
+    await notifications.send(note("iteration_complete", "demo\n2 US-002 sonnet"));
+    await notifications.send(note("error", "boom"));
+    expect(recorder.sent.map((sent) => sent.event)).toEqual(["error"]);
+
+    clock = new Date(clock.getTime() + 25 * 60_000);
+    await notifications.send(note("iteration_complete", "demo\n3 US-003 opus"));
+
+    expect(recorder.sent).toHaveLength(2);
+    expect(recorder.sent[1]).toMatchObject({ title: "[Ralph] Digest (2)", priority: "low" });
+    expect(recorder.sent[1].message).toBe(
+      "[Ralph] iteration_complete: demo · 1 US-001 sonnet\n[Ralph] iteration_complete: demo · 2 US-002 sonnet"
+    );
+
+    await notifications.close();
+    expect(recorder.sent[2].title).toBe("[Ralph] Digest (1)");
+  });
+
+  it("should keep the digest while quiet hours last", async () => {
+    const notifications = router({ digest: { intervalMinutes: 1 }, quietHours: { start: "22:00", end: "07:00" } });
+    clock = new Date(2026, 0, 1, 23, 0);
+
+    await notifications.send(note("iteration_complete", "1 US-001"));
+    await notifications.close();
+    expect(recorder.sent).toHaveLength(0);
+
+    clock = new Date(2026, 0, 2, 8, 0);
+    await notifications.close();
+    expect(recorder.sent.map((sent) => sent.title)).toEqual(["[Ralph] Digest (1)"]);
+  });
+});
+
+describe("quiet hours", () => {
+  it("should parse HH:MM and reject anything else", () => {
+    expect(parseClockTime("07:30")).toBe(450);
+    expect(parseClockTime("7:05")).toBe(425);
+    expect(parseClockTime("24:00")).toBeNull();
+    expect(parseClockTime("noon")).toBeNull();
+  });
+
+  it("should handle windows that wrap midnight", () => {
+    const night = { start: "22:00", end: "07:00" };
+    const lunch = { start: "12:00", end: "13:00" };
+
+    expect(isQuietTime(night, new Date(2026, 0, 1, 23, 59))).toBe(true);
+    expect(isQuietTime(night, new Date(2026, 0, 1, 6, 59))).toBe(true);
+    expect(isQuietTime(night, new Date(2026, 0, 1, 7, 0))).toBe(false);
+    expect(isQuietTime(lunch, new Date(2026, 0, 1, 12, 30))).toBe(true);
+    expect(isQuietTime(lunch, new Date(2026, 0, 1, 13, 0))).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Notifier Tests
+ * Tests for ralph-ui/src/runner/notifiers.ts against a local HTTP stand-in server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import {
+  WebhookNotifier,
+  ChatWebhookNotifier,
+  DesktopNotifier,
+  NotifierGroup,
+  createNotifier,
+  createRunNotifier,
+} from "../../src/runner/notifiers";
+import { NtfyNotifier, notifyBlocked, notifyPRDComplete } from "../../src/runner/ntfy";
+import { NotificationRouter } from "../../src/runner/notification-router";
+import type { Notification, Notifier } from "../../src/runner/types";
+
+interface Received {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+const notification: Notification = {
+  event: "error",
+  title: "[Ralph] Error",
+  message: "demo\nUS-001\nrate limited",
+  priority: "urgent",
+  tags: ["x", "fire"],
+  storyId: "US-001",
+};
+
+class RecordingNotifier implements Notifier {
+  readonly name = "recording";
+  readonly sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<boolean> {
+    this.sent.push(notification);
+    return true;
+  }
+}
+
+describe("notifiers", () => {
+  let server: Server<undefined>;
+  let baseUrl: string;
+  let received: Received[];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      hostname: "127.0.0.1",
+      port: 0,
+      fetch: async (request) => {
+        const path = new URL(request.url).pathname;
+        received.push({ path, headers: request.headers, body: await request.text() });
+        return new Response("ok", { status: path === "/fail" ? 500 : 200 });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it("should post to a self-hosted ntfy server with a token", async () => {
+    const ntfy = new NtfyNotifier({ topic: "ralph", baseUrl: `${baseUrl}/`, token: "tk_secret" });
+
+    expect(await ntfy.send(notification)).toBe(true);
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe("/ralph");
+    expect(received[0].headers.get("authorization")).toBe("Bearer tk_secret");
+    expect(received[0].headers.get("title")).toBe("[Ralph] Error");
+    expect(received[0].headers.get("priority")).toBe("urgent");
+    expect(received[0].headers.get("tags")).toBe("x,fire");
+    expect(received[0].body).toBe(notification.message);
+  });
+
+  it("should post the notification as JSON to a webhook", async () => {
+    const webhook = new WebhookNotifier({ url: `${baseUrl}/hook`, headers: { "X-Api-Key": "abc" } });
+
+    expect(await webhook.send(notification)).toBe(true);
+    expect(received[0].headers.get("content-type")).toBe("application/json");
+    expect(received[0].headers.get("x-api-key")).toBe("abc");
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: "error",
+      title: "[Ralph] Error",
+      storyId: "US-001",
+      priority: "urgent",
+    });
+  });
+
+  it("should format Slack and Discord payloads", async () => {
+    await new ChatWebhookNotifier({ url: `${baseUrl}/slack`, flavor: "slack" }).send(notification);
+    await new ChatWebhookNotifier({ url: `${baseUrl}/discord`, flavor: "discord" }).send(notification);
+
+    expect(JSON.parse(received[0].body)).toEqual({ text: `*[Ralph] Error*\n${notification.message}` });
+    expect(JSON.parse(received[1].body)).toEqual({ content: `**[Ralph] Error**\n${notification.message}` });
+  });
+
+  it("should report failed deliveries instead of throwing", async () => {
+    expect(await new WebhookNotifier({ url: `${baseUrl}/fail` }).send(notification)).toBe(false);
+    expect(await new WebhookNotifier({ url: "http://127.0.0.1:1/unreachable" }).send(notification)).toBe(false);
+    expect(await new DesktopNotifier({ command: "ralph-no-such-command" }).send(notification)).toBe(false);
+  });
+
+  it("should use the desktop command's exit code", async () => {
+    expect(await new DesktopNotifier({ command: "true" }).send(notification)).toBe(true);
+    expect(await new DesktopNotifier({ command: "false" }).send(notification)).toBe(false);
+  });
+
+  it("should only send events a provider subscribed to", async () => {
+    const all = new RecordingNotifier();
+    const errorsOnly = new RecordingNotifier();
+    const group = new NotifierGroup([{ notifier: all }, { notifier: errorsOnly, events: ["error"] }]);
+
+    await group.send(notification);
+    await group.send({ ...notification, event: "iteration_complete" });
+
+    expect(all.sent.map((sent) => sent.event)).toEqual(["error", "iteration_complete"]);
+    expect(errorsOnly.sent.map((sent) => sent.event)).toEqual(["error"]);
+  });
+
+  it("should build providers from config and skip them when notifications are off", () => {
+    expect(createNotifier({ type: "discord", url: baseUrl }).name).toBe("discord");
+    expect(createNotifier({ type: "ntfy", topic: "ralph" }).name).toBe("ntfy:ralph");
+    expect(createRunNotifier({ notify: false, ntfyTopic: "ralph" })).toBeNull();
+    expect(createRunNotifier({ notify: true })).toBeNull();
+    expect(createRunNotifier({ notify: true, notifiers: [{ type: "desktop" }] })).toBeInstanceOf(NotificationRouter);
+  });
+
+  it("should route run-level events separately from story events", async () => {
+    const recorder = new RecordingNotifier();
+
+    await notifyPRDComplete(recorder);
+    await notifyBlocked(recorder, undefined, "All stories blocked");
+    await notifyBlocked(recorder, "US-002", "3 failed attempts");
+
+    expect(recorder.sent.map((sent) => sent.event)).toEqual(["all_complete", "all_blocked", "blocked"]);
+    expect(recorder.sent[2]).toMatchObject({ title: "[Ralph] Blocked", priority: "urgent", storyId: "US-002" });
+  });
+});
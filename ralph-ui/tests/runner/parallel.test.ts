@@ -0,0 +1,252 @@
+/**
+ * Parallel Scheduler Tests
+ * Tests for ralph-ui/src/runner/parallel.ts and worktree.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { spawnSync } from "bun";
+import { existsSync, mkdirSync, rmSync, writeFileSync, readFileSync, appendFileSync } from "fs";
+import { join } from "path";
+import { createLock, selectRunnableStories, readStoryOutcome, applyStoryOutcome } from "../../src/runner/parallel";
+import { createStoryWorktree, mergeStoryWorktree, removeStoryWorktree } from "../../src/runner/worktree";
+import { listFailedUpdateQueues, readIndex, readStory } from "../../src/runner/prd";
+import type { PRDIndex, Story } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-parallel-test";
+const REPO = join(TEST_DIR, "repo");
+const PRD_JSON_DIR = join(REPO, "prd-json");
+
+function story(id: string, overrides: Partial<Story> = {}): Story {
+  return { id, title: id, acceptanceCriteria: [{ text: "Done", checked: false }], ...overrides };
+}
+
+function setupPRD(stories: Story[], index: Partial<PRDIndex> = {}) {
+  mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+  for (const s of stories) {
+    writeFileSync(join(PRD_JSON_DIR, "stories", `${s.id}.json`), JSON.stringify(s, null, 2));
+  }
+  const ids = stories.map((s) => s.id);
+  writeFileSync(
+    join(PRD_JSON_DIR, "index.json"),
+    JSON.stringify({ storyOrder: ids, pending: ids, blocked: [], completed: [], nextStory: ids[0], ...index }, null, 2)
+  );
+}
+
+function git(cwd: string, ...args: string[]): string {
+  const proc = spawnSync(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" });
+  return proc.stdout.toString().trim();
+}
+
+function initRepo() {
+  mkdirSync(REPO, { recursive: true });
+  git(REPO, "init", "-q");
+  git(REPO, "config", "user.email", "ralph@example.com");
+  git(REPO, "config", "user.name", "Ralph");
+  writeFileSync(join(REPO, "progress.txt"), "## Progress\n");
+  git(REPO, "add", "-A");
+  git(REPO, "commit", "-q", "-m", "init");
+}
+
+describe("selectRunnableStories", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    setupPRD(
+      [
+        story("US-001"),
+        story("US-002", { dependencies: ["US-001"] }),
+        story("V-001", { dependencies: ["US-000"] }),
+        story("V-002", { blockedBy: "Needs API key" }),
+        story("V-003"),
+        story("V-004"),
+      ],
+      { completed: ["US-000"] }
+    );
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should skip stories with unmet dependencies or blockers", () => {
+    expect(selectRunnableStories(PRD_JSON_DIR, 10).map((s) => s.id)).toEqual([
+      "US-001",
+      "V-001",
+      "V-003",
+      "V-004",
+    ]);
+  });
+
+  it("should respect the limit and skip running stories", () => {
+    expect(selectRunnableStories(PRD_JSON_DIR, 2, new Set(["US-001"])).map((s) => s.id)).toEqual([
+      "V-001",
+      "V-003",
+    ]);
+  });
+});
+
+describe("createLock", () => {
+  it("should run tasks one at a time in call order", async () => {
+    const withLock = createLock();
+    const order: string[] = [];
+
+    await Promise.all([
+      withLock(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        order.push("first");
+      }),
+      withLock(() => order.push("second")),
+    ]);
+
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("should keep going after a task throws", async () => {
+    const withLock = createLock();
+    const failed = withLock(() => {
+      throw new Error("boom");
+    });
+
+    await expect(failed).rejects.toThrow("boom");
+    expect(await withLock(() => "ok")).toBe("ok");
+  });
+});
+
+describe("story worktrees", () => {
+  const originalHome = process.env.HOME;
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    process.env.HOME = join(TEST_DIR, "home");
+    initRepo();
+    setupPRD([story("V-001"), story("V-002")]);
+    git(REPO, "add", "-A");
+    git(REPO, "commit", "-q", "-m", "add prd");
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  // Simulate what Claude does for a story inside its worktree
+  function workStory(worktree: ReturnType<typeof createStoryWorktree>) {
+    writeFileSync(join(worktree.path, `${worktree.storyId}.txt`), "work\n");
+    appendFileSync(join(worktree.path, "progress.txt"), `- ${worktree.storyId} done\n`);
+    const done = story(worktree.storyId, {
+      acceptanceCriteria: [{ text: "Done", checked: true }],
+      passes: true,
+    });
+    writeFileSync(join(worktree.prdJsonDir, "stories", `${worktree.storyId}.json`), JSON.stringify(done));
+    const index = readIndex(worktree.prdJsonDir)!;
+    index.pending = index.pending.filter((id) => id !== worktree.storyId);
+    writeFileSync(join(worktree.prdJsonDir, "index.json"), JSON.stringify(index));
+    git(worktree.path, "add", "-A");
+    git(worktree.path, "commit", "-q", "-m", `feat: ${worktree.storyId}`);
+  }
+
+  it("should merge parallel stories and apply PRD results in the main checkout", () => {
+    const first = createStoryWorktree(REPO, PRD_JSON_DIR, "V-001", "run-1");
+    const second = createStoryWorktree(REPO, PRD_JSON_DIR, "V-002", "run-1");
+    workStory(first);
+    workStory(second);
+
+    for (const worktree of [first, second]) {
+      const outcome = readStoryOutcome(worktree);
+      expect(mergeStoryWorktree(REPO, PRD_JSON_DIR, worktree)).toEqual({ merged: true });
+      applyStoryOutcome(PRD_JSON_DIR, outcome, "haiku");
+      removeStoryWorktree(REPO, worktree);
+    }
+
+    expect(existsSync(join(REPO, "V-001.txt"))).toBe(true);
+    expect(existsSync(join(REPO, "V-002.txt"))).toBe(true);
+    expect(readFileSync(join(REPO, "progress.txt"), "utf-8")).toContain("- V-001 done");
+    expect(readFileSync(join(REPO, "progress.txt"), "utf-8")).toContain("- V-002 done");
+
+    const index = readIndex(PRD_JSON_DIR)!;
+    expect(index.pending).toEqual([]);
+    expect(index.completed).toEqual(["V-001", "V-002"]);
+    expect(readStory(PRD_JSON_DIR, "V-001")?.completedBy).toBe("haiku");
+    expect(existsSync(first.path)).toBe(false);
+  });
+
+  it("should not merge into a main checkout with uncommitted changes", () => {
+    const worktree = createStoryWorktree(REPO, PRD_JSON_DIR, "V-001", "run-1");
+    workStory(worktree);
+    writeFileSync(join(REPO, "notes.txt"), "mine\n");
+    git(REPO, "add", "notes.txt");
+
+    const merged = mergeStoryWorktree(REPO, PRD_JSON_DIR, worktree);
+    expect(merged.merged).toBe(false);
+    expect(merged.error).toContain("uncommitted changes (notes.txt)");
+    expect(existsSync(join(REPO, "V-001.txt"))).toBe(false);
+    expect(git(REPO, "diff", "--cached", "--name-only")).toBe("notes.txt");
+    expect(git(REPO, "log", "-1", "--format=%s")).toBe("add prd");
+
+    // The runner's own prd-json writes don't block the merge
+    git(REPO, "commit", "-q", "-m", "notes");
+    appendFileSync(join(PRD_JSON_DIR, "index.json"), "\n");
+    expect(mergeStoryWorktree(REPO, PRD_JSON_DIR, worktree)).toEqual({ merged: true });
+    expect(existsSync(join(REPO, "V-001.txt"))).toBe(true);
+  });
+
+  it("should queue a story's updates in update.json, or keep them when it is unreadable", () => {
+    const updatePath = join(PRD_JSON_DIR, "update.json");
+    writeFileSync(updatePath, JSON.stringify({ moveToPending: ["V-009"] }));
+
+    const outcome = { story: null, updates: { pinStory: "V-002", moveStories: [["V-002", -1]] as [string, number][] } };
+    expect(applyStoryOutcome(PRD_JSON_DIR, outcome, "haiku")).toBeUndefined();
+    expect(JSON.parse(readFileSync(updatePath, "utf-8"))).toEqual({
+      moveToPending: ["V-009"],
+      moveStories: [["V-002", -1]],
+      pinStory: "V-002",
+    });
+
+    writeFileSync(updatePath, "{ not json");
+    const warning = applyStoryOutcome(PRD_JSON_DIR, outcome, "haiku");
+    expect(warning).toMatch(/^story's updates not queued .* - saved to update\.failed-.+\.json$/);
+    expect(listFailedUpdateQueues(PRD_JSON_DIR)).toHaveLength(1);
+    expect(readFileSync(updatePath, "utf-8")).toBe("{ not json");
+  });
+
+  it("should give each worktree its own copy of a PRD outside the repo", () => {
+    const outsidePrd = join(TEST_DIR, "outside-prd");
+    rmSync(PRD_JSON_DIR, { recursive: true });
+    git(REPO, "add", "-A");
+    git(REPO, "commit", "-q", "-m", "move prd out");
+    mkdirSync(join(outsidePrd, "stories"), { recursive: true });
+    writeFileSync(join(outsidePrd, "index.json"), JSON.stringify({ storyOrder: [], pending: [], blocked: [], nextStory: "V-001" }));
+
+    const first = createStoryWorktree(REPO, outsidePrd, "V-001", "run-1");
+    const second = createStoryWorktree(REPO, outsidePrd, "V-002", "run-1");
+    expect(first.prdJsonDir).not.toBe(outsidePrd);
+    expect(first.prdJsonDir).not.toBe(second.prdJsonDir);
+    expect(first.prdJsonDir.startsWith(first.path + "/")).toBe(false);
+
+    writeFileSync(join(second.prdJsonDir, "index.json"), JSON.stringify({ storyOrder: [], pending: [], blocked: [], nextStory: "V-002" }));
+    expect(readIndex(first.prdJsonDir)?.nextStory).toBe("V-001");
+    expect(readIndex(outsidePrd)?.nextStory).toBe("V-001");
+
+    for (const worktree of [first, second]) removeStoryWorktree(REPO, worktree);
+    expect(existsSync(first.prdJsonDir)).toBe(false);
+    expect(existsSync(outsidePrd)).toBe(true);
+  });
+
+  it("should abort on real conflicts and keep the branch", () => {
+    const first = createStoryWorktree(REPO, PRD_JSON_DIR, "V-001", "run-1");
+    const second = createStoryWorktree(REPO, PRD_JSON_DIR, "V-002", "run-1");
+    for (const worktree of [first, second]) {
+      writeFileSync(join(worktree.path, "shared.ts"), `export const owner = "${worktree.storyId}";\n`);
+      git(worktree.path, "add", "-A");
+      git(worktree.path, "commit", "-q", "-m", worktree.storyId);
+    }
+
+    expect(mergeStoryWorktree(REPO, PRD_JSON_DIR, first).merged).toBe(true);
+    const result = mergeStoryWorktree(REPO, PRD_JSON_DIR, second);
+    expect(result.merged).toBe(false);
+    expect(result.error).toContain("shared.ts");
+    expect(git(REPO, "status", "--porcelain")).toBe("");
+
+    removeStoryWorktree(REPO, second, true);
+    expect(git(REPO, "branch", "--list", second.branch)).toContain("V-002");
+  });
+});
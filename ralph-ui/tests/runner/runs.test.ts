@@ -0,0 +1,166 @@
+/**
+ * Run History Tests
+ * Tests for ralph-ui/src/runner/runs.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createRunDir, startIterationRecord, finishIterationRecord, updateRunMetadata } from "../../src/runner/archive";
+import {
+  listRuns,
+  findRun,
+  grepRuns,
+  listTranscripts,
+  readTranscript,
+  formatRunList,
+  formatRunTimeline,
+  formatTranscriptMatches,
+  listStoryAttempts,
+  formatStoryAttempt,
+} from "../../src/runner/runs";
+import type { IterationResult } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-runs-test";
+
+// Archive a run whose iterations each completed (or not) one story
+function archiveRun(startedAt: string, project: string, iterations: { storyId: string; completed: boolean; output: string }[]) {
+  const runDir = createRunDir(
+    { runId: `run-${project}`, project, workingDir: `/tmp/${project}`, prdJsonDir: `/tmp/${project}/prd-json`, pid: 1, startedAt },
+    TEST_DIR
+  );
+
+  iterations.forEach(({ storyId, completed, output }, i) => {
+    const record = startIterationRecord(runDir, {
+      iteration: i + 1,
+      storyId,
+      model: "sonnet",
+      startedAt: new Date(Date.parse(startedAt) + i * 60_000).toISOString(),
+      prompt: `Work on ${storyId}`,
+      systemContext: "",
+    });
+    writeFileSync(join(runDir, record.transcript), output);
+
+    const result: IterationResult = {
+      iteration: i + 1,
+      storyId,
+      success: completed,
+      hasComplete: false,
+      hasBlocked: false,
+      durationMs: 30_000,
+      estimatedCost: 0.25,
+      error: completed ? undefined : "Verification failed: no progress (no criteria checked, no commit)",
+      verification: {
+        verdict: completed ? "completed" : "no_progress",
+        criteriaChecked: [],
+        criteriaTotal: 1,
+        criteriaDone: completed ? 1 : 0,
+        passes: completed,
+        removedFromPending: completed,
+        commits: [],
+        issues: [],
+      },
+    };
+    finishIterationRecord(runDir, record, result, 0);
+  });
+  return runDir;
+}
+
+describe("run history", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should summarize runs newest first", () => {
+    const older = archiveRun("2026-01-01T01:00:00.000Z", "alpha", [
+      { storyId: "US-001", completed: true, output: "Done\n" },
+    ]);
+    archiveRun("2026-01-02T01:00:00.000Z", "beta", [
+      { storyId: "US-001", completed: false, output: "Stuck on tests\n" },
+      { storyId: "US-001", completed: true, output: "Fixed the tests\n" },
+    ]);
+    updateRunMetadata(older, { endedAt: "2026-01-01T01:05:00.000Z" });
+
+    const runs = listRuns(TEST_DIR);
+    expect(runs.map((run) => run.metadata?.project)).toEqual(["beta", "alpha"]);
+    expect(runs[0].storiesCompleted).toEqual(["US-001"]);
+    expect(runs[0].cost).toBe(0.5);
+    expect(runs[0].durationMs).toBe(90_000);
+    expect(runs[1].durationMs).toBe(300_000);
+
+    const list = formatRunList(runs);
+    expect(list).toContain("📼 2 runs:");
+    expect(list).toContain("beta  1 story completed, 2 iterations, $0.50, 1m 30s  (running or crashed)");
+  });
+
+  it("should find runs by name, run ID, prefix or latest", () => {
+    archiveRun("2026-01-01T01:00:00.000Z", "alpha", []);
+    archiveRun("2026-01-02T01:00:00.000Z", "beta", []);
+
+    expect(findRun("latest", TEST_DIR)?.metadata?.project).toBe("beta");
+    expect(findRun("run-alpha", TEST_DIR)?.metadata?.project).toBe("alpha");
+    expect(findRun("2026-01-01", TEST_DIR)?.metadata?.project).toBe("alpha");
+    expect(findRun("2026-01", TEST_DIR)).toBeNull();
+    expect(findRun("nope", TEST_DIR)).toBeNull();
+  });
+
+  it("should show a run's iteration timeline", () => {
+    const runDir = archiveRun("2026-01-01T01:00:00.000Z", "alpha", [
+      { storyId: "US-001", completed: false, output: "" },
+      { storyId: "US-001", completed: true, output: "" },
+    ]);
+
+    const timeline = formatRunTimeline(findRun(runDir, TEST_DIR)!);
+    expect(timeline).toContain("US-001  sonnet  ❌ no progress  30s, $0.25");
+    expect(timeline).toContain("Verification failed: no progress");
+    expect(timeline).toContain("US-001  sonnet  ✅ completed  30s, $0.25");
+  });
+
+  it("should grep transcripts, including logs from before the archive", () => {
+    archiveRun("2026-01-02T01:00:00.000Z", "beta", [
+      { storyId: "US-001", completed: false, output: "Running tests\n1 FAIL in login.test.ts\n" },
+    ]);
+    mkdirSync(join(TEST_DIR, "2025-12-31T00-00-00-000Z"));
+    writeFileSync(join(TEST_DIR, "2025-12-31T00-00-00-000Z", "output.log"), "old fail\n");
+
+    const matches = grepRuns("fail", TEST_DIR);
+    expect(formatTranscriptMatches(matches)).toBe(
+      "2026-01-02T01-00-00-000Z/iteration-1.log:2: 1 FAIL in login.test.ts\n2025-12-31T00-00-00-000Z/output.log:1: old fail"
+    );
+    expect(grepRuns("fail", TEST_DIR, { project: "beta" })).toHaveLength(1);
+    expect(formatTranscriptMatches(grepRuns("nothing here", TEST_DIR))).toBe("No matches");
+  });
+
+  it("should read a run's transcripts in iteration order", () => {
+    const runDir = archiveRun("2026-01-01T01:00:00.000Z", "alpha", [
+      { storyId: "US-001", completed: false, output: "first\n" },
+      { storyId: "US-002", completed: true, output: "second\nthird\n" },
+    ]);
+    const run = findRun(runDir, TEST_DIR)!;
+
+    expect(listTranscripts(run)).toEqual(["iteration-1.log", "iteration-2.log"]);
+    expect(readTranscript(run, "iteration-2.log")).toEqual(["second", "third"]);
+    expect(readTranscript(run, "missing.log")).toEqual([]);
+  });
+
+  it("should list a story's attempts across runs of the same prd-json/", () => {
+    archiveRun("2026-01-01T01:00:00.000Z", "alpha", [
+      { storyId: "US-001", completed: false, output: "" },
+      { storyId: "US-002", completed: true, output: "" },
+    ]);
+    archiveRun("2026-01-02T01:00:00.000Z", "alpha", [{ storyId: "US-001", completed: true, output: "" }]);
+    archiveRun("2026-01-03T01:00:00.000Z", "beta", [{ storyId: "US-001", completed: true, output: "" }]);
+
+    const attempts = listStoryAttempts("/tmp/alpha/prd-json/", "US-001", TEST_DIR);
+    expect(attempts.map((attempt) => [attempt.run, attempt.record.verdict])).toEqual([
+      ["2026-01-01T01-00-00-000Z", "no_progress"],
+      ["2026-01-02T01-00-00-000Z", "completed"],
+    ]);
+    expect(formatStoryAttempt(attempts[1])).toContain("2026-01-02T01-00-00-000Z #1  sonnet  ✅ completed  30s, $0.25");
+  });
+});
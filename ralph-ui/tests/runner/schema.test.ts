@@ -0,0 +1,183 @@
+/**
+ * Schema Validation Tests
+ * Tests for ralph-ui/src/runner/schema.ts and the validated reads built on it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { validateSchema, validateAgainst, SchemaValidationError } from "../../src/runner/schema";
+import { readIndex, readStory, applyUpdateQueue, findInvalidPRDFiles } from "../../src/runner/prd";
+import { createStatsLoader } from "../../src/hooks/usePRDStats";
+import { loadConfigChecked } from "../../src/utils/config";
+
+const TEST_DIR = "/tmp/ralph-schema-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+function writeJson(relativePath: string, value: unknown) {
+  writeFileSync(join(PRD_JSON_DIR, relativePath), typeof value === "string" ? value : JSON.stringify(value, null, 2));
+}
+
+describe("validateSchema", () => {
+  const schema = {
+    type: "object",
+    required: ["name", "items"],
+    properties: {
+      name: { type: "string", pattern: "^[a-z]+$" },
+      level: { enum: ["low", "high"] },
+      count: { type: "integer", minimum: 0 },
+      items: { type: "array", items: { $ref: "#/$defs/item" } },
+    },
+    additionalProperties: false,
+    $defs: {
+      item: { type: "object", required: ["done"], properties: { done: { type: "boolean" } } },
+    },
+  };
+
+  it("should accept a conforming value", () => {
+    expect(validateSchema(schema, { name: "ok", level: "low", count: 2, items: [{ done: true }] })).toEqual([]);
+  });
+
+  it("should report the JSON path and expected type", () => {
+    expect(validateSchema(schema, { name: "Bad", level: "mid", count: 1.5, items: [{ done: "yes" }], extra: 1 })).toEqual([
+      { path: "$.name", message: 'expected a string matching ^[a-z]+$, got "Bad"' },
+      { path: "$.level", message: 'expected one of "low", "high", got "mid"' },
+      { path: "$.count", message: "expected integer, got number" },
+      { path: "$.items[0].done", message: "expected boolean, got string" },
+      { path: "$.extra", message: "unknown property" },
+    ]);
+  });
+
+  it("should point at a likely misspelling of a missing property", () => {
+    expect(validateSchema(schema, { name: "ok", itmes: [] })).toEqual([
+      { path: "$", message: 'missing required property "items" (found "itmes" - misspelt?)' },
+      { path: "$.itmes", message: "unknown property" },
+    ]);
+  });
+
+  it("should report the anyOf branch matching the value's type", () => {
+    const update = { newStories: ["US-001", { id: "US-002", title: "Two", acceptanceCriteria: [{ text: "x" }] }] };
+    expect(validateAgainst("update", update)).toEqual([
+      { path: "$.newStories[1].acceptanceCriteria[0]", message: 'missing required property "checked"' },
+    ]);
+  });
+
+  it("should check each position of a tuple and its length", () => {
+    expect(validateAgainst("update", { moveStories: [["US-001", -1]], checkCriteria: [["US-001", 0, true]] })).toEqual([]);
+    expect(validateAgainst("update", { moveStories: [["US-001", "x"], ["US-002", 1, 2]] })).toEqual([
+      { path: "$.moveStories[0][1]", message: "expected integer, got string" },
+      { path: "$.moveStories[1]", message: "expected at most 2 item(s), got 3" },
+    ]);
+  });
+});
+
+describe("validated PRD reads", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+    writeJson("index.json", { storyOrder: ["US-001"], pending: ["US-001"], blocked: [], nextStory: "US-001" });
+    writeJson("stories/US-001.json", { id: "US-001", title: "One", acceptanceCriteria: [{ text: "Done", checked: false }] });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should still return null for a missing file", () => {
+    expect(readStory(PRD_JSON_DIR, "US-404")).toBeNull();
+    expect(readIndex(join(TEST_DIR, "nowhere"))).toBeNull();
+  });
+
+  it("should throw for a misspelt acceptanceCriteria instead of reading zero criteria", () => {
+    writeJson("stories/US-001.json", { id: "US-001", title: "One", acceptanceCritera: [{ text: "Done", checked: false }] });
+
+    const storyPath = join(PRD_JSON_DIR, "stories", "US-001.json");
+    expect(() => readStory(PRD_JSON_DIR, "US-001")).toThrow(
+      `${storyPath}: $: missing required property "acceptanceCriteria" (found "acceptanceCritera" - misspelt?)`
+    );
+  });
+
+  it("should throw for an index that is not valid JSON", () => {
+    writeJson("index.json", "{ storyOrder: [");
+
+    try {
+      readIndex(PRD_JSON_DIR);
+      throw new Error("expected readIndex to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect((error as SchemaValidationError).file).toBe(join(PRD_JSON_DIR, "index.json"));
+      expect((error as SchemaValidationError).issues[0].message).toStartWith("invalid JSON");
+    }
+  });
+
+  it("should list every invalid file", () => {
+    writeJson("stories/US-002.json", { id: "US-002", title: 2, acceptanceCriteria: [] });
+
+    expect(findInvalidPRDFiles(PRD_JSON_DIR)).toEqual([
+      `${join(PRD_JSON_DIR, "stories", "US-002.json")}: $.title: expected string, got integer`,
+    ]);
+  });
+
+  it("should reject an invalid update.json and report why", () => {
+    writeJson("update.json", { newStories: ["US-002"], moveToBlocked: [["US-001"]] });
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+    expect(result.applied).toBe(false);
+    expect(result.error).toBe(`${join(PRD_JSON_DIR, "update.json")}: $.moveToBlocked[0]: expected at least 2 item(s), got 1`);
+    expect(existsSync(result.failedPath!)).toBe(true);
+    expect(readIndex(PRD_JSON_DIR)?.pending).toEqual(["US-001"]);
+  });
+
+  it("should surface schema problems in the dashboard stats", () => {
+    writeJson("stories/US-001.json", { id: "US-001", title: "One", acceptanceCriteria: [{ text: "Done", checked: "no" }] });
+
+    const stats = createStatsLoader(PRD_JSON_DIR)();
+    expect(stats?.totalStories).toBe(1);
+    expect(stats?.currentStory).toBeNull();
+    expect(stats?.error).toBe(
+      `${join(PRD_JSON_DIR, "stories", "US-001.json")}: $.acceptanceCriteria[0].checked: expected boolean, got string`
+    );
+  });
+
+  it("should report an unreadable index as empty stats with an error", () => {
+    writeJson("index.json", { storyOrder: "US-001", pending: [], blocked: [] });
+
+    const stats = createStatsLoader(PRD_JSON_DIR)();
+    expect(stats?.totalStories).toBe(0);
+    expect(stats?.error).toBe(`${join(PRD_JSON_DIR, "index.json")}: $.storyOrder: expected array, got string`);
+  });
+});
+
+describe("loadConfigChecked", () => {
+  const configPath = join(TEST_DIR, "config.json");
+
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should use a config that breaks the schema but report the problem", () => {
+    writeFileSync(configPath, JSON.stringify({ modelStrategy: "fast", parallelAgents: 9 }));
+
+    const { config, error } = loadConfigChecked(configPath);
+    expect(config.parallelAgents).toBe(9);
+    expect(error).toBe(`${configPath}: $.modelStrategy: expected one of "single", "smart", got "fast" (and 1 more issue)`);
+  });
+
+  it("should fall back to defaults for invalid JSON", () => {
+    writeFileSync(configPath, "{ nope");
+
+    const { config, error } = loadConfigChecked(configPath);
+    expect(config.modelStrategy).toBe("smart");
+    expect(error).toContain("invalid JSON");
+  });
+
+  it("should report nothing for a valid config", () => {
+    writeFileSync(configPath, JSON.stringify({ modelStrategy: "single", defaultModel: "sonnet" }));
+
+    expect(loadConfigChecked(configPath).error).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Status Server Tests
+ * Tests for ralph-ui/src/runner/server.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { StatusServer, readPRDSnapshot, formatServerEvent } from "../../src/runner/server";
+import { setRunning, cleanupStatus } from "../../src/runner/status";
+import type { IterationResult } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-server-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+function writeStory(checked: boolean[]) {
+  writeFileSync(
+    join(PRD_JSON_DIR, "stories", "US-001.json"),
+    JSON.stringify({
+      id: "US-001",
+      title: "One",
+      acceptanceCriteria: checked.map((value, i) => ({ text: `Criterion ${i + 1}`, checked: value })),
+    })
+  );
+}
+
+// Read SSE messages until `count` have arrived
+async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (buffer.split("\n\n").length - 1 < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value);
+  }
+  return buffer
+    .split("\n\n")
+    .filter(Boolean)
+    .map((message) => {
+      const [event, data] = message.split("\n");
+      return { event: event.replace("event: ", ""), data: JSON.parse(data.replace("data: ", "")) };
+    });
+}
+
+describe("StatusServer", () => {
+  let server: StatusServer;
+  let url: string;
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+    writeStory([true, false]);
+    writeFileSync(
+      join(PRD_JSON_DIR, "index.json"),
+      JSON.stringify({ storyOrder: ["US-001"], pending: ["US-001"], blocked: [], nextStory: "US-001" })
+    );
+    server = new StatusServer({ prdJsonDir: PRD_JSON_DIR, port: 0 });
+    url = server.start();
+  });
+
+  afterEach(() => {
+    server.stop();
+    cleanupStatus();
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should report criteria progress per story", () => {
+    expect(readPRDSnapshot(PRD_JSON_DIR)).toEqual({
+      stats: { total: 1, completed: 0, pending: 1, blocked: 0 },
+      nextStory: "US-001",
+      stories: [{ id: "US-001", title: "One", passes: false, blocked: false, criteriaDone: 1, criteriaTotal: 2 }],
+    });
+    expect(readPRDSnapshot(join(TEST_DIR, "missing")).error).toBe("index.json not found");
+  });
+
+  it("should serve status, prd and iterations as JSON", async () => {
+    setRunning(2, "US-001", { model: "sonnet" });
+    server.recordIteration({
+      iteration: 1,
+      storyId: "US-001",
+      success: true,
+      hasComplete: false,
+      hasBlocked: false,
+      durationMs: 1000,
+      events: [{ type: "assistant_text", text: "hi" }],
+    } as IterationResult);
+
+    expect(await (await fetch(`${url}/status`)).json()).toMatchObject({ state: "running", iteration: 2, storyId: "US-001" });
+    expect((await (await fetch(`${url}/prd`)).json()).stories[0].criteriaDone).toBe(1);
+
+    const iterations = await (await fetch(`${url}/iterations`)).json();
+    expect(iterations).toHaveLength(1);
+    expect(iterations[0].events).toBeUndefined();
+
+    expect((await fetch(`${url}/nope`)).status).toBe(404);
+    expect((await fetch(`${url}/status`, { method: "POST" })).status).toBe(405);
+  });
+
+  it("should reject requests for any host but 127.0.0.1 or localhost", async () => {
+    const port = new URL(url).port;
+    const status = async (host: string) => (await fetch(`${url}/status`, { headers: { Host: host } })).status;
+
+    expect(await status(`localhost:${port}`)).toBe(200);
+    expect(await status(`127.0.0.1:${port}`)).toBe(200);
+    expect(await status(`evil.example:${port}`)).toBe(403);
+    expect(await status("localhost:80")).toBe(403);
+  });
+
+  it("should stream status changes, criteria progress and output", async () => {
+    setRunning(1, "US-001");
+    const response = await fetch(`${url}/events`);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const reader = response.body!.getReader();
+
+    const initial = await readEvents(reader, 2);
+    expect(initial.map((event) => event.event)).toEqual(["status", "prd"]);
+
+    setRunning(2, "US-001");
+    server.publishOutput("Running tests\n");
+    writeStory([true, true]);
+    server.recordIteration({ iteration: 2, storyId: "US-001", success: true, hasComplete: false, hasBlocked: false, durationMs: 5 });
+
+    const events = await readEvents(reader, 4);
+    expect(events.map((event) => event.event)).toEqual(["status", "output", "iteration", "prd"]);
+    expect(events[1].data).toBe("Running tests\n");
+    expect(events[3].data.stories[0].criteriaDone).toBe(2);
+    await reader.cancel();
+  });
+
+  it("should keep multi-line output on one data line", () => {
+    expect(formatServerEvent({ type: "output", data: "a\nb" })).toBe('event: output\ndata: "a\\nb"\n\n');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Status File Tests
+ * Tests for listInstances() in ralph-ui/src/runner/status.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { listInstances } from "../../src/runner/status";
+import type { RalphStatus } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-status-test";
+const DEAD_PID = 99999999; // Above any pid_max, so never alive
+
+function writeStatusFile(pid: number, status: Partial<RalphStatus>): string {
+  const path = join(TEST_DIR, `ralph-status-${pid}.json`);
+  writeFileSync(
+    path,
+    JSON.stringify({
+      state: "running",
+      iteration: 1,
+      storyId: "US-001",
+      lastActivity: Math.floor(Date.now() / 1000),
+      error: null,
+      retryIn: 0,
+      pid,
+      ...status,
+    })
+  );
+  return path;
+}
+
+describe("listInstances", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should list live instances with their project and cost", () => {
+    writeStatusFile(process.pid, { project: "web", storyId: "US-007", model: "opus", cost: 1.25 });
+
+    const instances = listInstances({ dir: TEST_DIR });
+
+    expect(instances).toHaveLength(1);
+    expect(instances[0]).toMatchObject({ pid: process.pid, project: "web", storyId: "US-007", cost: 1.25 });
+  });
+
+  it("should delete status files of dead processes", () => {
+    writeStatusFile(process.pid, { project: "web" });
+    const stale = writeStatusFile(DEAD_PID, { project: "api" });
+
+    const instances = listInstances({ dir: TEST_DIR });
+
+    expect(instances.map((instance) => instance.pid)).toEqual([process.pid]);
+    expect(existsSync(stale)).toBe(false);
+  });
+
+  it("should keep stale files when cleanup is off", () => {
+    const stale = writeStatusFile(DEAD_PID, {});
+
+    expect(listInstances({ dir: TEST_DIR, cleanup: false })).toEqual([]);
+    expect(existsSync(stale)).toBe(true);
+  });
+
+  it("should skip unreadable files and unrelated names", () => {
+    writeFileSync(join(TEST_DIR, `ralph-status-${process.pid}.json`), "{ half-writ");
+    writeFileSync(join(TEST_DIR, "ralph-status-notes.json"), "{}");
+
+    expect(listInstances({ dir: TEST_DIR })).toEqual([]);
+    expect(existsSync(join(TEST_DIR, "ralph-status-notes.json"))).toBe(true);
+    expect(listInstances({ dir: join(TEST_DIR, "missing") })).toEqual([]);
+  });
+});
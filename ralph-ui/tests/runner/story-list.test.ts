@@ -0,0 +1,206 @@
+/**
+ * Story List Tests
+ * Tests for ralph-ui/src/runner/story-list.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { listStoryRows, filterStoryRows, listStoryTypes, storyEditUpdate } from "../../src/runner/story-list";
+import { applyUpdateQueue, previewUpdateQueue, queueUpdate, readIndex, readStory } from "../../src/runner/prd";
+import type { PRDIndex, Story } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-story-list-test";
+const PRD_JSON_DIR = join(TEST_DIR, "prd-json");
+
+function setupPRD(stories: Partial<Story>[], index: Partial<PRDIndex>) {
+  mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+  for (const story of stories) {
+    writeFileSync(
+      join(PRD_JSON_DIR, "stories", `${story.id}.json`),
+      JSON.stringify({ title: story.id, acceptanceCriteria: [], ...story }, null, 2)
+    );
+  }
+  writeFileSync(
+    join(PRD_JSON_DIR, "index.json"),
+    JSON.stringify({ storyOrder: stories.map((s) => s.id), pending: [], blocked: [], completed: [], ...index }, null, 2)
+  );
+}
+
+describe("story list", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should build a row per story in storyOrder", () => {
+    setupPRD(
+      [
+        { id: "US-001", acceptanceCriteria: [{ text: "a", checked: true }] },
+        {
+          id: "BUG-002",
+          priority: "high",
+          acceptanceCriteria: [
+            { text: "a", checked: true },
+            { text: "b", checked: false },
+          ],
+        },
+        { id: "V-003", blockedBy: "needs credentials" },
+      ],
+      { completed: ["US-001"], pending: ["BUG-002", "V-003"], blocked: ["V-003"], nextStory: "BUG-002" }
+    );
+
+    const rows = listStoryRows(PRD_JSON_DIR);
+    expect(rows.map((row) => [row.id, row.status, row.type, row.next])).toEqual([
+      ["US-001", "completed", "US", false],
+      ["BUG-002", "pending", "BUG", true],
+      ["V-003", "blocked", "V", false],
+    ]);
+    expect(rows[1]).toMatchObject({ priority: "high", criteriaDone: 1, criteriaTotal: 2 });
+  });
+
+  it("should keep stories whose file is missing", () => {
+    setupPRD([{ id: "US-001" }], { storyOrder: ["US-001", "US-002"], pending: ["US-001", "US-002"] });
+
+    const rows = listStoryRows(PRD_JSON_DIR);
+    expect(rows[1]).toMatchObject({ id: "US-002", title: "(missing story file)", story: null, criteriaTotal: 0 });
+  });
+
+  it("should filter by status and type", () => {
+    setupPRD([{ id: "US-001" }, { id: "US-002" }, { id: "BUG-001" }], {
+      completed: ["US-001"],
+      pending: ["US-002", "BUG-001"],
+    });
+    const rows = listStoryRows(PRD_JSON_DIR);
+
+    expect(filterStoryRows(rows, { status: "pending" }).map((row) => row.id)).toEqual(["US-002", "BUG-001"]);
+    expect(filterStoryRows(rows, { status: "pending", type: "US" }).map((row) => row.id)).toEqual(["US-002"]);
+    expect(filterStoryRows(rows, {})).toHaveLength(3);
+    expect(listStoryTypes(rows)).toEqual(["US", "BUG"]);
+  });
+
+  it("should return no rows without an index.json", () => {
+    expect(listStoryRows(PRD_JSON_DIR)).toEqual([]);
+  });
+});
+
+describe("story edits", () => {
+  const UPDATE_PATH = join(PRD_JSON_DIR, "update.json");
+  const rowsAfterQueue = () => listStoryRows(PRD_JSON_DIR, previewUpdateQueue(PRD_JSON_DIR));
+  const row = (id: string) => rowsAfterQueue().find((r) => r.id === id)!;
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    setupPRD(
+      [
+        {
+          id: "US-001",
+          acceptanceCriteria: [
+            { text: "a", checked: false },
+            { text: "b", checked: false },
+          ],
+        },
+        { id: "US-002" },
+        { id: "US-003", blockedBy: "waiting on design" },
+        { id: "US-004" },
+      ],
+      { pending: ["US-001", "US-002", "US-004"], blocked: ["US-003"], nextStory: "US-001" }
+    );
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should queue edits in update.json without touching the PRD", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 1 }));
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-002"), { type: "block", reason: " needs a decision " }));
+
+    expect(JSON.parse(readFileSync(UPDATE_PATH, "utf-8"))).toEqual({
+      checkCriteria: [["US-001", 1, true]],
+      moveToBlocked: [["US-002", "needs a decision"]],
+    });
+    expect(readStory(PRD_JSON_DIR, "US-001")?.acceptanceCriteria[1].checked).toBe(false);
+    expect(readIndex(PRD_JSON_DIR)?.blocked).toEqual(["US-003"]);
+  });
+
+  it("should show queued edits and build on them", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 0 }));
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 0 }));
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 1 }));
+
+    expect(row("US-001")).toMatchObject({ criteriaDone: 1, criteriaTotal: 2 });
+    expect(applyUpdateQueue(PRD_JSON_DIR).applied).toBe(true);
+    expect(readStory(PRD_JSON_DIR, "US-001")?.acceptanceCriteria.map((c) => c.checked)).toEqual([false, true]);
+  });
+
+  it("should keep criteria the agent checked after the edit was queued", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 1 }));
+    // The running iteration checks criterion 0 before the queue is applied
+    const story = readStory(PRD_JSON_DIR, "US-001")!;
+    story.acceptanceCriteria[0].checked = true;
+    writeFileSync(join(PRD_JSON_DIR, "stories", "US-001.json"), JSON.stringify(story));
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+    expect(result.changes).toEqual(["Checked criterion 2 of US-001", "Completed story: US-001 (every criterion checked)"]);
+    expect(readStory(PRD_JSON_DIR, "US-001")).toMatchObject({
+      passes: true,
+      acceptanceCriteria: [
+        { text: "a", checked: true },
+        { text: "b", checked: true },
+      ],
+    });
+    expect(readIndex(PRD_JSON_DIR)).toMatchObject({ pending: ["US-002", "US-004"], completed: ["US-001"], nextStory: "US-002" });
+  });
+
+  it("should let the last of block and unblock win", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-003"), { type: "unblock" }));
+    expect(row("US-003").status).toBe("pending");
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-003"), { type: "block", reason: "still waiting" }));
+    expect(row("US-003").status).toBe("blocked");
+
+    applyUpdateQueue(PRD_JSON_DIR);
+    expect(readIndex(PRD_JSON_DIR)?.blocked).toEqual(["US-003"]);
+    expect(readStory(PRD_JSON_DIR, "US-003")?.blockedBy).toBe("still waiting");
+  });
+
+  it("should move a story in storyOrder and pending", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-004"), { type: "move", offset: -1 }));
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-004"), { type: "move", offset: -1 }));
+    expect(rowsAfterQueue().map((r) => r.id)).toEqual(["US-001", "US-004", "US-002", "US-003"]);
+
+    const result = applyUpdateQueue(PRD_JSON_DIR);
+    expect(result.changes).toEqual(["Moved story: US-004 (4 → 3)", "Moved story: US-004 (3 → 2)"]);
+    expect(readIndex(PRD_JSON_DIR)).toMatchObject({
+      storyOrder: ["US-001", "US-004", "US-002", "US-003"],
+      pending: ["US-001", "US-004", "US-002"],
+      nextStory: "US-001",
+    });
+  });
+
+  it("should pin a pending story as next, and unpin it", () => {
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-004"), { type: "pin" }));
+    expect(row("US-004")).toMatchObject({ pinned: true, next: true });
+
+    applyUpdateQueue(PRD_JSON_DIR);
+    expect(readIndex(PRD_JSON_DIR)).toMatchObject({ pinnedStory: "US-004", nextStory: "US-004" });
+
+    queueUpdate(PRD_JSON_DIR, storyEditUpdate(row("US-004"), { type: "pin" }));
+    applyUpdateQueue(PRD_JSON_DIR);
+    expect(readIndex(PRD_JSON_DIR)?.pinnedStory).toBeUndefined();
+    expect(readIndex(PRD_JSON_DIR)?.nextStory).toBe("US-001");
+  });
+
+  it("should refuse edits a story can't take", () => {
+    expect(() => storyEditUpdate(row("US-002"), { type: "unblock" })).toThrow("US-002 is not blocked");
+    expect(() => storyEditUpdate(row("US-003"), { type: "block", reason: "x" })).toThrow("US-003 is blocked");
+    expect(() => storyEditUpdate(row("US-002"), { type: "block", reason: "  " })).toThrow("Blocking needs a reason");
+    expect(() => storyEditUpdate(row("US-003"), { type: "pin" })).toThrow("Only a pending story can go next");
+    expect(() => storyEditUpdate(row("US-001"), { type: "toggle-criterion", criterion: 2 })).toThrow(
+      "Invalid criterion index: 2"
+    );
+  });
+});
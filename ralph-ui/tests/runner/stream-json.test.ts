@@ -0,0 +1,192 @@
+/**
+ * Stream JSON Tests
+ * Tests for ralph-ui/src/runner/stream-json.ts and the runner's use of it in analyzeResult
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  StreamJsonParser,
+  parseStreamJson,
+  summarizeStream,
+  formatToolCalls,
+  formatStreamEvent,
+} from "../../src/runner/stream-json";
+import { analyzeResult, buildCliArgs } from "../../src/runner/claude";
+import type { SpawnResult, StreamEvent } from "../../src/runner/types";
+
+const usage = { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 500 };
+
+// A short Claude run: init, a read, a failed test run, then the final result
+const STREAM = [
+  { type: "system", subtype: "init", session_id: "sess-1", model: "claude-sonnet" },
+  {
+    type: "assistant",
+    message: { id: "msg-1", content: [{ type: "text", text: "Reading the story" }], usage },
+  },
+  {
+    type: "assistant",
+    message: {
+      id: "msg-1",
+      content: [{ type: "tool_use", id: "tool-1", name: "Read", input: { file_path: "prd-json/stories/US-001.json" } }],
+      usage,
+    },
+  },
+  {
+    type: "user",
+    message: { content: [{ type: "tool_result", tool_use_id: "tool-1", content: '{ "passes": true }' }] },
+  },
+  {
+    type: "assistant",
+    message: {
+      id: "msg-2",
+      content: [{ type: "tool_use", id: "tool-2", name: "Bash", input: { command: "bun test" } }],
+      usage: { input_tokens: 50, output_tokens: 10 },
+    },
+  },
+  {
+    type: "user",
+    message: {
+      content: [{ type: "tool_result", tool_use_id: "tool-2", content: [{ type: "text", text: "1 fail" }], is_error: true }],
+    },
+  },
+  {
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    result: "Story done",
+    session_id: "sess-1",
+    num_turns: 3,
+    duration_ms: 4200,
+    total_cost_usd: 0.05,
+    usage: { input_tokens: 150, output_tokens: 30 },
+  },
+]
+  .map((line) => JSON.stringify(line))
+  .join("\n");
+
+function spawnResult(stdout: string, overrides: Partial<SpawnResult> = {}): SpawnResult {
+  return { success: true, exitCode: 0, stdout, stderr: "", durationMs: 1000, ...overrides };
+}
+
+describe("StreamJsonParser", () => {
+  it("should turn stream-json lines into typed events", () => {
+    expect(parseStreamJson(STREAM).map((event) => event.type)).toEqual([
+      "init",
+      "assistant_text",
+      "usage",
+      "tool_use",
+      "tool_result",
+      "tool_use",
+      "usage",
+      "tool_result",
+      "result",
+    ]);
+  });
+
+  it("should emit events as chunks arrive, across partial lines", () => {
+    const parser = new StreamJsonParser();
+    const seen: StreamEvent[] = [];
+    parser.onStreamEvent((event) => seen.push(event));
+
+    const [first, second] = STREAM.split("\n");
+    parser.push(first.slice(0, 20));
+    expect(seen).toEqual([]);
+
+    parser.push(`${first.slice(20)}\r\n\x1b[0m${second.slice(0, 10)}`);
+    expect(seen.map((event) => event.type)).toEqual(["init"]);
+
+    parser.push(second.slice(10));
+    parser.end();
+    expect(seen.map((event) => event.type)).toEqual(["init", "assistant_text", "usage"]);
+    expect(parser.events).toEqual(seen);
+  });
+
+  it("should skip lines that aren't stream-json", () => {
+    const events = parseStreamJson(`Loaded config\n{broken\n${STREAM.split("\n")[0]}\nnull`);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "init", sessionId: "sess-1", model: "claude-sonnet" });
+  });
+
+  it("should truncate long tool results", () => {
+    const line = JSON.stringify({
+      type: "user",
+      message: { content: [{ type: "tool_result", tool_use_id: "t", content: "x".repeat(5000) }] },
+    });
+    const [event] = parseStreamJson(line);
+    expect(event.type === "tool_result" && event.content.length).toBe(2001);
+  });
+});
+
+describe("summarizeStream", () => {
+  it("should count tool calls and take tokens from the result", () => {
+    const summary = summarizeStream(parseStreamJson(STREAM));
+
+    expect(summary.sessionId).toBe("sess-1");
+    expect(summary.assistantText).toBe("Reading the story");
+    expect(summary.toolCalls).toEqual({ Read: 1, Bash: 1 });
+    expect(summary.toolErrors).toBe(1);
+    expect(summary.tokens).toEqual({ input: 150, output: 30, cacheCreate: 0, cacheRead: 0 });
+    expect(summary.result?.costUsd).toBe(0.05);
+  });
+
+  it("should sum usage once per message when there is no result", () => {
+    const withoutResult = STREAM.split("\n").slice(0, -1).join("\n");
+    expect(summarizeStream(parseStreamJson(withoutResult)).tokens).toEqual({
+      input: 150,
+      output: 30,
+      cacheCreate: 0,
+      cacheRead: 500,
+    });
+  });
+});
+
+describe("formatting", () => {
+  it("should list the most used tools first", () => {
+    expect(formatToolCalls({ Read: 2, Bash: 1, Edit: 3 })).toBe("Edit×3, Read×2, Bash");
+  });
+
+  it("should describe tool calls by their target", () => {
+    const events = parseStreamJson(STREAM);
+    expect(events.map(formatStreamEvent).filter(Boolean)).toEqual([
+      "[session] sess-1 (claude-sonnet)",
+      "Reading the story",
+      "→ Read prd-json/stories/US-001.json",
+      "→ Bash bun test",
+      "✗ 1 fail",
+      "[result] done, 3 turns, $0.05",
+    ]);
+  });
+});
+
+describe("analyzeResult with stream-json", () => {
+  it("should ask Claude for stream-json output", () => {
+    const args = buildCliArgs({ model: "sonnet", prompt: "go", workingDir: "/tmp", timeout: 1000 });
+    expect(args).toContain("stream-json");
+    expect(args).toContain("--verbose");
+  });
+
+  it("should not take tool output for a completion signal", () => {
+    const outcome = analyzeResult(spawnResult(STREAM));
+    expect(outcome.success).toBe(true);
+    expect(outcome.hasComplete).toBe(false);
+    expect(outcome.stream.toolCalls).toEqual({ Read: 1, Bash: 1 });
+  });
+
+  it("should detect promise tags in Claude's messages", () => {
+    const complete = STREAM.replace('"result":"Story done"', '"result":"<promise>PRD_COMPLETE</promise>"');
+    expect(analyzeResult(spawnResult(complete)).hasComplete).toBe(true);
+  });
+
+  it("should fail an iteration whose result is an error even with exit code 0", () => {
+    const failed = STREAM.replace('"subtype":"success","is_error":false', '"subtype":"error_max_turns","is_error":true');
+    const outcome = analyzeResult(spawnResult(failed));
+    expect(outcome.success).toBe(false);
+    expect(outcome.stream.result?.subtype).toBe("error_max_turns");
+  });
+
+  it("should fall back to patterns when there is no result line", () => {
+    const outcome = analyzeResult(spawnResult("All stories are complete"));
+    expect(outcome.stream.result).toBeUndefined();
+    expect(outcome.hasComplete).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Iteration Verification Tests
+ * Tests for ralph-ui/src/runner/verify.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { spawnSync } from "bun";
+import { existsSync, mkdirSync, rmSync, writeFileSync, unlinkSync } from "fs";
+import { join } from "path";
+import { captureStorySnapshot, listNewCommits, verifyIteration, describeVerification } from "../../src/runner/verify";
+import type { PRDIndex, Story } from "../../src/runner/types";
+
+const TEST_DIR = "/tmp/ralph-verify-test";
+const REPO = join(TEST_DIR, "repo");
+const PRD_JSON_DIR = join(REPO, "prd-json");
+
+function story(overrides: Partial<Story> = {}): Story {
+  return {
+    id: "US-001",
+    title: "One",
+    acceptanceCriteria: [
+      { text: "First", checked: false },
+      { text: "Second", checked: false },
+    ],
+    ...overrides,
+  };
+}
+
+function writeStoryFile(s: Story) {
+  writeFileSync(join(PRD_JSON_DIR, "stories", `${s.id}.json`), JSON.stringify(s, null, 2));
+}
+
+function writeIndexFile(index: Partial<PRDIndex> = {}) {
+  writeFileSync(
+    join(PRD_JSON_DIR, "index.json"),
+    JSON.stringify({ storyOrder: ["US-001"], pending: ["US-001"], blocked: [], completed: [], ...index }, null, 2)
+  );
+}
+
+function git(...args: string[]): string {
+  const proc = spawnSync(["git", ...args], { cwd: REPO, stdout: "pipe", stderr: "pipe" });
+  return proc.stdout.toString().trim();
+}
+
+function commit(message: string) {
+  git("add", "-A");
+  git("commit", "-q", "-m", message);
+}
+
+// Snapshot, let the "iteration" change things, snapshot again and verify
+function runIteration(change: () => void) {
+  const before = captureStorySnapshot(PRD_JSON_DIR, REPO, "US-001");
+  change();
+  const after = captureStorySnapshot(PRD_JSON_DIR, REPO, "US-001");
+  return verifyIteration(before, after, listNewCommits(REPO, before.head, after.head));
+}
+
+describe("verifyIteration", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+    mkdirSync(join(PRD_JSON_DIR, "stories"), { recursive: true });
+    writeStoryFile(story());
+    writeIndexFile();
+    git("init", "-q");
+    git("config", "user.email", "ralph@example.com");
+    git("config", "user.name", "Ralph");
+    commit("init");
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+  });
+
+  it("should report no progress when nothing changed", () => {
+    const verification = runIteration(() => {});
+    expect(verification.verdict).toBe("no_progress");
+    expect(describeVerification(verification)).toBe("no progress (no criteria checked, no commit)");
+  });
+
+  it("should report partial progress for checked criteria and a commit", () => {
+    const verification = runIteration(() => {
+      writeStoryFile(story({ acceptanceCriteria: [{ text: "First", checked: true }, { text: "Second", checked: false }] }));
+      commit("feat: US-001 first criterion");
+    });
+
+    expect(verification.verdict).toBe("partial");
+    expect(verification.criteriaChecked).toEqual(["First"]);
+    expect(verification.commits).toHaveLength(1);
+    expect(verification.commits[0]).toEndWith("feat: US-001 first criterion");
+    expect(describeVerification(verification)).toBe("partial progress (1/2 criteria, 1 newly checked, 1 commit)");
+  });
+
+  it("should report a completed story", () => {
+    const verification = runIteration(() => {
+      writeStoryFile(
+        story({
+          acceptanceCriteria: [{ text: "First", checked: true }, { text: "Second", checked: true }],
+          passes: true,
+          completedAt: "2026-01-01T00:00:00Z",
+        })
+      );
+      writeIndexFile({ pending: [], completed: ["US-001"] });
+      commit("feat: US-001 done");
+    });
+
+    expect(verification.verdict).toBe("completed");
+    expect(verification.removedFromPending).toBe(true);
+    expect(verification.completedAt).toBe("2026-01-01T00:00:00Z");
+  });
+
+  it("should flag passes=true with unchecked criteria and no commit", () => {
+    const verification = runIteration(() => {
+      writeStoryFile(story({ passes: true }));
+      writeIndexFile({ pending: [], completed: ["US-001"] });
+    });
+
+    expect(verification.verdict).toBe("inconsistent");
+    expect(verification.issues).toEqual(["passes=true with 2 criteria unchecked", "marked complete without a commit"]);
+  });
+
+  it("should flag deleted criteria and a story dropped from pending", () => {
+    const verification = runIteration(() => {
+      writeStoryFile(story({ acceptanceCriteria: [{ text: "First", checked: true }] }));
+      writeIndexFile({ pending: [] });
+    });
+
+    expect(verification.verdict).toBe("inconsistent");
+    expect(verification.issues).toEqual(["1 criterion removed", "removed from index.json pending without passing"]);
+  });
+
+  it("should treat a story archived into completed as done", () => {
+    const verification = runIteration(() => {
+      unlinkSync(join(PRD_JSON_DIR, "stories", "US-001.json"));
+      writeIndexFile({ pending: [], completed: ["US-001"] });
+      commit("feat: US-001 done and archived");
+    });
+
+    expect(verification.verdict).toBe("completed");
+  });
+
+  it("should not require commits outside a git repo", () => {
+    rmSync(join(REPO, ".git"), { recursive: true });
+
+    const verification = runIteration(() => {
+      writeStoryFile(story({ acceptanceCriteria: [{ text: "First", checked: true }, { text: "Second", checked: true }], passes: true }));
+      writeIndexFile({ pending: [], completed: ["US-001"] });
+    });
+
+    expect(verification.verdict).toBe("completed");
+  });
+});